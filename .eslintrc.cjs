@@ -0,0 +1,38 @@
+module.exports = {
+  root: true,
+  env: { browser: true, es2020: true },
+  extends: [
+    "eslint:recommended",
+    "plugin:@typescript-eslint/recommended",
+    "plugin:react-hooks/recommended",
+  ],
+  ignorePatterns: ["dist", ".eslintrc.cjs"],
+  parser: "@typescript-eslint/parser",
+  plugins: ["react-refresh"],
+  rules: {
+    "react-refresh/only-export-components": [
+      "warn",
+      { allowConstantExport: true },
+    ],
+    // Leaving out properties by destructuring them is how objects are trimmed
+    "@typescript-eslint/no-unused-vars": [
+      "error",
+      { ignoreRestSiblings: true },
+    ],
+  },
+  overrides: [
+    {
+      // Generated by shadcn/ui, which exports variants next to components
+      files: ["src/components/ui/**"],
+      rules: { "react-refresh/only-export-components": "off" },
+    },
+    {
+      // Storybook stories type their args loosely and use hooks in render
+      files: ["src/stories/**"],
+      rules: {
+        "@typescript-eslint/no-explicit-any": "off",
+        "react-hooks/rules-of-hooks": "off",
+      },
+    },
+  ],
+};
@@ -4,8 +4,18 @@ import Home from "./components/home";
 import DocumentCreation from "./components/DocumentCreation";
 import DocumentSigning from "./components/DocumentSigning";
 import DocumentList from "./components/DocumentList";
+import DocumentDetail from "./components/DocumentDetail";
+import TemplateLibrary from "./components/TemplateLibrary";
+import TemplateDetail from "./components/TemplateDetail";
+import TemplateEditor from "./components/TemplateEditor";
+import ContainerVerification from "./components/ContainerVerification";
 import routes from "tempo-routes";
 
+// Tempo's storyboard routes, only mounted when running inside Tempo
+function TempoRoutes() {
+  return useRoutes(routes);
+}
+
 function App() {
   return (
     <Suspense fallback={<p>Loading...</p>}>
@@ -14,13 +24,22 @@ function App() {
           <Route path="/" element={<Home />} />
           <Route path="/create-document" element={<DocumentCreation />} />
           <Route path="/documents" element={<DocumentList />} />
+          <Route path="/documents/:documentId" element={<DocumentDetail />} />
+          <Route path="/verify-container" element={<ContainerVerification />} />
+          <Route path="/templates" element={<TemplateLibrary />} />
+          <Route path="/templates/new" element={<TemplateEditor />} />
+          <Route path="/templates/:templateId" element={<TemplateDetail />} />
+          <Route
+            path="/templates/:templateId/edit"
+            element={<TemplateEditor />}
+          />
           <Route path="/sign-document" element={<DocumentSigning />} />
           <Route
             path="/sign/:documentId/:signerId"
             element={<DocumentSigning />}
           />
         </Routes>
-        {import.meta.env.VITE_TEMPO === "true" && useRoutes(routes)}
+        {import.meta.env.VITE_TEMPO === "true" && <TempoRoutes />}
       </>
     </Suspense>
   );
@@ -0,0 +1,98 @@
+import React from "react";
+import {
+  AlertCircle,
+  Ban,
+  BellRing,
+  CalendarClock,
+  CheckCircle2,
+  Eye,
+  FileText,
+  FilePlus,
+  Mail,
+  MailQuestion,
+  PenLine,
+  UserRoundPlus,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  AUDIT_EVENT_LABELS,
+  describeAuditEvent,
+  formatAuditTime,
+} from "@/lib/auditTrail";
+import { AuditEvent, AuditEventType } from "@/types/template";
+
+const EVENT_ICONS: Record<AuditEventType, { icon: LucideIcon; color: string }> =
+  {
+    created: { icon: FilePlus, color: "text-blue-600 bg-blue-50" },
+    link_sent: { icon: Mail, color: "text-indigo-600 bg-indigo-50" },
+    opened: { icon: Eye, color: "text-gray-600 bg-gray-100" },
+    page_viewed: { icon: FileText, color: "text-gray-600 bg-gray-100" },
+    field_completed: { icon: PenLine, color: "text-gray-600 bg-gray-100" },
+    signed: { icon: CheckCircle2, color: "text-green-600 bg-green-50" },
+    declined: { icon: XCircle, color: "text-red-600 bg-red-50" },
+    reassigned: {
+      icon: UserRoundPlus,
+      color: "text-yellow-600 bg-yellow-50",
+    },
+    expired: { icon: AlertCircle, color: "text-red-600 bg-red-50" },
+    reminder_sent: { icon: BellRing, color: "text-indigo-600 bg-indigo-50" },
+    link_requested: {
+      icon: MailQuestion,
+      color: "text-yellow-600 bg-yellow-50",
+    },
+    expiry_extended: {
+      icon: CalendarClock,
+      color: "text-indigo-600 bg-indigo-50",
+    },
+    voided: { icon: Ban, color: "text-red-600 bg-red-50" },
+  };
+
+interface AuditTrailTimelineProps {
+  events: AuditEvent[];
+}
+
+// Events oldest first, with the browser details captured for each
+const AuditTrailTimeline: React.FC<AuditTrailTimelineProps> = ({ events }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No activity recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-gray-200 ml-4">
+      {events.map((event) => {
+        const { icon: Icon, color } = EVENT_ICONS[event.type];
+        return (
+          <li key={event.id} className="ml-6">
+            <span
+              className={`absolute -left-3.5 flex h-7 w-7 items-center justify-center rounded-full ring-4 ring-white ${color}`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="flex flex-col md:flex-row md:items-baseline md:justify-between gap-1">
+              <p className="text-sm font-medium">
+                {AUDIT_EVENT_LABELS[event.type]}
+              </p>
+              <time className="text-xs text-gray-500">
+                {formatAuditTime(event.timestamp)}
+              </time>
+            </div>
+            <p className="text-sm text-gray-600">{describeAuditEvent(event)}</p>
+            {(event.ipAddress || event.userAgent) && (
+              <p
+                className="text-xs text-gray-400 truncate"
+                title={event.userAgent}
+              >
+                {[event.ipAddress && `IP ${event.ipAddress}`, event.userAgent]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default AuditTrailTimeline;
@@ -0,0 +1,106 @@
+import React from "react";
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import type { BulkItem, BulkRun } from "@/hooks/useBulkAction";
+
+interface BulkProgressDialogProps {
+  // The dialog is open while a run is set
+  run: BulkRun | null;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const StatusIcon: React.FC<{ item: BulkItem }> = ({ item }) => {
+  switch (item.status) {
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-blue-600" />;
+    case "succeeded":
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    default:
+      return <Circle className="h-4 w-4 text-gray-300" />;
+  }
+};
+
+// Per-document progress of a bulk action; stays open afterwards so failures
+// can be read
+const BulkProgressDialog: React.FC<BulkProgressDialogProps> = ({
+  run,
+  onCancel,
+  onClose,
+}) => {
+  const items = run?.items ?? [];
+  const succeeded = items.filter(({ status }) => status === "succeeded");
+  const failed = items.filter(({ status }) => status === "failed");
+  const done = succeeded.length + failed.length;
+  const skipped = run?.isRunning ? 0 : items.length - done;
+
+  return (
+    <Dialog
+      open={!!run}
+      onOpenChange={(open) => !open && !run?.isRunning && onClose()}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{run?.title}</DialogTitle>
+          <DialogDescription>
+            {run?.isRunning
+              ? `Working on ${done + 1} of ${items.length}...`
+              : [
+                  `${succeeded.length} succeeded`,
+                  failed.length > 0 && `${failed.length} failed`,
+                  skipped > 0 && `${skipped} skipped`,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+        <Progress value={items.length > 0 ? (done / items.length) * 100 : 0} />
+        <ul className="max-h-72 space-y-2 overflow-y-auto pr-3">
+          {items.map((item) => (
+            <li key={item.document.id} className="flex gap-2 text-sm">
+              <span className="mt-0.5">
+                <StatusIcon item={item} />
+              </span>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{item.document.name}</p>
+                {item.message && (
+                  <p
+                    className={
+                      item.status === "failed"
+                        ? "text-red-600"
+                        : "text-gray-500"
+                    }
+                  >
+                    {item.message}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <DialogFooter>
+          {run?.isRunning ? (
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkProgressDialog;
@@ -0,0 +1,203 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  FileArchive,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  ASIC_E_MIME_TYPE,
+  verifyAsicContainer,
+  type ContainerReport,
+} from "@/lib/asice";
+
+/**
+ * Opens an ASiC-E container, such as one downloaded after signing, and
+ * reports whether each signature in it is intact.
+ */
+const ContainerVerification = () => {
+  const [fileName, setFileName] = useState<string>();
+  const [report, setReport] = useState<ContainerReport | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again after a failure
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    setIsVerifying(true);
+    try {
+      setReport(await verifyAsicContainer(file));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to open the container. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const isValid =
+    report &&
+    report.problems.length === 0 &&
+    report.unsignedFiles.length === 0 &&
+    report.signatures.every(({ valid }) => valid);
+
+  return (
+    <div className="container mx-auto py-8 bg-white max-w-3xl">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/documents">
+          <ArrowLeft className="h-4 w-4 mr-1" /> Documents
+        </Link>
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600">
+          Verify a Container
+        </h1>
+        <p className="text-gray-500 mt-1">
+          Check that a signed ASiC-E container hasn't been changed since it was
+          signed. Whether the signing certificate is trusted isn't checked.
+        </p>
+      </div>
+
+      <div
+        className="border-2 border-dashed border-gray-300 rounded-md p-6 text-center cursor-pointer hover:bg-gray-50 transition-colors mb-6"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`.asice,.sce,${ASIC_E_MIME_TYPE}`}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {isVerifying ? (
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-blue-600" />
+        ) : (
+          <Upload className="mx-auto h-8 w-8 text-gray-400" />
+        )}
+        <p className="mt-2 text-sm text-gray-600">
+          {fileName ?? "Click to choose an .asice container"}
+        </p>
+      </div>
+
+      {report && (
+        <div className="space-y-4">
+          <div
+            className={
+              isValid
+                ? "flex items-center gap-2 rounded-md bg-green-50 p-4 text-green-700"
+                : "flex items-center gap-2 rounded-md bg-red-50 p-4 text-red-700"
+            }
+          >
+            {isValid ? (
+              <CheckCircle2 className="h-5 w-5 shrink-0" />
+            ) : (
+              <XCircle className="h-5 w-5 shrink-0" />
+            )}
+            <span className="font-medium">
+              {isValid
+                ? "Every file is covered by a valid signature"
+                : "This container didn't pass verification"}
+            </span>
+          </div>
+
+          {(report.problems.length > 0 || report.unsignedFiles.length > 0) && (
+            <ul className="space-y-1 text-sm text-amber-700">
+              {report.problems.map((problem) => (
+                <li key={problem} className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {problem}
+                </li>
+              ))}
+              {report.unsignedFiles.map((name) => (
+                <li key={name} className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {name} isn't covered by a valid signature
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {report.signatures.map((signature) => (
+            <Card key={`${signature.file}#${signature.signatureId}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">
+                      {signature.signerName ?? "Unknown signer"}
+                    </CardTitle>
+                    <CardDescription>
+                      {signature.signingTime
+                        ? `Signed ${format(signature.signingTime, "PPpp")}`
+                        : "No signing time"}
+                      {` · ${signature.file}`}
+                    </CardDescription>
+                  </div>
+                  <Badge
+                    variant="outline"
+                    className={
+                      signature.valid
+                        ? "bg-green-50 text-green-700 border-green-200"
+                        : "bg-red-50 text-red-700 border-red-200"
+                    }
+                  >
+                    {signature.valid ? "Valid" : "Invalid"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {signature.problems.length > 0 && (
+                  <ul className="space-y-1 text-red-600">
+                    {signature.problems.map((problem) => (
+                      <li key={problem} className="flex items-start gap-2">
+                        <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                        {problem}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <ul className="space-y-1 text-gray-600">
+                  {signature.signedFiles.map((name) => (
+                    <li key={name} className="flex items-center gap-2">
+                      <FileArchive className="h-4 w-4 shrink-0 text-gray-400" />
+                      {name}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContainerVerification;
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface DeclineSigningDialogProps {
+  open: boolean;
+  documentName: string;
+  // Stays open while the decline is sent, so a failure can be retried
+  isSubmitting: boolean;
+  onCancel: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+const DeclineSigningDialog: React.FC<DeclineSigningDialogProps> = ({
+  open,
+  documentName,
+  isSubmitting,
+  onCancel,
+  onConfirm,
+}) => {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => !isOpen && !isSubmitting && onCancel()}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Decline to sign?</DialogTitle>
+          <DialogDescription>
+            Nobody will be able to sign {documentName} after you decline. The
+            sender is told straight away, along with your reason.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="decline-reason">Reason</Label>
+          <Textarea
+            id="decline-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. The terms don't match what we agreed"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!reason.trim() || isSubmitting}
+            onClick={() => onConfirm(reason.trim())}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Decline to Sign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeclineSigningDialog;
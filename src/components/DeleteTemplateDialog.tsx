@@ -0,0 +1,51 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import { Template } from "@/types/template";
+
+interface DeleteTemplateDialogProps {
+  // The dialog is open while a template is set
+  template: Template | null;
+  onCancel: () => void;
+  onConfirm: (template: Template) => void;
+}
+
+const DeleteTemplateDialog: React.FC<DeleteTemplateDialogProps> = ({
+  template,
+  onCancel,
+  onConfirm,
+}) => (
+  <AlertDialog open={!!template} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Delete "{template?.name}"?</AlertDialogTitle>
+        <AlertDialogDescription>
+          The template, its PDF and its field layout will be permanently
+          removed. Documents that were already created from it are not affected.
+          This can't be undone; archive the template instead if you may need it
+          again.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction
+          className={buttonVariants({ variant: "destructive" })}
+          onClick={() => template && onConfirm(template)}
+        >
+          Delete Template
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default DeleteTemplateDialog;
@@ -0,0 +1,211 @@
+import React, { useState } from "react";
+import JSZip from "jszip";
+import {
+  Ban,
+  BellRing,
+  CalendarClock,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import BulkProgressDialog from "@/components/BulkProgressDialog";
+import ExtendExpiryDialog from "@/components/ExtendExpiryDialog";
+import VoidDocumentsDialog from "@/components/VoidDocumentsDialog";
+import {
+  getDocument,
+  remindSigners,
+  updateDocumentExpiry,
+  voidDocument,
+} from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import { documentsToCsv } from "@/lib/documentExport";
+import { downloadBlob, toFileName } from "@/lib/download";
+import { fetchPdfFile } from "@/lib/pdf";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { useBulkAction } from "@/hooks/useBulkAction";
+import { DocumentSummary } from "@/types/template";
+
+interface DocumentBulkActionsProps {
+  // How many documents are selected, for the dialogs
+  count: number;
+  // The selected documents; may have to fetch them when every matching
+  // document is selected
+  resolveDocuments: (signal: AbortSignal) => Promise<DocumentSummary[]>;
+  // Called after an action that changed documents on the server
+  onDocumentsChanged: () => void;
+}
+
+const DocumentBulkActions: React.FC<DocumentBulkActionsProps> = ({
+  count,
+  resolveDocuments,
+  onDocumentsChanged,
+}) => {
+  const [isResolving, setIsResolving] = useState(false);
+  const [isVoidDialogOpen, setIsVoidDialogOpen] = useState(false);
+  const [isExpiryDialogOpen, setIsExpiryDialogOpen] = useState(false);
+  const bulk = useBulkAction();
+  const { toast } = useToast();
+  const getSignal = useAbortSignal();
+
+  // The selected documents, or undefined after toasting why they couldn't
+  // be loaded
+  const resolve = async () => {
+    setIsResolving(true);
+    try {
+      return await resolveDocuments(getSignal());
+    } catch (error) {
+      if (isAbortError(error)) return undefined;
+      toast({
+        title: "Couldn't load the selected documents",
+        description:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+      return undefined;
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const remind = async () => {
+    const documents = await resolve();
+    if (!documents) return;
+    await bulk.start("Sending reminders", documents, async (doc, signal) => {
+      const { reminded } = await remindSigners(doc.id, signal);
+      return reminded.length > 0
+        ? `Reminded ${reminded.join(", ")}`
+        : "Nobody to remind";
+    });
+  };
+
+  const voidSelected = async (reason: string | undefined) => {
+    setIsVoidDialogOpen(false);
+    const documents = await resolve();
+    if (!documents) return;
+    await bulk.start("Voiding documents", documents, async (doc, signal) => {
+      await voidDocument(doc.id, reason, signal);
+    });
+    onDocumentsChanged();
+  };
+
+  const extendExpiry = async (expiresAt: Date) => {
+    setIsExpiryDialogOpen(false);
+    const documents = await resolve();
+    if (!documents) return;
+    await bulk.start("Extending expiry", documents, async (doc, signal) => {
+      await updateDocumentExpiry(doc.id, expiresAt, signal);
+    });
+    onDocumentsChanged();
+  };
+
+  const downloadPdfs = async () => {
+    const documents = await resolve();
+    if (!documents) return;
+    const zip = new JSZip();
+    const saved = await bulk.start(
+      "Downloading signed PDFs",
+      documents,
+      async (doc, signal) => {
+        if (doc.status !== "completed") {
+          throw new Error("Not everyone has signed this document yet");
+        }
+        const { signedPdfUrl } = await getDocument(doc.id, signal);
+        // The unsigned original would pass for a signed copy in the zip
+        if (!signedPdfUrl) {
+          throw new Error("This document has no signed PDF");
+        }
+        // IDs keep documents with the same name apart
+        const fileName = `${toFileName(doc.name)}-${doc.id}.pdf`;
+        zip.file(fileName, await fetchPdfFile(signedPdfUrl, fileName));
+      },
+    );
+    if (saved.length === 0) return;
+    downloadBlob(
+      await zip.generateAsync({ type: "blob" }),
+      "signed-documents.zip",
+    );
+  };
+
+  const exportCsv = async () => {
+    const documents = await resolve();
+    if (!documents) return;
+    downloadBlob(
+      new Blob([documentsToCsv(documents)], { type: "text/csv" }),
+      "documents.csv",
+    );
+    toast({
+      title: "Export ready",
+      description: `${documents.length} document${documents.length === 1 ? "" : "s"} exported to CSV`,
+    });
+  };
+
+  const isBusy = isResolving || !!bulk.run?.isRunning;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {isResolving && (
+          <Loader2 className="h-4 w-4 animate-spin text-blue-600 self-center" />
+        )}
+        <Button variant="outline" size="sm" onClick={remind} disabled={isBusy}>
+          <BellRing className="h-3.5 w-3.5 mr-1" /> Remind
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsExpiryDialogOpen(true)}
+          disabled={isBusy}
+        >
+          <CalendarClock className="h-3.5 w-3.5 mr-1" /> Extend Expiry
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={downloadPdfs}
+          disabled={isBusy}
+        >
+          <Download className="h-3.5 w-3.5 mr-1" /> Download PDFs
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={exportCsv}
+          disabled={isBusy}
+        >
+          <FileSpreadsheet className="h-3.5 w-3.5 mr-1" /> Export CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsVoidDialogOpen(true)}
+          disabled={isBusy}
+          className="text-red-600 border-red-200 hover:bg-red-50"
+        >
+          <Ban className="h-3.5 w-3.5 mr-1" /> Void
+        </Button>
+      </div>
+
+      <VoidDocumentsDialog
+        open={isVoidDialogOpen}
+        documentCount={count}
+        onCancel={() => setIsVoidDialogOpen(false)}
+        onConfirm={voidSelected}
+      />
+      <ExtendExpiryDialog
+        open={isExpiryDialogOpen}
+        documentCount={count}
+        onCancel={() => setIsExpiryDialogOpen(false)}
+        onConfirm={extendExpiry}
+      />
+      <BulkProgressDialog
+        run={bulk.run}
+        onCancel={bulk.cancel}
+        onClose={bulk.close}
+      />
+    </>
+  );
+};
+
+export default DocumentBulkActions;
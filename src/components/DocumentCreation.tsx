@@ -2,7 +2,18 @@ import { useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { PlusCircle, Trash2, FileText } from "lucide-react";
+import { Link } from "react-router-dom";
+import { addDays, endOfDay, format, startOfToday } from "date-fns";
+import {
+  Calendar,
+  PlusCircle,
+  Trash2,
+  FileText,
+  CheckCircle2,
+  GripVertical,
+  ArrowUp,
+  ArrowDown,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -23,6 +34,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Select,
   SelectContent,
@@ -30,75 +48,210 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/components/ui/use-toast";
-import { Template, DocumentCreationPayload } from "@/types/template";
+import {
+  Template,
+  DocumentCreationPayload,
+  Signer,
+  SignerSigningLink,
+  SigningOrder,
+} from "@/types/template";
+import { buildSignerAssignments, getRoleColor } from "@/lib/signerRoles";
+import { SIGNING_ORDER_OPTIONS, getSigningSteps } from "@/lib/signingOrder";
+import {
+  DEFAULT_EXPIRY_DAYS,
+  DEFAULT_REMINDER_SCHEDULE,
+  REMINDER_INTERVAL_OPTIONS,
+} from "@/lib/documentExpiry";
+import { cn } from "@/lib/utils";
+import { createDocument, listTemplates } from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import TemplatePicker from "@/components/TemplatePicker";
+import TemplatePreview from "@/components/TemplatePreview";
+import SigningLinksPanel from "@/components/SigningLinksPanel";
 
 const formSchema = z.object({
   templateId: z.string({
     required_error: "Please select a template",
   }),
+  signingOrder: z.enum(["parallel", "sequential", "staged"]),
   signers: z
     .array(
       z.object({
         signerId: z.string().min(1, "Signer ID is required"),
         signerName: z.string().min(1, "Signer name is required"),
         signerEmail: z.string().email("Invalid email address"),
+        roleId: z.string().optional(),
+        stage: z.coerce.number().int().min(1, "Stages start at 1").optional(),
       }),
     )
-    .min(1, "At least one signer is required"),
+    .min(1, "At least one signer is required")
+    // IDs key the signing links and assignments
+    .superRefine((signers, ctx) => {
+      signers.forEach(({ signerId }, index) => {
+        if (signers.findIndex((s) => s.signerId === signerId) < index) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "signerId"],
+            message: "Signer IDs must be unique",
+          });
+        }
+      });
+    }),
+  // Missing means the signing links never expire
+  expiresAt: z.date().optional(),
+  remindersEnabled: z.boolean(),
+  reminderIntervalDays: z.coerce.number().int().min(1),
+  maxReminders: z.coerce
+    .number()
+    .int()
+    .min(1, "Send at least one reminder")
+    .max(10, "Send at most 10 reminders"),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Literal class names so Tailwind keeps them, keyed by column count
+const SIGNER_GRID_COLUMNS: Record<number, string> = {
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-4",
+  5: "md:grid-cols-5",
+};
+
+// The first "signer-N" not taken yet, so removing a signer and adding
+// another doesn't repeat an ID
+function nextSignerId(signers: { signerId?: string }[]) {
+  const taken = new Set(signers.map(({ signerId }) => signerId));
+  let number = signers.length + 1;
+  while (taken.has(`signer-${number}`)) number++;
+  return `signer-${number}`;
+}
+
+// Every role of the template needs exactly one signer, otherwise its fields
+// would have no owner or two
+function findRoleErrors(template: Template | undefined, signers: Signer[]) {
+  const roles = template?.config?.signerRoles ?? [];
+  const errors: string[] = [];
+  roles.forEach((role) => {
+    const count = signers.filter((s) => s.roleId === role.id).length;
+    if (count === 0) errors.push(`Assign a signer to the "${role.name}" role`);
+    if (count > 1) {
+      errors.push(`Only one signer can fill the "${role.name}" role`);
+    }
+  });
+  return errors;
+}
+
 export default function DocumentCreation() {
   const [isLoading, setIsLoading] = useState(false);
-  const [templates, setTemplates] = useState<Template[]>([
-    // Mock data - replace with actual API call
-    { id: "template-1", name: "Invoice Template" },
-    { id: "template-2", name: "Contract Template" },
-    { id: "template-3", name: "NDA Template" },
-  ]);
+  const {
+    data: templates = [],
+    isLoading: isLoadingTemplates,
+    error: templatesError,
+  } = useApiQuery(listTemplates, []);
+  const [roleErrors, setRoleErrors] = useState<string[]>([]);
+  // Set once the document is created, to show its signing links
+  const [created, setCreated] = useState<{
+    documentId: string;
+    links: SignerSigningLink[];
+  } | null>(null);
   const { toast } = useToast();
+  const getSignal = useAbortSignal();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       templateId: "",
-      signers: [{ signerId: "signer-1", signerName: "", signerEmail: "" }],
+      signingOrder: "parallel",
+      signers: [
+        { signerId: "signer-1", signerName: "", signerEmail: "", stage: 1 },
+      ],
+      expiresAt: addDays(startOfToday(), DEFAULT_EXPIRY_DAYS),
+      remindersEnabled: true,
+      reminderIntervalDays: DEFAULT_REMINDER_SCHEDULE.intervalDays,
+      maxReminders: DEFAULT_REMINDER_SCHEDULE.maxReminders,
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, move } = useFieldArray({
     control: form.control,
     name: "signers",
   });
 
+  const selectedTemplate = templates.find(
+    (template) => template.id === form.watch("templateId"),
+  );
+  const signerRoles = selectedTemplate?.config?.signerRoles ?? [];
+  const signingOrder = form.watch("signingOrder") as SigningOrder;
+  // Index of the signer card being dragged to a new position
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Give each signer the template's roles in order; they can be changed
+  // afterwards
+  const handleTemplateChange = (templateId: string) => {
+    const roles =
+      templates.find((template) => template.id === templateId)?.config
+        ?.signerRoles ?? [];
+    form
+      .getValues("signers")
+      .forEach((_, index) =>
+        form.setValue(`signers.${index}.roleId`, roles[index]?.id),
+      );
+    setRoleErrors([]);
+  };
+
   async function onSubmit(data: FormValues) {
+    const signers = data.signers as Signer[];
+    const errors = findRoleErrors(selectedTemplate, signers);
+    setRoleErrors(errors);
+    if (errors.length > 0) return;
+
     setIsLoading(true);
     try {
-      // Replace with actual API endpoint
-      const response = await fetch("/api/documents", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data as DocumentCreationPayload),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to create document");
-      }
+      const steps = getSigningSteps(signers, data.signingOrder);
+      const payload: DocumentCreationPayload = {
+        templateId: data.templateId,
+        signingOrder: data.signingOrder,
+        signers,
+        assignments: buildSignerAssignments(
+          signers,
+          selectedTemplate?.config,
+        ).map((assignment, index) => ({ ...assignment, step: steps[index] })),
+        // Links stay valid until the end of the chosen day
+        expiresAt: data.expiresAt && endOfDay(data.expiresAt).toISOString(),
+        reminders: data.remindersEnabled
+          ? {
+              intervalDays: data.reminderIntervalDays,
+              maxReminders: data.maxReminders,
+            }
+          : undefined,
+      };
 
-      const result = await response.json();
+      const result = await createDocument(payload, getSignal());
 
       toast({
         title: "Document created successfully",
         description: `Document ID: ${result.documentId}`,
       });
 
-      // Reset form or redirect
+      setCreated({
+        documentId: result.documentId,
+        links: result.signingLinks.map((link) => {
+          const signer = signers.find((s) => s.signerId === link.signerId);
+          return {
+            ...link,
+            signerName: signer?.signerName ?? link.signerId,
+            signerEmail: signer?.signerEmail ?? "",
+          };
+        }),
+      });
       form.reset();
+      setRoleErrors([]);
     } catch (error) {
+      if (isAbortError(error)) return;
       toast({
         title: "Error creating document",
         description:
@@ -110,25 +263,41 @@ export default function DocumentCreation() {
     }
   }
 
-  // Fetch templates from backend
-  // useEffect(() => {
-  //   async function fetchTemplates() {
-  //     try {
-  //       const response = await fetch("/api/templates");
-  //       if (!response.ok) throw new Error("Failed to fetch templates");
-  //       const data = await response.json();
-  //       setTemplates(data);
-  //     } catch (error) {
-  //       console.error("Error fetching templates:", error);
-  //       toast({
-  //         title: "Error",
-  //         description: "Failed to load templates",
-  //         variant: "destructive",
-  //       });
-  //     }
-  //   }
-  //   fetchTemplates();
-  // }, [toast]);
+  if (created) {
+    return (
+      <div className="container mx-auto py-10 bg-white">
+        <Card className="max-w-3xl mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              Document Created
+            </CardTitle>
+            <CardDescription>
+              Share each signer's link below. You can find these links again on
+              the document's page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SigningLinksPanel
+              documentId={created.documentId}
+              links={created.links}
+            />
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setCreated(null)}>
+              Create Another
+            </Button>
+            <Button
+              asChild
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            >
+              <Link to={`/documents/${created.documentId}`}>View Document</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
 
   return (
     <div className="container mx-auto py-10 bg-white">
@@ -149,26 +318,75 @@ export default function DocumentCreation() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Template</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a template" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {templates.map((template) => (
-                          <SelectItem key={template.id} value={template.id}>
-                            {template.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormControl>
+                      <TemplatePicker
+                        templates={templates}
+                        value={field.value}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          handleTemplateChange(value);
+                        }}
+                        isLoading={isLoadingTemplates}
+                      />
+                    </FormControl>
                     <FormDescription>
                       Choose the template you want to use for this document.
                     </FormDescription>
+                    {templatesError && (
+                      <p className="text-sm font-medium text-destructive">
+                        Failed to load templates: {templatesError.message}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {selectedTemplate && (
+                <TemplatePreview template={selectedTemplate} />
+              )}
+
+              <FormField
+                control={form.control}
+                name="signingOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Signing Order</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        className="grid gap-2 md:grid-cols-3"
+                      >
+                        {(
+                          Object.keys(SIGNING_ORDER_OPTIONS) as SigningOrder[]
+                        ).map((order) => (
+                          <label
+                            key={order}
+                            htmlFor={`signing-order-${order}`}
+                            className={cn(
+                              "flex cursor-pointer gap-2 rounded-md border p-3",
+                              field.value === order &&
+                                "border-blue-500 bg-blue-50/50",
+                            )}
+                          >
+                            <RadioGroupItem
+                              value={order}
+                              id={`signing-order-${order}`}
+                              className="mt-0.5"
+                            />
+                            <span>
+                              <span className="block text-sm font-medium">
+                                {SIGNING_ORDER_OPTIONS[order].label}
+                              </span>
+                              <span className="block text-xs text-muted-foreground">
+                                {SIGNING_ORDER_OPTIONS[order].description}
+                              </span>
+                            </span>
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -183,9 +401,11 @@ export default function DocumentCreation() {
                     size="sm"
                     onClick={() => {
                       append({
-                        signerId: `signer-${fields.length + 1}`,
+                        signerId: nextSignerId(form.getValues("signers")),
                         signerName: "",
                         signerEmail: "",
+                        roleId: signerRoles[fields.length]?.id,
+                        stage: fields.length + 1,
                       });
                     }}
                   >
@@ -197,22 +417,90 @@ export default function DocumentCreation() {
                 {fields.map((field, index) => (
                   <div
                     key={field.id}
-                    className="p-4 border rounded-md bg-muted/20"
+                    className={cn(
+                      "p-4 border rounded-md bg-muted/20",
+                      dragIndex === index && "opacity-50",
+                    )}
+                    onDragOver={(e) => dragIndex !== null && e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragIndex !== null && dragIndex !== index) {
+                        move(dragIndex, index);
+                      }
+                      setDragIndex(null);
+                    }}
                   >
                     <div className="flex justify-between items-center mb-2">
-                      <h4 className="font-medium">Signer {index + 1}</h4>
-                      {fields.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => remove(index)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {fields.length > 1 && (
+                          <span
+                            draggable
+                            onDragStart={(e) => {
+                              setDragIndex(index);
+                              e.dataTransfer.effectAllowed = "move";
+                              const card =
+                                e.currentTarget.closest("div.border");
+                              if (card) e.dataTransfer.setDragImage(card, 0, 0);
+                            }}
+                            onDragEnd={() => setDragIndex(null)}
+                            className="cursor-grab text-muted-foreground"
+                            title="Drag to reorder"
+                          >
+                            <GripVertical className="h-4 w-4" />
+                          </span>
+                        )}
+                        <h4 className="font-medium">
+                          {signingOrder === "sequential"
+                            ? `Step ${index + 1}`
+                            : `Signer ${index + 1}`}
+                        </h4>
+                      </div>
+                      <div className="flex items-center">
+                        {fields.length > 1 && (
+                          <>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              disabled={index === 0}
+                              onClick={() => move(index, index - 1)}
+                              aria-label="Move signer up"
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              disabled={index === fields.length - 1}
+                              onClick={() => move(index, index + 1)}
+                              aria-label="Move signer down"
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              aria-label="Remove signer"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
                     </div>
-                    <div className="grid gap-4 md:grid-cols-3">
+                    <div
+                      className={cn(
+                        "grid gap-4",
+                        SIGNER_GRID_COLUMNS[
+                          3 +
+                            (signerRoles.length > 0 ? 1 : 0) +
+                            (signingOrder === "staged" ? 1 : 0)
+                        ],
+                      )}
+                    >
                       <FormField
                         control={form.control}
                         name={`signers.${index}.signerId`}
@@ -252,9 +540,204 @@ export default function DocumentCreation() {
                           </FormItem>
                         )}
                       />
+                      {signerRoles.length > 0 && (
+                        <FormField
+                          control={form.control}
+                          name={`signers.${index}.roleId`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Role</FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                value={field.value ?? ""}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select a role" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {signerRoles.map((role) => (
+                                    <SelectItem key={role.id} value={role.id}>
+                                      <span className="flex items-center gap-2">
+                                        <span
+                                          className="h-2 w-2 rounded-full"
+                                          style={{
+                                            backgroundColor: getRoleColor(role),
+                                          }}
+                                        />
+                                        {role.name}
+                                      </span>
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      {signingOrder === "staged" && (
+                        <FormField
+                          control={form.control}
+                          name={`signers.${index}.stage`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Stage</FormLabel>
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  type="number"
+                                  min={1}
+                                  value={field.value ?? ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
+
+                {roleErrors.length > 0 && (
+                  <ul className="text-sm font-medium text-destructive list-disc pl-5">
+                    {roleErrors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Expiry & Reminders</h3>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="expiresAt"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Links Expire</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "w-full pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground",
+                                )}
+                              >
+                                {field.value
+                                  ? format(field.value, "PPP")
+                                  : "Never"}
+                                <Calendar className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <CalendarComponent
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              disabled={{ before: startOfToday() }}
+                              initialFocus
+                            />
+                            <div className="border-t p-2">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="w-full"
+                                onClick={() => field.onChange(undefined)}
+                              >
+                                Never expire
+                              </Button>
+                            </div>
+                          </PopoverContent>
+                        </Popover>
+                        <FormDescription>
+                          Signers can't open their links after this day.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="space-y-3">
+                    <FormField
+                      control={form.control}
+                      name="remindersEnabled"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between gap-2 space-y-0">
+                          <FormLabel>Automatic Reminders</FormLabel>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("remindersEnabled") && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <FormField
+                          control={form.control}
+                          name="reminderIntervalDays"
+                          render={({ field }) => (
+                            <FormItem>
+                              <Select
+                                value={String(field.value)}
+                                onValueChange={(value) =>
+                                  field.onChange(Number(value))
+                                }
+                              >
+                                <FormControl>
+                                  <SelectTrigger aria-label="Reminder interval">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {REMINDER_INTERVAL_OPTIONS.map((days) => (
+                                    <SelectItem key={days} value={String(days)}>
+                                      Every{" "}
+                                      {days === 1 ? "day" : `${days} days`}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="maxReminders"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  max={10}
+                                  aria-label="Maximum reminders"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
+                    <FormDescription>
+                      Signers whose turn it is are emailed until they sign, up
+                      to the maximum number of reminders.
+                    </FormDescription>
+                  </div>
+                </div>
               </div>
 
               <CardFooter className="flex justify-end px-0">
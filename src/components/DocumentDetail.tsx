@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import {
+  ArrowLeft,
+  CalendarClock,
+  Download,
+  FileArchive,
+  FileDown,
+  FileJson,
+  FileText,
+  Loader2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import AuditTrailTimeline from "@/components/AuditTrailTimeline";
+import DocumentStatusBadge from "@/components/DocumentStatusBadge";
+import ExtendExpiryDialog from "@/components/ExtendExpiryDialog";
+import PdfFieldOverlay from "@/components/PdfFieldOverlay";
+import SigningLinksPanel from "@/components/SigningLinksPanel";
+import {
+  getAuditTrail,
+  getDocument,
+  listDocumentSigners,
+  listSigningLinks,
+  updateDocumentExpiry,
+} from "@/lib/api";
+import { ApiError, isAbortError } from "@/lib/apiClient";
+import {
+  buildCompletionCertificate,
+  exportAuditTrailJson,
+} from "@/lib/auditTrail";
+import { downloadBlob, toFileName } from "@/lib/download";
+import { fetchPdfFile } from "@/lib/pdf";
+import {
+  formatExpiryCountdown,
+  formatReminderSchedule,
+} from "@/lib/documentExpiry";
+import { SIGNING_ORDER_OPTIONS, getCurrentStep } from "@/lib/signingOrder";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { usePdfDocument } from "@/hooks/usePdfDocument";
+import type { SignerAssignment } from "@/types/template";
+
+// Pages are drawn this wide, in CSS pixels
+const PAGE_WIDTH = 640;
+
+const SIGNER_BADGES: Record<
+  SignerAssignment["status"] | "waiting",
+  { label: string; className: string }
+> = {
+  pending: {
+    label: "Pending",
+    className: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  },
+  // Pending, but not invited yet because earlier steps haven't signed
+  waiting: {
+    label: "Waiting",
+    className: "bg-gray-50 text-gray-600 border-gray-200",
+  },
+  completed: {
+    label: "Signed",
+    className: "bg-green-50 text-green-700 border-green-200",
+  },
+  declined: {
+    label: "Declined",
+    className: "bg-red-50 text-red-700 border-red-200",
+  },
+  reassigned: {
+    label: "Reassigned",
+    className: "bg-gray-50 text-gray-600 border-gray-200",
+  },
+};
+
+const DocumentDetail = () => {
+  const { documentId } = useParams<{ documentId: string }>();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isExtendOpen, setIsExtendOpen] = useState(false);
+  const { toast } = useToast();
+  const getSignal = useAbortSignal();
+  const { data, isLoading, error, reload } = useApiQuery(
+    async (signal) => {
+      const [document, links, signers, events] = await Promise.all([
+        getDocument(documentId!, signal),
+        listSigningLinks(documentId!, signal),
+        listDocumentSigners(documentId!, signal),
+        getAuditTrail(documentId!, signal),
+      ]);
+      return { document, links, signers, events };
+    },
+    [documentId],
+  );
+  const {
+    pdf,
+    pageSizes,
+    isLoading: isPdfLoading,
+  } = usePdfDocument(data?.document.pdfUrl);
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    const notFound = error instanceof ApiError && error.status === 404;
+    return (
+      <div className="container mx-auto py-12">
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-red-600">
+              {notFound ? "Document Not Found" : "Couldn't Load Document"}
+            </CardTitle>
+            <CardDescription>
+              {notFound
+                ? "The document doesn't exist or you don't have permission to access it."
+                : error?.message}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/documents">Back to Documents</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { document, links, signers, events } = data;
+  const currentStep = getCurrentStep(signers);
+  const fileName = toFileName(document.name);
+
+  const handleExportJson = () =>
+    downloadBlob(exportAuditTrailJson(data), `${fileName}-audit-trail.json`);
+
+  const handleExportCertificate = async () => {
+    setIsExporting(true);
+    try {
+      const bytes = await buildCompletionCertificate(data);
+      downloadBlob(
+        new Blob([bytes], { type: "application/pdf" }),
+        `${fileName}-certificate.pdf`,
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to build the certificate. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownloadSignedPdf = async () => {
+    setIsDownloading(true);
+    try {
+      const signedFileName = `${fileName}-signed.pdf`;
+      downloadBlob(
+        await fetchPdfFile(document.signedPdfUrl!, signedFileName),
+        signedFileName,
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to download the signed PDF. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleExtendExpiry = async (expiresAt: Date) => {
+    setIsExtendOpen(false);
+    try {
+      await updateDocumentExpiry(document.id, expiresAt, getSignal());
+      toast({
+        title: "Expiry extended",
+        description: `Signing links are valid until ${format(expiresAt, "PPP")}.`,
+      });
+      reload();
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to extend the expiry. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 bg-white">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/documents">
+          <ArrowLeft className="h-4 w-4 mr-1" /> Documents
+        </Link>
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">{document.name}</h1>
+          <DocumentStatusBadge status={document.status} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(document.status === "pending" || document.status === "expired") && (
+            <Button variant="outline" onClick={() => setIsExtendOpen(true)}>
+              <CalendarClock className="h-4 w-4 mr-2" /> Extend Expiry
+            </Button>
+          )}
+          {document.signedPdfUrl && (
+            <Button
+              variant="outline"
+              onClick={handleDownloadSignedPdf}
+              disabled={isDownloading}
+            >
+              {isDownloading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Signed PDF
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleExportJson}>
+            <FileJson className="h-4 w-4 mr-2" /> Export Audit Trail
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExportCertificate}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4 mr-2" />
+            )}
+            Certificate of Completion
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_400px] gap-8">
+        <div className="flex flex-col items-center gap-6 rounded-lg bg-gray-100 p-6 self-start">
+          {pdf ? (
+            pageSizes.map((size, index) => (
+              <PdfFieldOverlay
+                key={index}
+                pdf={pdf}
+                pageNumber={index + 1}
+                pageSize={size}
+                scale={PAGE_WIDTH / size.width}
+                fields={document.fields.filter(
+                  (field) => field.page === index + 1,
+                )}
+              />
+            ))
+          ) : isPdfLoading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 my-24" />
+          ) : (
+            <div className="text-center text-gray-500 my-24">
+              <FileText className="h-10 w-10 mx-auto mb-2" />
+              The document PDF couldn't be loaded
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-gray-500">Signing order</dt>
+                <dd>
+                  {
+                    SIGNING_ORDER_OPTIONS[document.signingOrder ?? "parallel"]
+                      .label
+                  }
+                </dd>
+                <dt className="text-gray-500">Expiry</dt>
+                <dd>
+                  {document.expiresAt ? (
+                    <>
+                      {format(parseISO(document.expiresAt), "PPP")}
+                      {document.status === "pending" && (
+                        <span className="block text-gray-500">
+                          {formatExpiryCountdown(document.expiresAt)}
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    "Never"
+                  )}
+                </dd>
+                <dt className="text-gray-500">Reminders</dt>
+                <dd>
+                  {document.reminders ? (
+                    <>
+                      {formatReminderSchedule(document.reminders)}
+                      <span className="block text-gray-500">
+                        {document.remindersSent ?? 0} sent
+                        {document.nextReminderAt &&
+                          `, next ${format(parseISO(document.nextReminderAt), "PPp")}`}
+                      </span>
+                    </>
+                  ) : (
+                    "Off"
+                  )}
+                </dd>
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Signers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {signers.map((signer) => {
+                const isWaiting =
+                  signer.status === "pending" &&
+                  currentStep !== undefined &&
+                  (signer.step ?? 1) > currentStep;
+                const badge = isWaiting ? "waiting" : signer.status;
+                return (
+                  <div
+                    key={signer.signerId}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {signer.signerName}
+                      </p>
+                      <p className="text-gray-500 truncate">
+                        {signer.signerEmail}
+                        {document.signingOrder &&
+                          document.signingOrder !== "parallel" &&
+                          ` · Step ${signer.step ?? 1}`}
+                      </p>
+                      {signer.declineReason && (
+                        <p className="text-red-600">{signer.declineReason}</p>
+                      )}
+                      {signer.reassignedTo && (
+                        <p className="text-gray-500 truncate">
+                          Handed over to {signer.reassignedTo.name}
+                        </p>
+                      )}
+                      {signer.containerUrl && (
+                        <a
+                          href={signer.containerUrl}
+                          download={`${fileName}-${toFileName(signer.signerName)}.asice`}
+                          className="inline-flex items-center text-blue-600 hover:underline"
+                        >
+                          <FileArchive className="h-3.5 w-3.5 mr-1" /> Signed
+                          container
+                        </a>
+                      )}
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={SIGNER_BADGES[badge].className}
+                    >
+                      {SIGNER_BADGES[badge].label}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {document.status === "pending" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Signing Links</CardTitle>
+                <CardDescription>
+                  Share these with signers who haven't signed yet.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SigningLinksPanel documentId={document.id} links={links} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Audit Trail</CardTitle>
+              <CardDescription>
+                Every step of the document's lifecycle, with the IP address and
+                browser it came from.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AuditTrailTimeline events={events} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <ExtendExpiryDialog
+        open={isExtendOpen}
+        documentCount={1}
+        onCancel={() => setIsExtendOpen(false)}
+        onConfirm={handleExtendExpiry}
+      />
+    </div>
+  );
+};
+
+export default DocumentDetail;
@@ -1,25 +1,25 @@
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { DateRange } from "react-day-picker";
 import {
   FileSignature,
-  Clock,
-  CheckCircle,
+  ShieldCheck,
   AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
   Send,
   ExternalLink,
   Search,
   Filter,
+  Loader2,
+  RefreshCw,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardFooter,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import {
   Table,
   TableBody,
@@ -28,163 +28,253 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
-  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import DatePickerWithRange from "@/components/ui/date-picker-with-range";
+import DocumentBulkActions from "@/components/DocumentBulkActions";
+import DocumentStatusBadge from "@/components/DocumentStatusBadge";
+import ListPagination from "@/components/ListPagination";
+import SendSigningEmailDialog from "@/components/SendSigningEmailDialog";
+import { listAllDocuments, listDocuments } from "@/lib/api";
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Badge } from "@/components/ui/badge";
-import { useToast } from "@/components/ui/use-toast";
+  DOCUMENT_PAGE_SIZES,
+  DOCUMENT_STATUSES,
+  hasDocumentFilters,
+  parseDocumentQuery,
+  toDocumentSearchParams,
+} from "@/lib/documentQuery";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { getCurrentStep } from "@/lib/signingOrder";
+import { formatExpiryCountdown, getExpiryState } from "@/lib/documentExpiry";
+import {
+  Document,
+  DocumentQuery,
+  DocumentSortField,
+  DocumentSummary,
+} from "@/types/template";
+
+const SEARCH_DEBOUNCE_MS = 300;
 
-interface DocumentItem {
-  id: string;
-  name: string;
-  createdAt: string;
-  status: "pending" | "completed" | "expired";
-  signers: {
-    name: string;
-    email: string;
-    status: "pending" | "completed";
-  }[];
+interface SortableHeadProps {
+  field: DocumentSortField;
+  query: DocumentQuery;
+  onSort: (field: DocumentSortField) => void;
+  children: React.ReactNode;
 }
 
+const SortableHead: React.FC<SortableHeadProps> = ({
+  field,
+  query,
+  onSort,
+  children,
+}) => {
+  const isSorted = query.sort === field;
+  const Icon = !isSorted
+    ? ArrowUpDown
+    : query.order === "asc"
+      ? ArrowUp
+      : ArrowDown;
+  return (
+    <TableHead
+      aria-sort={
+        isSorted
+          ? query.order === "asc"
+            ? "ascending"
+            : "descending"
+          : undefined
+      }
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8"
+        onClick={() => onSort(field)}
+      >
+        {children}
+        <Icon
+          className={`ml-2 h-3.5 w-3.5 ${isSorted ? "" : "text-gray-400"}`}
+        />
+      </Button>
+    </TableHead>
+  );
+};
+
 const DocumentList = () => {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
-  const [isEmailDialogOpen, setIsEmailDialogOpen] = useState(false);
-  const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(
-    null,
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseDocumentQuery(searchParams), [searchParams]);
+  const [searchTerm, setSearchTerm] = useState(query.q ?? "");
+  // Picked rows, kept across pages, unless every matching document is
+  // selected
+  const [selected, setSelected] = useState<Map<string, DocumentSummary>>(
+    new Map(),
   );
-  const [emailAddress, setEmailAddress] = useState("");
-  const [isSending, setIsSending] = useState(false);
+  const [allMatching, setAllMatching] = useState(false);
+  const [emailDocumentId, setEmailDocumentId] = useState<string | null>(null);
   const navigate = useNavigate();
-  const { toast } = useToast();
 
-  // Mock documents data
-  const documents: DocumentItem[] = [
-    {
-      id: "doc-001",
-      name: "Employment Contract",
-      createdAt: "2023-05-15T10:30:00Z",
-      status: "pending",
-      signers: [
-        {
-          name: "John Doe",
-          email: "john.doe@example.com",
-          status: "pending",
-        },
-        {
-          name: "Jane Smith",
-          email: "jane.smith@example.com",
-          status: "pending",
-        },
-      ],
-    },
-    {
-      id: "doc-002",
-      name: "Non-Disclosure Agreement",
-      createdAt: "2023-05-10T14:20:00Z",
-      status: "completed",
-      signers: [
-        {
-          name: "Alice Johnson",
-          email: "alice@example.com",
-          status: "completed",
-        },
-      ],
-    },
-    {
-      id: "doc-003",
-      name: "Sales Contract",
-      createdAt: "2023-05-05T09:15:00Z",
-      status: "pending",
-      signers: [
-        {
-          name: "Bob Williams",
-          email: "bob@example.com",
-          status: "completed",
-        },
-        {
-          name: "Charlie Brown",
-          email: "charlie@example.com",
-          status: "pending",
-        },
-      ],
-    },
-    {
-      id: "doc-004",
-      name: "Lease Agreement",
-      createdAt: "2023-04-28T16:45:00Z",
-      status: "expired",
-      signers: [
-        {
-          name: "David Miller",
-          email: "david@example.com",
-          status: "pending",
-        },
-      ],
-    },
-  ];
+  // Merges changes into the URL state. Anything but a page change starts
+  // over at the first page.
+  const updateQuery = (
+    changes: Partial<DocumentQuery>,
+    options?: { replace?: boolean },
+  ) =>
+    setSearchParams(
+      (current) =>
+        toDocumentSearchParams({
+          ...parseDocumentQuery(current),
+          page: 1,
+          ...changes,
+        }),
+      options,
+    );
 
-  // Filter documents based on search term and status filter
-  const filteredDocuments = documents.filter((doc) => {
-    const matchesSearch = doc.name
-      .toLowerCase()
-      .includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter ? doc.status === statusFilter : true;
-    return matchesSearch && matchesStatus;
-  });
+  // Only ask the server once typing pauses
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const q = searchTerm.trim() || undefined;
+      if (q !== query.q) updateQuery({ q }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+    // Restarting the timer on anything but typing would delay the search
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm]);
 
-  const handleSignDocument = (documentId: string) => {
-    // In a real app, you would get the signer ID from the current user's context
-    const signerId = "current-user-id";
-    navigate(`/sign/${documentId}/${signerId}`);
+  // Follow the URL when it changes underneath us, e.g. on back navigation
+  useEffect(() => {
+    setSearchTerm((current) =>
+      current.trim() === (query.q ?? "") ? current : (query.q ?? ""),
+    );
+  }, [query.q]);
+
+  const {
+    data,
+    isLoading,
+    error: loadError,
+    reload,
+  } = useApiQuery((signal) => listDocuments(query, signal), [searchParams]);
+  const documents = data?.items ?? [];
+  const isFiltered = hasDocumentFilters(query);
+
+  // A different filter means a different set of documents
+  const filterKey = JSON.stringify([
+    query.q,
+    query.status,
+    query.createdFrom,
+    query.createdTo,
+  ]);
+  useEffect(() => {
+    setSelected(new Map());
+    setAllMatching(false);
+  }, [filterKey]);
+
+  // Keep selected rows up to date after a reload
+  useEffect(() => {
+    setSelected((current) => {
+      const refreshed = (data?.items ?? []).filter((doc) =>
+        current.has(doc.id),
+      );
+      if (refreshed.length === 0) return current;
+      const next = new Map(current);
+      refreshed.forEach((doc) => next.set(doc.id, doc));
+      return next;
+    });
+  }, [data]);
+
+  const isSelected = (doc: DocumentSummary) =>
+    allMatching || selected.has(doc.id);
+  const isPageSelected =
+    documents.length > 0 && documents.every((doc) => isSelected(doc));
+  const selectionCount = allMatching ? (data?.total ?? 0) : selected.size;
+
+  const toggleRow = (doc: DocumentSummary, checked: boolean) => {
+    // Unticking a row narrows "all matching" down to this page
+    const next = allMatching
+      ? new Map(documents.map((d) => [d.id, d]))
+      : new Map(selected);
+    if (checked) {
+      next.set(doc.id, doc);
+    } else {
+      next.delete(doc.id);
+    }
+    setAllMatching(false);
+    setSelected(next);
   };
 
-  const handleSendEmail = (documentId: string) => {
-    setSelectedDocumentId(documentId);
-    setIsEmailDialogOpen(true);
+  const togglePage = (checked: boolean) => {
+    const next = new Map(selected);
+    documents.forEach((doc) =>
+      checked ? next.set(doc.id, doc) : next.delete(doc.id),
+    );
+    setAllMatching(false);
+    setSelected(next);
   };
 
-  const sendSigningLink = async () => {
-    if (!emailAddress || !selectedDocumentId) return;
+  const clearSelection = () => {
+    setAllMatching(false);
+    setSelected(new Map());
+  };
 
-    setIsSending(true);
-    try {
-      // In a real app, this would be an API call
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+  const resolveSelection = (signal: AbortSignal) =>
+    allMatching
+      ? listAllDocuments(query, signal)
+      : Promise.resolve([...selected.values()]);
 
-      toast({
-        title: "Signing link sent",
-        description: `A signing link has been sent to ${emailAddress}`,
-      });
+  const toggleStatus = (status: Document["status"], checked: boolean) => {
+    const selected = (query.status ?? []).filter((value) => value !== status);
+    if (checked) selected.push(status);
+    updateQuery({ status: selected.length > 0 ? selected : undefined });
+  };
 
-      setIsEmailDialogOpen(false);
-      setEmailAddress("");
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to send signing link. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSending(false);
-    }
+  const handleSort = (field: DocumentSortField) =>
+    updateQuery({
+      sort: field,
+      order:
+        query.sort === field
+          ? query.order === "asc"
+            ? "desc"
+            : "asc"
+          : field === "createdAt"
+            ? "desc"
+            : "asc",
+    });
+
+  const handleDateRangeChange = (range: DateRange | undefined) =>
+    updateQuery({
+      createdFrom: range?.from && format(range.from, "yyyy-MM-dd"),
+      createdTo: range?.to && format(range.to, "yyyy-MM-dd"),
+    });
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    updateQuery({
+      q: undefined,
+      status: undefined,
+      createdFrom: undefined,
+      createdTo: undefined,
+    });
+  };
+
+  // Opens the signing screen as the first signer whose turn it is
+  const handleSignDocument = (doc: DocumentSummary) => {
+    const step = getCurrentStep(doc.signers);
+    const signer = doc.signers.find(
+      (s) => s.status === "pending" && (s.step ?? 1) === step,
+    );
+    if (!signer) return;
+    navigate(`/sign/${doc.id}/${signer.signerId}`);
   };
 
+  const currentStep = (doc: DocumentSummary) =>
+    getCurrentStep(doc.signers) ?? Infinity;
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return new Intl.DateTimeFormat("en-US", {
@@ -194,40 +284,6 @@ const DocumentList = () => {
     }).format(date);
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "pending":
-        return (
-          <Badge
-            variant="outline"
-            className="bg-yellow-50 text-yellow-700 border-yellow-200"
-          >
-            <Clock className="h-3 w-3 mr-1" /> Pending
-          </Badge>
-        );
-      case "completed":
-        return (
-          <Badge
-            variant="outline"
-            className="bg-green-50 text-green-700 border-green-200"
-          >
-            <CheckCircle className="h-3 w-3 mr-1" /> Completed
-          </Badge>
-        );
-      case "expired":
-        return (
-          <Badge
-            variant="outline"
-            className="bg-red-50 text-red-700 border-red-200"
-          >
-            <AlertCircle className="h-3 w-3 mr-1" /> Expired
-          </Badge>
-        );
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="container mx-auto py-8 bg-white">
       <div className="flex items-center justify-between mb-8">
@@ -239,12 +295,19 @@ const DocumentList = () => {
             Manage and track all your document signing requests
           </p>
         </div>
-        <Button
-          className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-          onClick={() => navigate("/create-document")}
-        >
-          <FileSignature className="mr-2 h-4 w-4" /> Create New Document
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/verify-container">
+              <ShieldCheck className="mr-2 h-4 w-4" /> Verify Container
+            </Link>
+          </Button>
+          <Button
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={() => navigate("/create-document")}
+          >
+            <FileSignature className="mr-2 h-4 w-4" /> Create New Document
+          </Button>
+        </div>
       </div>
 
       <Card className="mb-8">
@@ -256,47 +319,95 @@ const DocumentList = () => {
                 size={18}
               />
               <Input
-                placeholder="Search documents..."
+                placeholder="Search by document, signer or email..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
               />
             </div>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
+              <DatePickerWithRange
+                date={
+                  query.createdFrom || query.createdTo
+                    ? {
+                        from: query.createdFrom
+                          ? parseISO(query.createdFrom)
+                          : undefined,
+                        to: query.createdTo
+                          ? parseISO(query.createdTo)
+                          : undefined,
+                      }
+                    : undefined
+                }
+                onDateChange={handleDateRangeChange}
+                placeholder="Created between"
+              />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" className="flex items-center gap-2">
                     <Filter size={16} />
-                    {statusFilter
-                      ? `Status: ${statusFilter}`
+                    {query.status
+                      ? `Status: ${query.status
+                          .map(
+                            (status) =>
+                              DOCUMENT_STATUSES.find(
+                                ({ value }) => value === status,
+                              )?.label,
+                          )
+                          .join(", ")}`
                       : "Filter by status"}
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
                   <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={() => setStatusFilter(null)}>
-                    All
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setStatusFilter("pending")}>
-                    Pending
-                  </DropdownMenuItem>
-                  <DropdownMenuItem
-                    onClick={() => setStatusFilter("completed")}
-                  >
-                    Completed
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setStatusFilter("expired")}>
-                    Expired
-                  </DropdownMenuItem>
+                  {DOCUMENT_STATUSES.map(({ value, label }) => (
+                    <DropdownMenuCheckboxItem
+                      key={value}
+                      checked={query.status?.includes(value) ?? false}
+                      onCheckedChange={(checked) =>
+                        toggleStatus(value, checked)
+                      }
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {label}
+                    </DropdownMenuCheckboxItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
+              {isFiltered && (
+                <Button variant="ghost" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-1" /> Clear
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {filteredDocuments.length === 0 ? (
+      {isLoading && documents.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-500">Loading documents...</p>
+          </CardContent>
+        </Card>
+      ) : loadError && documents.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="mx-auto bg-red-50 p-4 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">
+              Couldn't load your documents
+            </h3>
+            <p className="text-gray-500 mb-6">{loadError.message}</p>
+            <Button variant="outline" onClick={reload}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : documents.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
             <div className="mx-auto bg-gray-100 p-4 rounded-full w-16 h-16 flex items-center justify-center mb-4">
@@ -304,11 +415,11 @@ const DocumentList = () => {
             </div>
             <h3 className="text-lg font-medium mb-2">No documents found</h3>
             <p className="text-gray-500 mb-6">
-              {searchTerm || statusFilter
+              {isFiltered
                 ? "Try adjusting your search or filters"
                 : "Create your first document to get started"}
             </p>
-            {!searchTerm && !statusFilter && (
+            {!isFiltered && (
               <Button
                 className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
                 onClick={() => navigate("/create-document")}
@@ -319,135 +430,248 @@ const DocumentList = () => {
           </CardContent>
         </Card>
       ) : (
-        <div className="overflow-hidden rounded-lg border">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Document Name</TableHead>
-                <TableHead>Created</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Signers</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredDocuments.map((doc) => (
-                <TableRow key={doc.id}>
-                  <TableCell className="font-medium">{doc.name}</TableCell>
-                  <TableCell>{formatDate(doc.createdAt)}</TableCell>
-                  <TableCell>{getStatusBadge(doc.status)}</TableCell>
-                  <TableCell>
-                    <div className="flex flex-col gap-1">
-                      {doc.signers.map((signer, index) => (
-                        <div key={index} className="flex items-center text-sm">
-                          <span className="truncate max-w-[150px]">
-                            {signer.name}
+        <>
+          {selectionCount > 0 && (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4 rounded-lg border border-blue-200 bg-blue-50/50 px-4 py-2">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-medium">
+                  {allMatching
+                    ? `All ${selectionCount} matching documents selected`
+                    : `${selectionCount} selected`}
+                </span>
+                {!allMatching &&
+                  isPageSelected &&
+                  data!.total > selected.size && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setAllMatching(true)}
+                    >
+                      Select all {data!.total} matching
+                    </Button>
+                  )}
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-gray-500"
+                  onClick={clearSelection}
+                >
+                  Clear selection
+                </Button>
+              </div>
+              <DocumentBulkActions
+                count={selectionCount}
+                resolveDocuments={resolveSelection}
+                onDocumentsChanged={reload}
+              />
+            </div>
+          )}
+          <div className="overflow-hidden rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={
+                        isPageSelected
+                          ? true
+                          : documents.some((doc) => isSelected(doc))
+                            ? "indeterminate"
+                            : false
+                      }
+                      onCheckedChange={(checked) =>
+                        togglePage(checked === true)
+                      }
+                      aria-label="Select all on this page"
+                    />
+                  </TableHead>
+                  <SortableHead field="name" query={query} onSort={handleSort}>
+                    Document Name
+                  </SortableHead>
+                  <SortableHead
+                    field="createdAt"
+                    query={query}
+                    onSort={handleSort}
+                  >
+                    Created
+                  </SortableHead>
+                  <SortableHead
+                    field="status"
+                    query={query}
+                    onSort={handleSort}
+                  >
+                    Status
+                  </SortableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Signers</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((doc) => (
+                  <TableRow
+                    key={doc.id}
+                    data-state={isSelected(doc) ? "selected" : undefined}
+                  >
+                    <TableCell>
+                      <Checkbox
+                        checked={isSelected(doc)}
+                        onCheckedChange={(checked) =>
+                          toggleRow(doc, checked === true)
+                        }
+                        aria-label={`Select ${doc.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      <Link
+                        to={`/documents/${doc.id}`}
+                        className="hover:underline"
+                      >
+                        {doc.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{formatDate(doc.createdAt)}</TableCell>
+                    <TableCell>
+                      <DocumentStatusBadge status={doc.status} />
+                    </TableCell>
+                    <TableCell>
+                      {doc.expiresAt &&
+                      (doc.status === "pending" || doc.status === "expired") ? (
+                        <div className="flex flex-col items-start gap-1">
+                          <span className="text-sm text-gray-600">
+                            {formatExpiryCountdown(doc.expiresAt)}
                           </span>
-                          <span className="mx-1">•</span>
-                          {signer.status === "completed" ? (
-                            <span className="text-green-600 text-xs font-medium">
-                              Signed
+                          {getExpiryState(doc) === "soon" && (
+                            <Badge
+                              variant="outline"
+                              className="bg-amber-50 text-amber-700 border-amber-200"
+                            >
+                              Expires soon
+                            </Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        {doc.signers.map((signer, index) => (
+                          <div
+                            key={index}
+                            className="flex items-center text-sm"
+                          >
+                            <span className="truncate max-w-[150px]">
+                              {signer.name}
                             </span>
-                          ) : (
-                            <span className="text-yellow-600 text-xs font-medium">
-                              Pending
+                            <span className="mx-1">•</span>
+                            {signer.status === "completed" ? (
+                              <span className="text-green-600 text-xs font-medium">
+                                Signed
+                              </span>
+                            ) : signer.status === "declined" ? (
+                              <span className="text-red-600 text-xs font-medium">
+                                Declined
+                              </span>
+                            ) : signer.status === "reassigned" ? (
+                              <span className="text-gray-400 text-xs font-medium">
+                                Reassigned
+                              </span>
+                            ) : (signer.step ?? 1) > currentStep(doc) ? (
+                              <span className="text-gray-400 text-xs font-medium">
+                                Waiting
+                              </span>
+                            ) : (
+                              <span className="text-yellow-600 text-xs font-medium">
+                                Pending
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                        {doc.status === "pending" &&
+                          doc.signingOrder &&
+                          doc.signingOrder !== "parallel" && (
+                            <span className="text-xs text-blue-600">
+                              Turn:{" "}
+                              {doc.signers
+                                .filter(
+                                  (signer) =>
+                                    signer.status === "pending" &&
+                                    (signer.step ?? 1) === currentStep(doc),
+                                )
+                                .map((signer) => signer.name)
+                                .join(", ")}
                             </span>
                           )}
-                        </div>
-                      ))}
-                    </div>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end gap-2">
-                      {doc.status === "pending" && (
-                        <>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {doc.status === "pending" && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEmailDocumentId(doc.id)}
+                              className="text-blue-600 border-blue-200 hover:bg-blue-50"
+                            >
+                              <Send className="h-3.5 w-3.5 mr-1" /> Send
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleSignDocument(doc)}
+                              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                            >
+                              <FileSignature className="h-3.5 w-3.5 mr-1" />{" "}
+                              Sign
+                            </Button>
+                          </>
+                        )}
+                        {doc.status === "completed" && (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleSendEmail(doc.id)}
-                            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+                            onClick={() => navigate(`/documents/${doc.id}`)}
+                            className="text-green-600 border-green-200 hover:bg-green-50"
                           >
-                            <Send className="h-3.5 w-3.5 mr-1" /> Send
+                            <ExternalLink className="h-3.5 w-3.5 mr-1" /> View
                           </Button>
+                        )}
+                        {(doc.status === "expired" ||
+                          doc.status === "voided" ||
+                          doc.status === "declined") && (
                           <Button
+                            variant="outline"
                             size="sm"
-                            onClick={() => handleSignDocument(doc.id)}
-                            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                            onClick={() => navigate(`/documents/${doc.id}`)}
+                            className="text-gray-600 border-gray-200 hover:bg-gray-50"
                           >
-                            <FileSignature className="h-3.5 w-3.5 mr-1" /> Sign
+                            <ExternalLink className="h-3.5 w-3.5 mr-1" /> View
                           </Button>
-                        </>
-                      )}
-                      {doc.status === "completed" && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-green-600 border-green-200 hover:bg-green-50"
-                        >
-                          <ExternalLink className="h-3.5 w-3.5 mr-1" /> View
-                        </Button>
-                      )}
-                      {doc.status === "expired" && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-gray-600 border-gray-200 hover:bg-gray-50"
-                        >
-                          <ExternalLink className="h-3.5 w-3.5 mr-1" /> View
-                        </Button>
-                      )}
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <ListPagination
+            page={data!.page}
+            pageSize={data!.pageSize}
+            total={data!.total}
+            onPageChange={(page) => updateQuery({ page })}
+            pageSizeOptions={DOCUMENT_PAGE_SIZES}
+            onPageSizeChange={(pageSize) => updateQuery({ pageSize })}
+          />
+        </>
       )}
 
-      <Dialog open={isEmailDialogOpen} onOpenChange={setIsEmailDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Send Signing Link</DialogTitle>
-            <DialogDescription>
-              Enter the email address of the person you want to send the signing
-              link to.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="py-4">
-            <Input
-              placeholder="Email address"
-              type="email"
-              value={emailAddress}
-              onChange={(e) => setEmailAddress(e.target.value)}
-            />
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setIsEmailDialogOpen(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={sendSigningLink}
-              disabled={!emailAddress || isSending}
-              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-            >
-              {isSending ? (
-                <>
-                  <span className="animate-spin mr-2">⏳</span>
-                  Sending...
-                </>
-              ) : (
-                <>
-                  <Send className="h-4 w-4 mr-2" /> Send Link
-                </>
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <SendSigningEmailDialog
+        documentId={emailDocumentId}
+        onClose={() => setEmailDocumentId(null)}
+      />
     </div>
   );
 };
@@ -1,18 +1,25 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
+import { format, parseISO, isValid } from "date-fns";
 import {
+  ArrowDown,
   Check,
-  Calendar,
+  Download,
   FileSignature,
   Loader2,
   CheckCircle2,
   ArrowLeft,
   Eye,
   EyeOff,
+  Hourglass,
+  Ban,
+  Clock,
+  MailCheck,
+  UserRoundPlus,
+  XCircle,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -33,23 +40,102 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
-import { Checkbox } from "@/components/ui/checkbox";
-import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
+import DeclineSigningDialog from "@/components/DeclineSigningDialog";
+import ReassignSigningDialog from "@/components/ReassignSigningDialog";
+import SigningDocumentView from "@/components/SigningDocumentView";
+import SigningFieldInput from "@/components/SigningFieldInput";
+import type { OverlayField } from "@/components/PdfFieldOverlay";
+import { getFieldDefaults, resolveAutoFill } from "@/lib/fieldTypes";
+import { buildAsicContainer } from "@/lib/asice";
+import { buildContainerFiles, buildSigningSubmission } from "@/lib/submission";
+import { downloadBlob, toFileName } from "@/lib/download";
+import { fetchPdfFile } from "@/lib/pdf";
+import { stampSignedPdf } from "@/lib/pdfStamping";
+import { loadSigningIdentity } from "@/lib/signingIdentity";
+import {
+  declineSigning,
+  getDocument,
+  getSignerAssignment,
+  reassignSigning,
+  recordSignerActivity,
+  requestNewSigningLink,
+  submitSigning,
+} from "@/lib/api";
+import { getExpiryState } from "@/lib/documentExpiry";
 import { cn } from "@/lib/utils";
-import SignaturePad from "@/components/SignaturePad";
-import { Document, SignerAssignment, SigningField } from "@/types/template";
+import { ApiError, isAbortError } from "@/lib/apiClient";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import {
+  Document,
+  ReassignSigningPayload,
+  SignBlockValue,
+  SignerActivity,
+  SignerAssignment,
+  SigningField,
+  SigningFieldValue,
+} from "@/types/template";
 
 interface FormValues {
-  [key: string]: string | boolean | Date;
+  [key: string]: SigningFieldValue;
 }
 
+// Served on the /sign-document route, which has no IDs in the URL
+const DEMO_DOCUMENT_ID = "demo-123";
+const DEMO_SIGNER_ID = "signer-456";
+
+const CAPTURE_NAMES = {
+  video: "a video",
+  audio: "an audio statement",
+  image: "a selfie",
+  signature: "a signature",
+} as const;
+
+const isFilled = (value: SigningFieldValue | undefined) => {
+  if (value instanceof Date) return true;
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).some(Boolean);
+  }
+  return Boolean(value);
+};
+
+// Reading order on the page: top to bottom, then left to right
+const byDocumentOrder = (a: SigningField, b: SigningField) =>
+  a.page - b.page || a.position.y - b.position.y || a.position.x - b.position.x;
+
+// Auto-filled fields are complete from the start, so they don't count
+const needsInput = (field: SigningField) => field.type !== "autofill";
+
+// Value a field starts with: its configured default, or for auto-filled
+// fields the signer's own details
+const getInitialValue = (
+  field: SigningField,
+  signer: SignerAssignment,
+): SigningFieldValue => {
+  switch (field.type) {
+    case "signblock":
+      return {};
+    case "checkbox":
+      return field.defaultValue === "true";
+    case "date": {
+      const date = field.defaultValue ? parseISO(field.defaultValue) : null;
+      return date && isValid(date) ? date : new Date();
+    }
+    case "autofill":
+      return field.autoFillSource
+        ? resolveAutoFill(field.autoFillSource, signer)
+        : "";
+    case "radio":
+    case "dropdown":
+      return field.options?.includes(field.defaultValue ?? "")
+        ? field.defaultValue!
+        : "";
+    default:
+      return field.defaultValue ?? "";
+  }
+};
+
 interface DocumentSigningProps {
   documentId?: string;
   signerId?: string;
@@ -73,13 +159,25 @@ const DocumentSigning = ({
     useState<SignerAssignment | null>(null);
   const [signerFields, setSignerFields] = useState<SigningField[]>([]);
   const [submissionSuccess, setSubmissionSuccess] = useState(false);
+  const [signedPdf, setSignedPdf] = useState<Blob | null>(null);
+  const [container, setContainer] = useState<Blob | null>(null);
   const [showDocumentPreview, setShowDocumentPreview] = useState(true);
+  const [isRequestingLink, setIsRequestingLink] = useState(false);
+  const [linkRequested, setLinkRequested] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [openDialog, setOpenDialog] = useState<"decline" | "reassign" | null>(
+    null,
+  );
+  const [isResponding, setIsResponding] = useState(false);
+  const [activeFieldId, setActiveFieldId] = useState<string>();
+  const fieldListRef = useRef<HTMLFormElement>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const getSignal = useAbortSignal();
 
   // Create dynamic form schema based on fields
   const createFormSchema = (fields: SigningField[]) => {
-    const schemaObj: Record<string, any> = {};
+    const schemaObj: Record<string, z.ZodTypeAny> = {};
 
     fields.forEach((field) => {
       switch (field.type) {
@@ -88,6 +186,46 @@ const DocumentSigning = ({
             ? z.string().min(1, { message: `${field.label} is required` })
             : z.string().optional();
           break;
+        case "number": {
+          const number = z.string().refine((val) => !isNaN(Number(val)), {
+            message: `${field.label} must be a number`,
+          });
+          schemaObj[field.id] = field.required
+            ? z
+                .string()
+                .min(1, { message: `${field.label} is required` })
+                .pipe(number)
+            : z.literal("").or(number).optional();
+          break;
+        }
+        case "email": {
+          const email = z
+            .string()
+            .email({ message: `${field.label} must be a valid email` });
+          schemaObj[field.id] = field.required
+            ? z
+                .string()
+                .min(1, { message: `${field.label} is required` })
+                .pipe(email)
+            : z.literal("").or(email).optional();
+          break;
+        }
+        case "radio":
+        case "dropdown": {
+          const choice = z
+            .string()
+            .refine((val) => (field.options ?? []).includes(val), {
+              message: `Select an option for ${field.label}`,
+            });
+          schemaObj[field.id] = field.required
+            ? choice
+            : z.literal("").or(choice).optional();
+          break;
+        }
+        case "autofill":
+          // Filled from the signer's details, never edited
+          schemaObj[field.id] = z.string().optional();
+          break;
         case "date":
           schemaObj[field.id] = field.required
             ? z.date({ required_error: `${field.label} is required` })
@@ -100,11 +238,43 @@ const DocumentSigning = ({
               })
             : z.boolean().optional();
           break;
+        case "signblock": {
+          const options =
+            field.captureOptions ??
+            getFieldDefaults("signblock").captureOptions!;
+          // Every enabled capture is needed before a required SignBlock counts
+          // as signed
+          schemaObj[field.id] = z
+            .object({
+              video: z.instanceof(Blob).optional(),
+              audio: z.instanceof(Blob).optional(),
+              image: z.instanceof(Blob).optional(),
+              signature: z.string().optional(),
+            })
+            .superRefine((value, ctx) => {
+              if (!field.required) return;
+              const missing = (
+                Object.keys(CAPTURE_NAMES) as (keyof SignBlockValue)[]
+              ).filter((key) => options[key] && !value[key]);
+              if (missing.length > 0) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  message: `Still needed: ${missing.map((key) => CAPTURE_NAMES[key]).join(", ")}`,
+                });
+              }
+            });
+          break;
+        }
         case "signature":
           schemaObj[field.id] = field.required
             ? z.string().min(1, { message: `Signature is required` })
             : z.string().optional();
           break;
+        case "initials":
+          schemaObj[field.id] = field.required
+            ? z.string().min(1, { message: `Initials are required` })
+            : z.string().optional();
+          break;
       }
     });
 
@@ -113,199 +283,327 @@ const DocumentSigning = ({
 
   // Fetch document and signer data
   useEffect(() => {
+    // The /sign-document route has no IDs, so show the demo document
+    const isDemo = !documentId || !signerId;
+    const activeDocumentId = isDemo ? DEMO_DOCUMENT_ID : documentId;
+    const activeSignerId = isDemo ? DEMO_SIGNER_ID : signerId;
+    const controller = new AbortController();
+
     const fetchData = async () => {
-      // If we're on the /sign-document route without IDs, show a demo document
-      if (!documentId || !signerId) {
-        // For demo purposes, create mock data for the sign-document route
-        const demoDocumentId = "demo-123";
-        const demoSignerId = "signer-456";
-
-        const mockDocument: Document = {
-          id: demoDocumentId,
-          name: "Demo Contract",
-          status: "pending",
-          pdfUrl:
-            "https://www.w3.org/WAI/ER/tests/xhtml/testfiles/resources/pdf/dummy.pdf",
-          fields: [
-            {
-              id: "field-1",
-              type: "text",
-              page: 1,
-              position: { x: 100, y: 200 },
-              size: { width: 200, height: 30 },
-              label: "Full Name",
-              required: true,
-            },
-            {
-              id: "field-2",
-              type: "date",
-              page: 1,
-              position: { x: 100, y: 250 },
-              size: { width: 200, height: 30 },
-              label: "Signing Date",
-              required: true,
-            },
-            {
-              id: "field-3",
-              type: "checkbox",
-              page: 1,
-              position: { x: 100, y: 300 },
-              size: { width: 20, height: 20 },
-              label: "I agree to the terms and conditions",
-              required: true,
-            },
-            {
-              id: "field-4",
-              type: "signature",
-              page: 1,
-              position: { x: 100, y: 350 },
-              size: { width: 300, height: 100 },
-              label: "Signature",
-              required: true,
-            },
-          ],
-        };
-
-        const mockSignerAssignment: SignerAssignment = {
-          signerId: demoSignerId,
-          signerName: "Demo User",
-          signerEmail: "demo.user@example.com",
-          fields: ["field-1", "field-2", "field-3", "field-4"],
-          status: "pending",
-        };
-
-        setDocument(mockDocument);
-        setSignerAssignment(mockSignerAssignment);
-
-        // Filter fields assigned to this signer
-        const assignedFields = mockDocument.fields.filter((field) =>
-          mockSignerAssignment.fields.includes(field.id),
-        );
-        setSignerFields(assignedFields);
+      setIsLoading(true);
+      try {
+        const [loadedDocument, assignment] = await Promise.all([
+          getDocument(activeDocumentId, controller.signal),
+          getSignerAssignment(
+            activeDocumentId,
+            activeSignerId,
+            controller.signal,
+          ),
+        ]);
 
-        setIsLoading(false);
-        return;
-      }
+        setDocument(loadedDocument);
+        setSignerAssignment(assignment);
 
-      try {
-        // In a real app, this would be an API call
-        // For demo purposes, we'll create mock data
-        const mockDocument: Document = {
-          id: documentId,
-          name: "Sample Contract",
-          status: "pending",
-          pdfUrl:
-            "https://www.w3.org/WAI/ER/tests/xhtml/testfiles/resources/pdf/dummy.pdf",
-          fields: [
-            {
-              id: "field-1",
-              type: "text",
-              page: 1,
-              position: { x: 100, y: 200 },
-              size: { width: 200, height: 30 },
-              label: "Full Name",
-              required: true,
-            },
-            {
-              id: "field-2",
-              type: "date",
-              page: 1,
-              position: { x: 100, y: 250 },
-              size: { width: 200, height: 30 },
-              label: "Signing Date",
-              required: true,
-            },
-            {
-              id: "field-3",
-              type: "checkbox",
-              page: 1,
-              position: { x: 100, y: 300 },
-              size: { width: 20, height: 20 },
-              label: "I agree to the terms and conditions",
-              required: true,
-            },
-            {
-              id: "field-4",
-              type: "signature",
-              page: 1,
-              position: { x: 100, y: 350 },
-              size: { width: 300, height: 100 },
-              label: "Signature",
-              required: true,
-            },
-          ],
-        };
-
-        const mockSignerAssignment: SignerAssignment = {
-          signerId: signerId,
-          signerName: "John Doe",
-          signerEmail: "john.doe@example.com",
-          fields: ["field-1", "field-2", "field-3", "field-4"],
-          status: "pending",
-        };
-
-        setDocument(mockDocument);
-        setSignerAssignment(mockSignerAssignment);
-
-        // Filter fields assigned to this signer
-        const assignedFields = mockDocument.fields.filter((field) =>
-          mockSignerAssignment.fields.includes(field.id),
+        // Fields assigned to this signer, in the order they're filled in
+        setSignerFields(
+          loadedDocument.fields
+            .filter((field) => assignment.fields.includes(field.id))
+            .sort(byDocumentOrder),
         );
-        setSignerFields(assignedFields);
-
-        setIsLoading(false);
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error("Error fetching document data:", error);
-        toast({
-          title: "Error",
-          description: "Failed to load document. Please try again later.",
-          variant: "destructive",
-        });
+        setDocument(null);
+        setSignerAssignment(null);
+        // A missing document or signer falls through to the not-found card
+        if (!(error instanceof ApiError && error.status === 404)) {
+          toast({
+            title: "Error",
+            description:
+              error instanceof Error
+                ? error.message
+                : "Failed to load document. Please try again later.",
+            variant: "destructive",
+          });
+        }
       }
+      setIsLoading(false);
     };
 
     fetchData();
+    return () => controller.abort();
   }, [documentId, signerId, toast]);
 
   // Create form with dynamic schema
   const formSchema = createFormSchema(signerFields);
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: signerFields.reduce((acc, field) => {
-      if (field.type === "checkbox") {
-        acc[field.id] = false;
-      } else if (field.type === "date") {
-        acc[field.id] = new Date();
-      } else {
-        acc[field.id] = "";
-      }
-      return acc;
-    }, {} as FormValues),
   });
 
+  // Fields arrive after the first render, so seed their values once loaded
+  useEffect(() => {
+    if (!signerAssignment) return;
+    form.reset(
+      signerFields.reduce((acc, field) => {
+        acc[field.id] = getInitialValue(field, signerAssignment);
+        return acc;
+      }, {} as FormValues),
+    );
+  }, [form, signerFields, signerAssignment]);
+
+  // Report activity for the audit trail; failures must not get in the way
+  // of signing
+  const reportActivity = useCallback(
+    (activity: SignerActivity) => {
+      if (!document || !signerAssignment) return;
+      recordSignerActivity(
+        document.id,
+        signerAssignment.signerId,
+        activity,
+        getSignal(),
+      ).catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Failed to record signer activity:", error);
+        }
+      });
+    },
+    [document, signerAssignment, getSignal],
+  );
+
+  useEffect(() => {
+    if (
+      document?.status === "pending" &&
+      signerAssignment?.status === "pending" &&
+      getExpiryState(document) !== "expired"
+    ) {
+      reportActivity({ type: "opened" });
+    }
+    // Opening is logged once per document and signer, not on every reload
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [document?.id, signerAssignment?.signerId]);
+
+  // Each page is logged once, the first time it's scrolled into view
+  const viewedPages = useRef(new Set<number>());
+  useEffect(() => {
+    viewedPages.current.clear();
+  }, [document?.id]);
+  const handlePageViewed = (page: number) => {
+    if (viewedPages.current.has(page)) return;
+    viewedPages.current.add(page);
+    reportActivity({ type: "page_viewed", details: { page } });
+  };
+
+  const handleRequestNewLink = async () => {
+    if (!document || !signerAssignment) return;
+    setIsRequestingLink(true);
+    try {
+      await requestNewSigningLink(
+        document.id,
+        signerAssignment.signerId,
+        getSignal(),
+      );
+      setLinkRequested(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to request a new link. Please try again.",
+        variant: "destructive",
+      });
+    }
+    setIsRequestingLink(false);
+  };
+
+  const handleDownloadSignedPdf = async () => {
+    if (!document?.signedPdfUrl) return;
+    setIsDownloading(true);
+    try {
+      const fileName = `${toFileName(document.name)}-signed.pdf`;
+      downloadBlob(
+        await fetchPdfFile(document.signedPdfUrl, fileName),
+        fileName,
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to download the signed PDF. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // Log each field the first time the signer fills it in
+  const completedFieldIds = useRef(new Set<string>());
+  useEffect(() => {
+    completedFieldIds.current.clear();
+    const subscription = form.watch((values, { name, type }) => {
+      if (type !== "change" || !name) return;
+      const field = signerFields.find(({ id }) => id === name);
+      if (
+        !field ||
+        completedFieldIds.current.has(field.id) ||
+        !isFilled(values[field.id] as SigningFieldValue)
+      ) {
+        return;
+      }
+      completedFieldIds.current.add(field.id);
+      reportActivity({
+        type: "field_completed",
+        details: { fieldId: field.id, fieldLabel: field.label },
+      });
+    });
+    return () => subscription.unsubscribe();
+  }, [form, signerFields, reportActivity]);
+
+  const values = form.watch();
+  const inputFields = signerFields.filter(needsInput);
+  const completedCount = inputFields.filter((field) =>
+    isFilled(values[field.id]),
+  ).length;
+  const remainingRequired = inputFields.filter(
+    (field) => field.required && !isFilled(values[field.id]),
+  );
+
+  // Highlights a field in both the document and the list; selecting it on
+  // the document also moves the cursor to its input
+  const selectField = (fieldId: string, focusInput = true) => {
+    setActiveFieldId(fieldId);
+    const item = fieldListRef.current?.querySelector<HTMLElement>(
+      `[data-field-id="${CSS.escape(fieldId)}"]`,
+    );
+    if (!item) return;
+    item.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    if (focusInput) {
+      item
+        .querySelector<HTMLElement>("input, textarea, button, [tabindex]")
+        ?.focus({ preventScroll: true });
+    }
+  };
+
+  // The next unfinished required field after the active one, wrapping round
+  const goToNextRequiredField = () => {
+    const activeIndex = signerFields.findIndex(
+      ({ id }) => id === activeFieldId,
+    );
+    const next =
+      remainingRequired.find(
+        (field) => signerFields.indexOf(field) > activeIndex,
+      ) ?? remainingRequired[0];
+    if (next) selectField(next.id);
+  };
+
+  const renderFieldContent = (field: OverlayField) => {
+    const value = values[field.id];
+    if (!isFilled(value)) return null;
+    if (field.type === "signature" || field.type === "initials") {
+      return (
+        <img
+          src={value as string}
+          alt={field.label}
+          className="max-h-full max-w-full object-contain"
+        />
+      );
+    }
+    if (field.type === "checkbox") {
+      return <Check className="h-4 w-4 text-gray-900" />;
+    }
+    if (field.type === "signblock") {
+      return (
+        <span className="truncate px-1 text-xs font-medium">Captured</span>
+      );
+    }
+    return (
+      <span className="truncate px-1 text-xs font-medium text-gray-900">
+        {value instanceof Date ? format(value, "PP") : String(value)}
+      </span>
+    );
+  };
+
   const onSubmit = async (data: FormValues) => {
     setIsSubmitting(true);
     try {
-      // In a real app, this would be an API call to submit the signed document
-      console.log("Submitting signed document:", {
-        documentId,
-        signerId,
-        fields: data,
-      });
+      const signedAt = new Date();
+      // Stamp onto the latest signed version so earlier signatures are kept;
+      // the loaded one is stale if someone else signed in the meantime
+      const latest = await getDocument(document!.id, getSignal());
+      setDocument(latest);
+      const source = await fetchPdfFile(
+        latest.signedPdfUrl ?? latest.pdfUrl,
+        "document.pdf",
+      );
+      const stamped = await stampSignedPdf(
+        await source.arrayBuffer(),
+        signerFields,
+        data,
+        {
+          documentId: document!.id,
+          documentName: document!.name,
+          signerName: signerAssignment!.signerName,
+          signerEmail: signerAssignment!.signerEmail,
+          signedAt,
+        },
+      );
+      const pdfBlob = new Blob([stamped], { type: "application/pdf" });
+
+      // Without an identity in the browser the backend seals the container
+      const identity = await loadSigningIdentity();
+      const containerBlob =
+        identity &&
+        (await buildAsicContainer(
+          buildContainerFiles(
+            document!.id,
+            signerAssignment!.signerId,
+            signerFields,
+            data,
+            pdfBlob,
+          ),
+          identity,
+          signedAt,
+        ));
+
+      const submission = buildSigningSubmission(
+        document!.id,
+        signerAssignment!.signerId,
+        signerFields,
+        data,
+        {
+          signedPdf: pdfBlob,
+          container: containerBlob,
+          baseVersion: latest.signedPdfVersion ?? 0,
+        },
+      );
 
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      await submitSigning(
+        document!.id,
+        signerAssignment!.signerId,
+        submission,
+        getSignal(),
+      );
 
+      setSignedPdf(pdfBlob);
+      setContainer(containerBlob ?? null);
       setSubmissionSuccess(true);
       toast({
         title: "Success",
         description: "Document signed successfully!",
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error submitting signed document:", error);
       toast({
         title: "Error",
-        description: "Failed to submit signed document. Please try again.",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to submit signed document. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -313,6 +611,67 @@ const DocumentSigning = ({
     }
   };
 
+  const handleDecline = async (reason: string) => {
+    setIsResponding(true);
+    try {
+      const assignment = await declineSigning(
+        document!.id,
+        signerAssignment!.signerId,
+        { reason },
+        getSignal(),
+      );
+      setSignerAssignment(assignment);
+      setDocument((current) => current && { ...current, status: "declined" });
+      setOpenDialog(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to decline the document. Please try again.",
+        variant: "destructive",
+      });
+    }
+    setIsResponding(false);
+  };
+
+  const handleReassign = async (payload: ReassignSigningPayload) => {
+    setIsResponding(true);
+    try {
+      await reassignSigning(
+        document!.id,
+        signerAssignment!.signerId,
+        payload,
+        getSignal(),
+      );
+      setSignerAssignment(
+        (current) =>
+          current && {
+            ...current,
+            status: "reassigned",
+            reassignedTo: {
+              name: payload.signerName,
+              email: payload.signerEmail,
+            },
+          },
+      );
+      setOpenDialog(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to reassign the document. Please try again.",
+        variant: "destructive",
+      });
+    }
+    setIsResponding(false);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-b from-blue-50 to-white">
@@ -344,12 +703,35 @@ const DocumentSigning = ({
           </CardHeader>
           <CardContent className="text-center">
             <p className="text-gray-600 mb-6">
-              A confirmation email has been sent to your email address. The
-              document has been digitally signed and an ASiC-E container with
-              XAdES-BES signatures has been created.
+              {container
+                ? "Your signature has been added to the document, followed by a signature certificate, and sealed with your recordings and answers in an ASiC-E container with a XAdES-BES signature. Download copies for your records."
+                : "Your signature has been added to the document, followed by a signature certificate. Download a copy for your records."}
             </p>
           </CardContent>
-          <CardFooter className="flex justify-center">
+          <CardFooter className="flex flex-wrap justify-center gap-2">
+            {signedPdf && document && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  downloadBlob(
+                    signedPdf,
+                    `${toFileName(document.name)}-signed.pdf`,
+                  )
+                }
+              >
+                <Download className="mr-2 h-4 w-4" /> Download Signed PDF
+              </Button>
+            )}
+            {container && document && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  downloadBlob(container, `${toFileName(document.name)}.asice`)
+                }
+              >
+                <Download className="mr-2 h-4 w-4" /> Download Container
+              </Button>
+            )}
             <Button
               onClick={() => window.close()}
               className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
@@ -386,6 +768,229 @@ const DocumentSigning = ({
     );
   }
 
+  if (document.status === "voided") {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-gray-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <Ban className="h-8 w-8 text-gray-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              This document has been voided
+            </CardTitle>
+            <CardDescription>
+              The sender cancelled the signing request for {document.name}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600">
+              There is nothing left to sign. Contact the sender if you think
+              this is a mistake.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (signerAssignment.status === "reassigned") {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-blue-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <UserRoundPlus className="h-8 w-8 text-blue-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              You've handed this document over
+            </CardTitle>
+            <CardDescription>
+              {signerAssignment.reassignedTo
+                ? `${signerAssignment.reassignedTo.name} (${signerAssignment.reassignedTo.email})`
+                : "The person you chose"}{" "}
+              has been sent a link to sign {document.name} in your place.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600">
+              The sender has been notified. There is nothing left for you to do,
+              and you can close this window.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (document.status === "declined") {
+    const declinedByMe = signerAssignment.status === "declined";
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-red-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <XCircle className="h-8 w-8 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              {declinedByMe
+                ? "You declined to sign"
+                : "This document was declined"}
+            </CardTitle>
+            <CardDescription>
+              {declinedByMe
+                ? `The sender has been notified that you won't sign ${document.name}.`
+                : `Another signer declined ${document.name}, so it can no longer be signed.`}
+            </CardDescription>
+          </CardHeader>
+          {declinedByMe && signerAssignment.declineReason && (
+            <CardContent className="text-center">
+              <p className="text-gray-600">
+                Your reason: {signerAssignment.declineReason}
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  // Reopened links of a finished signer or document have nothing to sign
+  if (
+    signerAssignment.status === "completed" ||
+    document.status === "completed"
+  ) {
+    const signedByMe = signerAssignment.status === "completed";
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-green-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <CheckCircle2 className="h-8 w-8 text-green-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              {signedByMe
+                ? "You've already signed this document"
+                : "This document has been completed"}
+            </CardTitle>
+            <CardDescription>
+              {document.status === "completed"
+                ? `Everyone has signed ${document.name}.`
+                : `Other signers still have to sign ${document.name}. All parties will be notified once everyone has signed.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600">
+              There is nothing left for you to do
+              {document.signedPdfUrl
+                ? ". Download the signed PDF for your records."
+                : ", and you can close this window."}
+            </p>
+          </CardContent>
+          {document.signedPdfUrl && (
+            <CardFooter className="flex justify-center">
+              <Button
+                onClick={handleDownloadSignedPdf}
+                disabled={isDownloading}
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {isDownloading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                Download Signed PDF
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  // Expired links can't be signed; the sender is asked for a new one instead
+  if (
+    signerAssignment.status === "pending" &&
+    getExpiryState(document) === "expired"
+  ) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-red-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <Clock className="h-8 w-8 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              This signing link has expired
+            </CardTitle>
+            <CardDescription>
+              {document.name} can no longer be signed with this link.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            {linkRequested ? (
+              <p className="flex items-center justify-center gap-2 text-green-700">
+                <MailCheck className="h-4 w-4" />
+                We've let the sender know. You'll receive an email if they
+                extend the deadline.
+              </p>
+            ) : (
+              <p className="text-gray-600">
+                Ask the sender to extend the deadline and send you a new link.
+              </p>
+            )}
+          </CardContent>
+          {!linkRequested && (
+            <CardFooter className="flex justify-center">
+              <Button
+                onClick={handleRequestNewLink}
+                disabled={isRequestingLink}
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {isRequestingLink && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Request a New Link
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  // Sequential and staged documents only open once earlier signers are done
+  const waitingOn = signerAssignment.waitingOn ?? [];
+  if (signerAssignment.status === "pending" && waitingOn.length > 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-12 px-4">
+        <Card className="max-w-2xl mx-auto bg-white shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-yellow-100 p-3 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <Hourglass className="h-8 w-8 text-yellow-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              It's not your turn yet
+            </CardTitle>
+            <CardDescription>
+              {document.name} is signed in order. Waiting on{" "}
+              <span className="font-medium text-gray-900">
+                {waitingOn.join(", ")}
+              </span>{" "}
+              to sign first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600">
+              You'll receive an email as soon as it's your turn. You can close
+              this window until then.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-6 px-4">
       <div className="container mx-auto max-w-5xl">
@@ -438,17 +1043,18 @@ const DocumentSigning = ({
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="border rounded-md overflow-hidden">
-                    <iframe
-                      src={document.pdfUrl}
-                      className="w-full h-[calc(100vh-300px)]"
-                      title="Document Preview"
-                      sandbox="allow-scripts allow-same-origin"
-                    />
-                  </div>
+                  <SigningDocumentView
+                    pdfUrl={document.signedPdfUrl ?? document.pdfUrl}
+                    fields={signerFields}
+                    activeFieldId={activeFieldId}
+                    onFieldSelect={selectField}
+                    renderFieldContent={renderFieldContent}
+                    onPageViewed={handlePageViewed}
+                    className="h-[calc(100vh-300px)]"
+                  />
                   <div className="flex justify-between items-center mt-3">
                     <p className="text-xs text-gray-500">
-                      Scroll to review all pages
+                      Scroll to review all pages. Select a field to fill it in.
                     </p>
                     <Button
                       variant="outline"
@@ -514,13 +1120,46 @@ const DocumentSigning = ({
                   </div>
                 </div>
 
+                {inputFields.length > 0 && (
+                  <div className="mb-6 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">
+                        {completedCount} of {inputFields.length} fields
+                        completed
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={goToNextRequiredField}
+                        disabled={remainingRequired.length === 0}
+                      >
+                        {remainingRequired.length > 0 ? (
+                          <>
+                            <ArrowDown className="h-3.5 w-3.5 mr-1" /> Next
+                            Required Field
+                          </>
+                        ) : (
+                          <>
+                            <Check className="h-3.5 w-3.5 mr-1" /> Ready to Sign
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                    <Progress
+                      value={(completedCount / inputFields.length) * 100}
+                    />
+                  </div>
+                )}
+
                 <Form {...form}>
                   <form
+                    ref={fieldListRef}
                     onSubmit={form.handleSubmit(onSubmit)}
                     className="space-y-5"
                   >
                     <h3 className="text-sm font-medium text-gray-500">
-                      Required Fields
+                      Your Fields
                     </h3>
 
                     {signerFields.map((field) => (
@@ -529,77 +1168,34 @@ const DocumentSigning = ({
                         control={form.control}
                         name={field.id}
                         render={({ field: formField }) => (
-                          <FormItem className="p-4 border rounded-md bg-white hover:border-blue-200 transition-colors">
+                          <FormItem
+                            data-field-id={field.id}
+                            onFocusCapture={() => setActiveFieldId(field.id)}
+                            onPointerDownCapture={() =>
+                              setActiveFieldId(field.id)
+                            }
+                            className={cn(
+                              "p-4 border rounded-md bg-white hover:border-blue-200 transition-colors",
+                              field.id === activeFieldId &&
+                                "border-blue-500 ring-1 ring-blue-500 hover:border-blue-500",
+                            )}
+                          >
                             <FormLabel className="text-sm">
                               {field.label}
                             </FormLabel>
                             <FormControl>
-                              {field.type === "text" && (
-                                <Input {...formField} />
-                              )}
-
-                              {field.type === "date" && (
-                                <Popover>
-                                  <PopoverTrigger asChild>
-                                    <Button
-                                      type="button"
-                                      variant="outline"
-                                      className={cn(
-                                        "w-full pl-3 text-left font-normal",
-                                        !formField.value &&
-                                          "text-muted-foreground",
-                                      )}
-                                    >
-                                      <div className="flex items-center justify-between w-full">
-                                        <span>
-                                          {formField.value
-                                            ? format(
-                                                formField.value as Date,
-                                                "PPP",
-                                              )
-                                            : "Select date"}
-                                        </span>
-                                        <Calendar className="h-4 w-4 opacity-50" />
-                                      </div>
-                                    </Button>
-                                  </PopoverTrigger>
-                                  <PopoverContent
-                                    className="w-auto p-0"
-                                    align="start"
-                                  >
-                                    <CalendarComponent
-                                      mode="single"
-                                      selected={formField.value as Date}
-                                      onSelect={formField.onChange}
-                                      initialFocus
-                                    />
-                                  </PopoverContent>
-                                </Popover>
-                              )}
-
-                              {field.type === "checkbox" && (
-                                <div className="flex items-center space-x-2">
-                                  <Checkbox
-                                    checked={formField.value as boolean}
-                                    onCheckedChange={formField.onChange}
-                                  />
-                                  <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-                                    {field.label}
-                                  </label>
-                                </div>
-                              )}
-
-                              {field.type === "signature" && (
-                                <div className="mt-2">
-                                  <SignaturePad
-                                    onChange={formField.onChange}
-                                    value={formField.value as string}
-                                    width={400}
-                                    height={200}
-                                  />
-                                </div>
-                              )}
+                              <SigningFieldInput
+                                field={field}
+                                value={formField.value}
+                                onChange={formField.onChange}
+                                onBlur={formField.onBlur}
+                              />
                             </FormControl>
+                            {field.helpText && (
+                              <FormDescription>
+                                {field.helpText}
+                              </FormDescription>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -630,6 +1226,29 @@ const DocumentSigning = ({
                         signature.
                       </p>
                     </div>
+                    <div className="flex flex-wrap justify-center gap-2 border-t pt-4">
+                      {signerAssignment.canReassign && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setOpenDialog("reassign")}
+                        >
+                          <UserRoundPlus className="mr-2 h-4 w-4" />
+                          Reassign to someone else
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => setOpenDialog("decline")}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Decline to sign
+                      </Button>
+                    </div>
                   </form>
                 </Form>
               </CardContent>
@@ -637,6 +1256,21 @@ const DocumentSigning = ({
           </div>
         </div>
       </div>
+
+      <DeclineSigningDialog
+        open={openDialog === "decline"}
+        documentName={document.name}
+        isSubmitting={isResponding}
+        onCancel={() => setOpenDialog(null)}
+        onConfirm={handleDecline}
+      />
+      <ReassignSigningDialog
+        open={openDialog === "reassign"}
+        documentName={document.name}
+        isSubmitting={isResponding}
+        onCancel={() => setOpenDialog(null)}
+        onConfirm={handleReassign}
+      />
     </div>
   );
 };
@@ -0,0 +1,60 @@
+import React from "react";
+import { AlertCircle, Ban, CheckCircle, Clock, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Document } from "@/types/template";
+
+const DocumentStatusBadge: React.FC<{ status: Document["status"] }> = ({
+  status,
+}) => {
+  switch (status) {
+    case "pending":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-yellow-50 text-yellow-700 border-yellow-200"
+        >
+          <Clock className="h-3 w-3 mr-1" /> Pending
+        </Badge>
+      );
+    case "completed":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-green-50 text-green-700 border-green-200"
+        >
+          <CheckCircle className="h-3 w-3 mr-1" /> Completed
+        </Badge>
+      );
+    case "expired":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-red-50 text-red-700 border-red-200"
+        >
+          <AlertCircle className="h-3 w-3 mr-1" /> Expired
+        </Badge>
+      );
+    case "voided":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-gray-100 text-gray-600 border-gray-200"
+        >
+          <Ban className="h-3 w-3 mr-1" /> Voided
+        </Badge>
+      );
+    case "declined":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-red-50 text-red-700 border-red-200"
+        >
+          <XCircle className="h-3 w-3 mr-1" /> Declined
+        </Badge>
+      );
+    default:
+      return null;
+  }
+};
+
+export default DocumentStatusBadge;
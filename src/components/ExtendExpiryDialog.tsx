@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from "react";
+import { endOfDay, format, startOfToday } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ExtendExpiryDialogProps {
+  open: boolean;
+  documentCount: number;
+  onCancel: () => void;
+  // Links stay valid until the end of the chosen day
+  onConfirm: (expiresAt: Date) => void;
+}
+
+const ExtendExpiryDialog: React.FC<ExtendExpiryDialogProps> = ({
+  open,
+  documentCount,
+  onCancel,
+  onConfirm,
+}) => {
+  const [date, setDate] = useState<Date | undefined>();
+
+  useEffect(() => {
+    if (open) setDate(undefined);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Extend Expiry</DialogTitle>
+          <DialogDescription>
+            Choose when the signing links of {documentCount} document
+            {documentCount === 1 ? "" : "s"} should expire. Expired documents
+            are reopened for signing.
+          </DialogDescription>
+        </DialogHeader>
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={setDate}
+          disabled={{ before: startOfToday() }}
+          initialFocus
+          className="mx-auto"
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!date}
+            onClick={() => date && onConfirm(endOfDay(date))}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          >
+            {date ? `Extend to ${format(date, "PP")}` : "Extend"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExtendExpiryDialog;
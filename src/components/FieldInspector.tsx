@@ -0,0 +1,329 @@
+import React from "react";
+import { Video, Mic, Image, FileSignature, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CaptureOptions, ControlItem } from "@/types/template";
+import {
+  AUTO_FILL_SOURCES,
+  type AutoFillSource,
+  type SignerRole,
+} from "@/types/config";
+import { getRoleColor } from "@/lib/signerRoles";
+import { AUTO_FILL_LABELS, FIELD_TYPE_REGISTRY } from "@/lib/fieldTypes";
+
+interface FieldInspectorProps {
+  item: ControlItem;
+  totalPages: number;
+  roles: SignerRole[];
+  // `property` names the edited attribute so rapid edits to it can be
+  // grouped into a single undo step
+  onChange: (property: string, patch: Partial<ControlItem>) => void;
+}
+
+const CAPTURE_OPTIONS: {
+  key: keyof CaptureOptions;
+  label: string;
+  icon: React.ReactNode;
+}[] = [
+  {
+    key: "video",
+    label: "Video",
+    icon: <Video className="h-3 w-3 text-blue-500" />,
+  },
+  {
+    key: "audio",
+    label: "Audio",
+    icon: <Mic className="h-3 w-3 text-red-500" />,
+  },
+  {
+    key: "image",
+    label: "Image",
+    icon: <Image className="h-3 w-3 text-green-500" />,
+  },
+  {
+    key: "signature",
+    label: "Signature",
+    icon: <FileSignature className="h-3 w-3 text-purple-500" />,
+  },
+];
+
+const GEOMETRY: { key: "x" | "y" | "width" | "height"; label: string }[] = [
+  { key: "x", label: "X" },
+  { key: "y", label: "Y" },
+  { key: "width", label: "Width" },
+  { key: "height", label: "Height" },
+];
+
+// Radix Select items can't have an empty value
+const UNASSIGNED = "unassigned";
+
+const FieldInspector = ({
+  item,
+  totalPages,
+  roles,
+  onChange,
+}: FieldInspectorProps) => {
+  const id = (name: string) => `${item.id}-${name}`;
+  // Signatures, choices and SignBlocks are captured at signing time, so there
+  // is nothing meaningful to prefill or hint
+  const { acceptsInput, hasOptions } = FIELD_TYPE_REGISTRY[item.type];
+  const options = item.options ?? [];
+  const setOptions = (options: string[]) => onChange("options", { options });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={id("label")} className="text-xs">
+          Label
+        </Label>
+        <Input
+          id={id("label")}
+          className="h-8"
+          value={item.label}
+          onChange={(e) => onChange("label", { label: e.target.value })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id("required")} className="text-xs">
+          Required
+        </Label>
+        <Switch
+          id={id("required")}
+          checked={item.required}
+          onCheckedChange={(required) => onChange("required", { required })}
+        />
+      </div>
+
+      {acceptsInput && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor={id("placeholder")} className="text-xs">
+              Placeholder
+            </Label>
+            <Input
+              id={id("placeholder")}
+              className="h-8"
+              value={item.placeholder ?? ""}
+              onChange={(e) =>
+                onChange("placeholder", { placeholder: e.target.value })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={id("defaultValue")} className="text-xs">
+              Default value
+            </Label>
+            <Input
+              id={id("defaultValue")}
+              className="h-8"
+              type={
+                item.type === "date" || item.type === "number"
+                  ? item.type
+                  : "text"
+              }
+              value={item.defaultValue ?? ""}
+              onChange={(e) =>
+                onChange("default value", { defaultValue: e.target.value })
+              }
+            />
+          </div>
+        </>
+      )}
+
+      {hasOptions && (
+        <div className="space-y-1">
+          <Label className="text-xs">Options</Label>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                className="h-8"
+                value={option}
+                aria-label={`Option ${index + 1}`}
+                onChange={(e) =>
+                  setOptions(
+                    options.map((o, i) => (i === index ? e.target.value : o)),
+                  )
+                }
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 shrink-0"
+                title="Remove option"
+                disabled={options.length <= 1}
+                onClick={() =>
+                  setOptions(options.filter((_, i) => i !== index))
+                }
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2"
+            onClick={() =>
+              setOptions([...options, `Option ${options.length + 1}`])
+            }
+          >
+            <Plus className="h-3 w-3 mr-1" /> Add option
+          </Button>
+        </div>
+      )}
+
+      {item.type === "autofill" && (
+        <div className="space-y-1">
+          <Label className="text-xs">Fills in</Label>
+          <Select
+            value={item.autoFillSource}
+            onValueChange={(value) =>
+              onChange("auto-fill source", {
+                autoFillSource: value as AutoFillSource,
+              })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_FILL_SOURCES.map((source) => (
+                <SelectItem key={source} value={source}>
+                  {AUTO_FILL_LABELS[source]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor={id("helpText")} className="text-xs">
+          Tooltip / help text
+        </Label>
+        <Textarea
+          id={id("helpText")}
+          className="min-h-[60px] text-sm"
+          value={item.helpText ?? ""}
+          onChange={(e) => onChange("help text", { helpText: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {GEOMETRY.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={id(key)} className="text-xs">
+              {label}
+            </Label>
+            <Input
+              id={id(key)}
+              className="h-8"
+              type="number"
+              step="1"
+              min={key === "width" || key === "height" ? 1 : 0}
+              value={Math.round(item[key] * 100) / 100}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!Number.isNaN(value)) onChange(key, { [key]: value });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Page</Label>
+        <Select
+          value={String(item.page)}
+          onValueChange={(value) => onChange("page", { page: Number(value) })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: totalPages }, (_, index) => (
+              <SelectItem key={index + 1} value={String(index + 1)}>
+                Page {index + 1}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Assigned to</Label>
+        <Select
+          value={item.signerRoleId ?? UNASSIGNED}
+          onValueChange={(value) =>
+            onChange("signer role", {
+              signerRoleId: value === UNASSIGNED ? undefined : value,
+            })
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {roles.map((role) => (
+              <SelectItem key={role.id} value={role.id}>
+                <span className="flex items-center gap-2">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: getRoleColor(role) }}
+                  />
+                  {role.name || role.id}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {item.type === "signblock" && (
+        <div className="space-y-2 border-t pt-2">
+          <div className="text-xs font-medium">Capture</div>
+          {CAPTURE_OPTIONS.map(({ key, label, icon }) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label
+                htmlFor={id(`capture-${key}`)}
+                className="text-xs flex items-center gap-1"
+              >
+                {icon} {label}
+              </Label>
+              <Switch
+                id={id(`capture-${key}`)}
+                checked={item.captureOptions?.[key] ?? false}
+                onCheckedChange={(checked) =>
+                  onChange(`${key} capture`, {
+                    captureOptions: {
+                      video: false,
+                      audio: false,
+                      image: false,
+                      signature: false,
+                      ...item.captureOptions,
+                      [key]: checked,
+                    },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldInspector;
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from "react";
-import { useDropzone } from "react-dropzone";
+import { useDropzone, type FileRejection } from "react-dropzone";
 import { Upload, X, FileIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -26,9 +26,9 @@ const FileUploader = ({
   const [isDragging, setIsDragging] = useState(false);
 
   const onDrop = useCallback(
-    (acceptedFiles: File[], rejectedFiles: any[]) => {
+    (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
       if (rejectedFiles.length > 0) {
-        const rejectionErrors = rejectedFiles[0].errors.map((err: any) => {
+        const rejectionErrors = rejectedFiles[0].errors.map((err) => {
           if (err.code === "file-invalid-type") {
             return "Invalid file type. Please upload a PDF file.";
           }
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from "react";
+import React, { useState, useCallback, useRef, useEffect } from "react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
@@ -13,6 +13,8 @@ interface JsonInputFieldProps {
   onChange: (value: string) => void;
   error?: string;
   placeholder?: string;
+  // Extra checks run on parseable JSON; returns one message per problem
+  validate?: (value: string) => string[];
 }
 
 const JsonInputField = ({
@@ -22,24 +24,40 @@ const JsonInputField = ({
   onChange,
   error,
   placeholder = "Paste your JSON here...",
+  validate,
 }: JsonInputFieldProps) => {
   const [useFileUpload, setUseFileUpload] = useState(false);
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [schemaErrors, setSchemaErrors] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateJson = useCallback((jsonString: string) => {
-    if (!jsonString.trim()) {
-      setJsonError(null);
-      return;
-    }
+  const validateJson = useCallback(
+    (jsonString: string) => {
+      setSchemaErrors([]);
+      if (!jsonString.trim()) {
+        setJsonError(null);
+        return;
+      }
 
-    try {
-      JSON.parse(jsonString);
-      setJsonError(null);
-    } catch (e) {
-      setJsonError("Invalid JSON format");
-    }
-  }, []);
+      try {
+        JSON.parse(jsonString);
+        setJsonError(null);
+      } catch (e) {
+        setJsonError("Invalid JSON format");
+        return;
+      }
+
+      if (validate) {
+        setSchemaErrors(validate(jsonString));
+      }
+    },
+    [validate],
+  );
+
+  // Re-check values set from outside, e.g. by the PDF editor
+  useEffect(() => {
+    validateJson(value);
+  }, [value, validateJson]);
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value;
@@ -57,7 +75,7 @@ const JsonInputField = ({
         // Validate JSON
         JSON.parse(text);
         onChange(text);
-        setJsonError(null);
+        validateJson(text);
       } catch (e) {
         setJsonError("The uploaded file does not contain valid JSON");
       }
@@ -70,6 +88,24 @@ const JsonInputField = ({
     fileInputRef.current?.click();
   };
 
+  const hasError = Boolean(jsonError || error || schemaErrors.length > 0);
+
+  const errorAlert = hasError && (
+    <Alert variant="destructive" className="py-2">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        {jsonError || error}
+        {!jsonError && schemaErrors.length > 0 && (
+          <ul className="list-disc pl-4 font-mono text-xs space-y-0.5">
+            {schemaErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+
   return (
     <div className="space-y-4 bg-white p-4 rounded-md border">
       <div className="flex justify-between items-center">
@@ -96,19 +132,14 @@ const JsonInputField = ({
             value={value}
             onChange={handleTextChange}
             placeholder={placeholder}
-            className={`min-h-[150px] font-mono ${jsonError || error ? "border-red-500" : value ? "border-green-500" : ""}`}
+            className={`min-h-[150px] font-mono ${hasError ? "border-red-500" : value ? "border-green-500" : ""}`}
           />
-          {(jsonError || error) && (
-            <Alert variant="destructive" className="py-2">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{jsonError || error}</AlertDescription>
-            </Alert>
-          )}
+          {errorAlert}
         </div>
       ) : (
         <div className="space-y-2">
           <div
-            className={`border-2 border-dashed rounded-md p-6 text-center cursor-pointer hover:bg-gray-50 transition-colors ${jsonError || error ? "border-red-500" : value ? "border-green-500" : "border-gray-300"}`}
+            className={`border-2 border-dashed rounded-md p-6 text-center cursor-pointer hover:bg-gray-50 transition-colors ${hasError ? "border-red-500" : value ? "border-green-500" : "border-gray-300"}`}
             onClick={triggerFileInput}
           >
             <input
@@ -124,18 +155,13 @@ const JsonInputField = ({
             <p className="mt-2 text-sm text-gray-600">
               Click to upload a JSON file
             </p>
-            {value && (
+            {value && !hasError && (
               <p className="mt-2 text-xs text-green-600">
                 JSON file loaded successfully
               </p>
             )}
           </div>
-          {(jsonError || error) && (
-            <Alert variant="destructive" className="py-2">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{jsonError || error}</AlertDescription>
-            </Alert>
-          )}
+          {errorAlert}
         </div>
       )}
 
@@ -148,6 +174,7 @@ const JsonInputField = ({
             onClick={() => {
               onChange("");
               setJsonError(null);
+              setSchemaErrors([]);
             }}
           >
             Clear
@@ -1,221 +1,632 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import {
-  Pen,
-  Type,
-  Calendar as CalendarIcon,
-  Move,
+  MousePointer2,
   Save,
   Video,
   Mic,
   Image,
   FileSignature,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+  Loader2,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  Grid3x3,
+  Magnet,
+  Undo2,
+  Redo2,
+  History,
+  AlertCircle,
+  X,
+  Plus,
+  Trash2,
+  UserRoundPlus,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { clampZoom } from "@/lib/pdf";
+import {
+  alignRects,
+  clampToPage,
+  distributeRects,
+  getBounds,
+  normalizeRect,
+  rectsIntersect,
+  resizeRect,
+  snapMove,
+  snapResize,
+  snapToGrid,
+  GRID_SIZE,
+  RESIZE_HANDLES,
+  type AlignMode,
+  type DistributeAxis,
+  type Guide,
+  type Rect,
+  type ResizeHandle,
+} from "@/lib/layout";
+import { usePdfDocument } from "@/hooks/usePdfDocument";
+import { useHistory } from "@/hooks/useHistory";
+import {
+  fitItemsToPages,
+  parseConfig,
+  serializeConfig,
+  type ImportIssue,
+} from "@/lib/templateConfig";
+import { parseFabric, serializeFabric } from "@/lib/fabric";
+import { createSignerRole, getRoleColor, withAlpha } from "@/lib/signerRoles";
+import {
+  AUTO_FILL_LABELS,
+  FIELD_TYPE_REGISTRY,
+  getFieldDefaults,
+} from "@/lib/fieldTypes";
+import { FIELD_TYPES } from "@/types/config";
+import { ControlItem } from "@/types/template";
+import type { SignerRole } from "@/types/config";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import PdfPageCanvas from "./PdfPageCanvas";
+import FieldInspector from "./FieldInspector";
 
 interface PdfEditorProps {
   pdfFile: File | null;
   onSave: (config: string, fabric: string) => void;
+  // Existing template layout to start from; config wins when both are given
+  initialConfig?: string;
+  initialFabric?: string;
 }
 
-interface ControlItem {
-  id: string;
-  type: "signature" | "text" | "date" | "signblock";
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  page: number;
-  label: string;
-  required: boolean;
-  captureOptions?: {
-    video: boolean;
-    audio: boolean;
-    image: boolean;
-    signature: boolean;
-  };
+// Everything undo/redo covers: the fields and the roles they are assigned to
+interface EditorState {
+  items: ControlItem[];
+  roles: SignerRole[];
 }
 
-const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
-  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+// Width of the page thumbnails in the left-hand strip, in CSS pixels
+const THUMBNAIL_WIDTH = 96;
+
+type PlacementTool = ControlItem["type"];
+
+type Point = { x: number; y: number };
+
+// Pointer interaction in progress on the page; positions are in PDF points
+type Interaction =
+  | { kind: "move"; start: Point; origins: Map<string, Rect> }
+  | {
+      kind: "resize";
+      start: Point;
+      id: string;
+      handle: ResizeHandle;
+      origin: Rect;
+    }
+  | { kind: "marquee"; start: Point; baseSelection: string[] };
+
+// Distance in screen pixels within which fields snap to guides
+const SNAP_THRESHOLD = 6;
+
+const RESIZE_CURSORS: Record<ResizeHandle, string> = {
+  n: "cursor-ns-resize",
+  s: "cursor-ns-resize",
+  e: "cursor-ew-resize",
+  w: "cursor-ew-resize",
+  ne: "cursor-nesw-resize",
+  sw: "cursor-nesw-resize",
+  nw: "cursor-nwse-resize",
+  se: "cursor-nwse-resize",
+};
+
+const countFields = (count: number) =>
+  count === 1 ? "field" : `${count} fields`;
+
+// Inspector properties edited keystroke by keystroke; consecutive edits to
+// the same one are folded into a single history entry
+const TYPED_PROPERTIES = new Set([
+  "label",
+  "placeholder",
+  "default value",
+  "help text",
+  "options",
+  "x",
+  "y",
+  "width",
+  "height",
+]);
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const toRect = ({ x, y, width, height }: Rect): Rect => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+const PdfEditor: React.FC<PdfEditorProps> = ({
+  pdfFile,
+  onSave,
+  initialConfig,
+  initialFabric,
+}) => {
+  const { pdf, pageSizes, totalPages, isLoading, error } =
+    usePdfDocument(pdfFile);
   const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
   const [scale, setScale] = useState(1);
-  const [selectedTool, setSelectedTool] = useState<
-    "signature" | "text" | "date" | "signblock" | "move" | null
-  >(null);
-  const [controlItems, setControlItems] = useState<ControlItem[]>([]);
-  const [selectedItem, setSelectedItem] = useState<string | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [selectedTool, setSelectedTool] = useState<PlacementTool | "select">(
+    "select",
+  );
+  const history = useHistory<EditorState>(
+    { items: [], roles: [] },
+    "Opened template",
+  );
+  const { items: controlItems, roles: signerRoles } = history.present;
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [snapGrid, setSnapGrid] = useState(false);
+  const [smartGuides, setSmartGuides] = useState(true);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [marquee, setMarquee] = useState<Rect | null>(null);
+  const [isInteracting, setIsInteracting] = useState(false);
+  const interactionRef = useRef<Interaction | null>(null);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  // Config last loaded into or saved from the editor, so saving doesn't
+  // re-import our own output
+  const lastSyncedRef = useRef<string | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
-  const pdfContainerRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Load PDF when file changes
+  // Start from the first page whenever a new document is loaded
   useEffect(() => {
-    if (pdfFile) {
-      const url = URL.createObjectURL(pdfFile);
-      setPdfUrl(url);
+    setCurrentPage(1);
+  }, [pdf]);
+
+  const currentPageSize = pageSizes[currentPage - 1];
+
+  // Hydrate the editor from an existing config or fabric document once the
+  // PDF's page sizes are known, so imported fields can be checked against them
+  useEffect(() => {
+    if (pageSizes.length === 0) return;
+
+    const source = initialConfig?.trim()
+      ? { json: initialConfig, parse: parseConfig }
+      : initialFabric?.trim()
+        ? { json: initialFabric, parse: parseFabric }
+        : null;
+    if (!source || source.json === lastSyncedRef.current) return;
+
+    lastSyncedRef.current = source.json;
+    const parsed = source.parse(source.json);
+    const fitted = fitItemsToPages(parsed.items, pageSizes);
+
+    history.reset(
+      { items: fitted.items, roles: parsed.roles },
+      `Imported ${fitted.items.length} field${fitted.items.length === 1 ? "" : "s"}`,
+    );
+    setSelectedIds([]);
+    setImportIssues([...parsed.issues, ...fitted.issues]);
+  }, [initialConfig, initialFabric, pageSizes, history]);
+
+  // Most edits only touch the fields; keep the state as-is when they don't
+  // change so no-op edits don't create history entries
+  const applyItems = (
+    label: string,
+    updater: (items: ControlItem[]) => ControlItem[],
+    mergeKey?: string,
+  ) =>
+    history.apply(
+      label,
+      (state) => {
+        const items = updater(state.items);
+        return items === state.items ? state : { ...state, items };
+      },
+      mergeKey,
+    );
+
+  const previewItems = useCallback(
+    (updater: (items: ControlItem[]) => ControlItem[]) =>
+      history.preview((state) => ({ ...state, items: updater(state.items) })),
+    [history],
+  );
+
+  const goToPage = (page: number) => {
+    if (totalPages === 0) return;
+    setCurrentPage(Math.min(totalPages, Math.max(1, page)));
+  };
+
+  const zoomBy = (factor: number) => setScale((s) => clampZoom(s * factor));
+
+  const fitToWidth = () => {
+    if (!currentPageSize || !scrollContainerRef.current) return;
+    // Leave room for the container padding on both sides
+    const availableWidth = scrollContainerRef.current.clientWidth - 32;
+    setScale(clampZoom(availableWidth / currentPageSize.width));
+  };
+
+  const toPagePoint = useCallback(
+    (e: { clientX: number; clientY: number }) => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      return {
+        x: (e.clientX - rect.left) / scale,
+        y: (e.clientY - rect.top) / scale,
+      };
+    },
+    [scale],
+  );
 
-      // In a real implementation, you would use a PDF.js library to get total pages
-      // For this example, we'll just set it to 1
-      setTotalPages(1);
+  const addItemAt = (point: { x: number; y: number }, tool: PlacementTool) => {
+    if (!currentPageSize) return;
 
-      return () => URL.revokeObjectURL(url);
+    const { name, defaultSize } = FIELD_TYPE_REGISTRY[tool];
+    const origin = snapGrid
+      ? { x: snapToGrid(point.x), y: snapToGrid(point.y) }
+      : point;
+
+    // Keep new fields fully inside the page they were dropped on
+    const newItem: ControlItem = clampToPage(
+      {
+        id: `${tool}-${Date.now()}`,
+        type: tool,
+        x: origin.x,
+        y: origin.y,
+        ...defaultSize,
+        page: currentPage,
+        label: name,
+        required: false,
+        ...getFieldDefaults(tool),
+      },
+      currentPageSize,
+    );
+
+    applyItems(`Add ${FIELD_TYPE_REGISTRY[tool].name}`, (items) => [
+      ...items,
+      newItem,
+    ]);
+    setSelectedIds([newItem.id]);
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !canvasRef.current || !currentPageSize) return;
+
+    const point = toPagePoint(e);
+
+    if (selectedTool !== "select") {
+      addItemAt(point, selectedTool);
+      return;
     }
-  }, [pdfFile]);
-
-  const handleCanvasClick = (e: React.MouseEvent) => {
-    if (!selectedTool || !canvasRef.current || selectedTool === "move") return;
-
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / scale;
-    const y = (e.clientY - rect.top) / scale;
-
-    const newItem: ControlItem = {
-      id: `${selectedTool}-${Date.now()}`,
-      type: selectedTool,
-      x,
-      y,
-      width:
-        selectedTool === "signature" || selectedTool === "signblock"
-          ? 200
-          : 150,
-      height:
-        selectedTool === "signature"
-          ? 80
-          : selectedTool === "signblock"
-            ? 120
-            : 40,
-      page: currentPage,
-      label: `${selectedTool.charAt(0).toUpperCase() + selectedTool.slice(1)} Field`,
-      required: false,
-      ...(selectedTool === "signblock" && {
-        captureOptions: {
-          video: true,
-          audio: true,
-          image: true,
-          signature: true,
-        },
-      }),
-    };
 
-    setControlItems([...controlItems, newItem]);
-    setSelectedItem(newItem.id);
+    // Rubber-band selection; Shift extends the current selection
+    const baseSelection = e.shiftKey ? selectedIds : [];
+    setSelectedIds(baseSelection);
+    interactionRef.current = { kind: "marquee", start: point, baseSelection };
+    setIsInteracting(true);
   };
 
   const handleItemMouseDown = (e: React.MouseEvent, id: string) => {
+    if (e.button !== 0) return;
     e.stopPropagation();
-    setSelectedItem(id);
 
-    if (selectedTool === "move") {
-      setIsDragging(true);
-      setDragStart({ x: e.clientX, y: e.clientY });
+    if (e.shiftKey) {
+      setSelectedIds((ids) =>
+        ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id],
+      );
+      return;
     }
+
+    const selection = selectedIds.includes(id) ? selectedIds : [id];
+    setSelectedIds(selection);
+
+    const origins = new Map<string, Rect>();
+    controlItems
+      .filter(
+        (item) => item.page === currentPage && selection.includes(item.id),
+      )
+      .forEach((item) => origins.set(item.id, toRect(item)));
+
+    interactionRef.current = { kind: "move", start: toPagePoint(e), origins };
+    setIsInteracting(true);
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !selectedItem || !canvasRef.current) return;
+  const handleResizeMouseDown = (
+    e: React.MouseEvent,
+    item: ControlItem,
+    handle: ResizeHandle,
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
 
-    const dx = (e.clientX - dragStart.x) / scale;
-    const dy = (e.clientY - dragStart.y) / scale;
+    setSelectedIds([item.id]);
+    interactionRef.current = {
+      kind: "resize",
+      start: toPagePoint(e),
+      id: item.id,
+      handle,
+      origin: toRect(item),
+    };
+    setIsInteracting(true);
+  };
 
-    setControlItems((items) =>
-      items.map((item) => {
-        if (item.id === selectedItem) {
-          return { ...item, x: item.x + dx, y: item.y + dy };
-        }
-        return item;
-      }),
-    );
+  // Track the pointer on the window while dragging so fast moves that leave
+  // the page (or the editor) don't drop the interaction
+  useEffect(() => {
+    if (!isInteracting || !currentPageSize) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const interaction = interactionRef.current;
+      if (!interaction || !canvasRef.current) return;
+
+      const point = toPagePoint(e);
+      const dx = point.x - interaction.start.x;
+      const dy = point.y - interaction.start.y;
+
+      if (interaction.kind === "marquee") {
+        const area = normalizeRect(
+          interaction.start.x,
+          interaction.start.y,
+          point.x,
+          point.y,
+        );
+        const hits = controlItems
+          .filter(
+            (item) =>
+              item.page === currentPage && rectsIntersect(area, toRect(item)),
+          )
+          .map((item) => item.id);
+        setMarquee(area);
+        setSelectedIds([...new Set([...interaction.baseSelection, ...hits])]);
+        return;
+      }
+
+      const snapOptions = {
+        page: currentPageSize,
+        threshold: SNAP_THRESHOLD / scale,
+        snapToGuides: smartGuides,
+        snapToGrid: snapGrid,
+      };
+
+      if (interaction.kind === "move") {
+        const bounds = getBounds([...interaction.origins.values()]);
+        if (!bounds) return;
 
-    setDragStart({ x: e.clientX, y: e.clientY });
+        const others = controlItems
+          .filter(
+            (item) =>
+              item.page === currentPage && !interaction.origins.has(item.id),
+          )
+          .map(toRect);
+        const moved = { ...bounds, x: bounds.x + dx, y: bounds.y + dy };
+        const snapped = snapMove(moved, { ...snapOptions, others });
+        const clamped = clampToPage(
+          { ...moved, x: snapped.x, y: snapped.y },
+          currentPageSize,
+        );
+        const offsetX = clamped.x - bounds.x;
+        const offsetY = clamped.y - bounds.y;
+
+        setGuides(snapped.guides);
+        previewItems((items) =>
+          items.map((item) => {
+            const origin = interaction.origins.get(item.id);
+            return origin
+              ? { ...item, x: origin.x + offsetX, y: origin.y + offsetY }
+              : item;
+          }),
+        );
+        return;
+      }
+
+      const others = controlItems
+        .filter(
+          (item) => item.page === currentPage && item.id !== interaction.id,
+        )
+        .map(toRect);
+      const resized = resizeRect(
+        interaction.origin,
+        interaction.handle,
+        dx,
+        dy,
+      );
+      const snapped = snapResize(resized, interaction.handle, {
+        ...snapOptions,
+        others,
+      });
+      const left = Math.max(0, snapped.rect.x);
+      const top = Math.max(0, snapped.rect.y);
+      const right = Math.min(
+        currentPageSize.width,
+        snapped.rect.x + snapped.rect.width,
+      );
+      const bottom = Math.min(
+        currentPageSize.height,
+        snapped.rect.y + snapped.rect.height,
+      );
+
+      setGuides(snapped.guides);
+      previewItems((items) =>
+        items.map((item) =>
+          item.id === interaction.id
+            ? {
+                ...item,
+                x: left,
+                y: top,
+                width: right - left,
+                height: bottom - top,
+              }
+            : item,
+        ),
+      );
+    };
+
+    const handleMouseUp = () => {
+      const interaction = interactionRef.current;
+      if (interaction?.kind === "move") {
+        history.commit(`Move ${countFields(interaction.origins.size)}`);
+      } else if (interaction?.kind === "resize") {
+        history.commit("Resize field");
+      }
+
+      interactionRef.current = null;
+      setIsInteracting(false);
+      setGuides([]);
+      setMarquee(null);
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [
+    isInteracting,
+    controlItems,
+    history,
+    currentPage,
+    currentPageSize,
+    scale,
+    snapGrid,
+    smartGuides,
+    previewItems,
+    toPagePoint,
+  ]);
+
+  // Align and distribute only act on the selected fields of the visible page
+  const selectedOnPage = controlItems.filter(
+    (item) => item.page === currentPage && selectedIds.includes(item.id),
+  );
+
+  const applyLayout = (label: string, updated: ControlItem[]) => {
+    const byId = new Map(updated.map((item) => [item.id, item]));
+    applyItems(label, (items) =>
+      items.map((item) => byId.get(item.id) ?? item),
+    );
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const alignSelected = (mode: AlignMode) =>
+    applyLayout(`Align ${mode}`, alignRects(selectedOnPage, mode));
+
+  const distributeSelected = (axis: DistributeAxis) =>
+    applyLayout(`Distribute ${axis}ly`, distributeRects(selectedOnPage, axis));
+
+  const updateItem = (
+    id: string,
+    property: string,
+    patch: Partial<ControlItem>,
+  ) => {
+    applyItems(
+      `Edit ${property}`,
+      (items) =>
+        items.map((item) => {
+          if (item.id !== id) return item;
+          const updated = { ...item, ...patch };
+          const pageSize = pageSizes[updated.page - 1];
+          return pageSize ? clampToPage(updated, pageSize) : updated;
+        }),
+      TYPED_PROPERTIES.has(property) ? `${id}:${property}` : undefined,
+    );
+    if (patch.page) goToPage(patch.page);
   };
 
-  const deleteSelectedItem = () => {
-    if (selectedItem) {
-      setControlItems((items) =>
-        items.filter((item) => item.id !== selectedItem),
+  const inspectedItem =
+    selectedIds.length === 1
+      ? controlItems.find((item) => item.id === selectedIds[0])
+      : undefined;
+
+  const roleById = new Map(signerRoles.map((role) => [role.id, role]));
+
+  const addRole = () =>
+    history.apply("Add signer role", (state) => ({
+      ...state,
+      roles: [...state.roles, createSignerRole(state.roles)],
+    }));
+
+  const renameRole = (id: string, name: string) =>
+    history.apply(
+      "Rename signer role",
+      (state) => ({
+        ...state,
+        roles: state.roles.map((role) =>
+          role.id === id ? { ...role, name } : role,
+        ),
+      }),
+      `role:${id}`,
+    );
+
+  const toggleRoleReassign = (role: SignerRole) =>
+    history.apply(
+      role.allowReassign
+        ? `Stop "${role.name}" reassigning`
+        : `Let "${role.name}" reassign`,
+      (state) => ({
+        ...state,
+        roles: state.roles.map((r) =>
+          r.id === role.id
+            ? { ...r, allowReassign: !role.allowReassign || undefined }
+            : r,
+        ),
+      }),
+    );
+
+  // Fields of a removed role fall back to unassigned
+  const deleteRole = (role: SignerRole) =>
+    history.apply(`Delete role "${role.name}"`, (state) => ({
+      roles: state.roles.filter((r) => r.id !== role.id),
+      items: state.items.map((item) =>
+        item.signerRoleId === role.id
+          ? { ...item, signerRoleId: undefined }
+          : item,
+      ),
+    }));
+
+  const deleteSelectedItems = () => {
+    if (selectedIds.length > 0) {
+      applyItems(`Delete ${countFields(selectedIds.length)}`, (items) =>
+        items.filter((item) => !selectedIds.includes(item.id)),
       );
-      setSelectedItem(null);
+      setSelectedIds([]);
     }
   };
 
   const handleKeyDown = (e: KeyboardEvent) => {
-    if (e.key === "Delete" || e.key === "Backspace") {
-      deleteSelectedItem();
+    // Leave typing in the inspector, the JSON fields etc. alone
+    if (isEditableTarget(e.target)) return;
+
+    const isShortcut = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+
+    if (isShortcut && key === "z") {
+      e.preventDefault();
+      if (e.shiftKey) history.redo();
+      else history.undo();
+    } else if (isShortcut && key === "y") {
+      e.preventDefault();
+      history.redo();
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      deleteSelectedItems();
     }
   };
 
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedItem]);
-
-  const generateConfig = () => {
-    const config = {
-      version: "1.0",
-      fields: controlItems.map((item) => ({
-        id: item.id,
-        type: item.type,
-        page: item.page,
-        position: { x: item.x, y: item.y },
-        size: { width: item.width, height: item.height },
-        label: item.label,
-        required: item.required,
-        ...(item.type === "signblock" && {
-          captureOptions: item.captureOptions,
-        }),
-      })),
-    };
-
-    return JSON.stringify(config, null, 2);
-  };
-
-  const generateFabric = () => {
-    // In a real implementation, this would generate fabric.js compatible JSON
-    // For this example, we'll create a simplified version
-    const fabric = {
-      version: "5.3.0",
-      objects: controlItems.map((item) => ({
-        type:
-          item.type === "signature"
-            ? "rect"
-            : item.type === "text"
-              ? "textbox"
-              : item.type === "signblock"
-                ? "group"
-                : "rect",
-        left: item.x,
-        top: item.y,
-        width: item.width,
-        height: item.height,
-        fill:
-          item.type === "signblock" ? "rgba(0,0,255,0.05)" : "rgba(0,0,0,0.1)",
-        stroke: item.type === "signblock" ? "#6200EA" : "#0000FF",
-        strokeWidth: item.type === "signblock" ? 2 : 1,
-        metadata: {
-          fieldType: item.type,
-          fieldId: item.id,
-          required: item.required,
-          ...(item.type === "signblock" && {
-            captureOptions: item.captureOptions,
-          }),
-        },
-      })),
-    };
-
-    return JSON.stringify(fabric, null, 2);
-  };
+    // handleKeyDown only reads the selection and the history
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedIds, history]);
 
   const handleSave = () => {
-    const config = generateConfig();
-    const fabric = generateFabric();
+    const config = serializeConfig(controlItems, signerRoles);
+    const fabric = serializeFabric(controlItems, signerRoles, pageSizes);
+    lastSyncedRef.current = config;
     onSave(config, fabric);
   };
 
@@ -223,103 +634,347 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
     <div className="flex flex-col h-full bg-white border rounded-md">
       <div className="flex justify-between items-center p-2 border-b">
         <div className="flex space-x-2 flex-wrap gap-2">
+          {FIELD_TYPES.map((type) => {
+            const { name, icon: Icon } = FIELD_TYPE_REGISTRY[type];
+            return (
+              <Button
+                key={type}
+                variant={selectedTool === type ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedTool(type)}
+                className={
+                  type === "signblock"
+                    ? "bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:from-blue-600 hover:to-purple-600"
+                    : undefined
+                }
+              >
+                <Icon className="h-4 w-4 mr-1" /> {name}
+              </Button>
+            );
+          })}
           <Button
-            variant={selectedTool === "signature" ? "default" : "outline"}
+            variant={selectedTool === "select" ? "default" : "outline"}
             size="sm"
-            onClick={() => setSelectedTool("signature")}
+            onClick={() => setSelectedTool("select")}
           >
-            <Pen className="h-4 w-4 mr-1" /> Signature
+            <MousePointer2 className="h-4 w-4 mr-1" /> Select
           </Button>
+        </div>
+        <div className="flex space-x-2">
           <Button
-            variant={selectedTool === "text" ? "default" : "outline"}
+            variant="outline"
             size="sm"
-            onClick={() => setSelectedTool("text")}
+            onClick={history.undo}
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
           >
-            <Type className="h-4 w-4 mr-1" /> Text
+            <Undo2 className="h-4 w-4" />
           </Button>
           <Button
-            variant={selectedTool === "date" ? "default" : "outline"}
+            variant="outline"
             size="sm"
-            onClick={() => setSelectedTool("date")}
+            onClick={history.redo}
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
           >
-            <CalendarIcon className="h-4 w-4 mr-1" /> Date
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="default" size="sm" onClick={handleSave}>
+            <Save className="h-4 w-4 mr-1" /> Save Template
           </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center px-2 py-1 border-b bg-gray-50">
+        <div className="flex items-center space-x-1">
           <Button
-            variant={selectedTool === "signblock" ? "default" : "outline"}
+            variant="ghost"
             size="sm"
-            onClick={() => setSelectedTool("signblock")}
-            className="bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:from-blue-600 hover:to-purple-600"
+            className="h-7 w-7 p-0"
+            onClick={() => goToPage(currentPage - 1)}
+            disabled={currentPage <= 1}
+            title="Previous page"
           >
-            <Pen className="h-4 w-4 mr-1" /> SignBlock
+            <ChevronLeft className="h-4 w-4" />
           </Button>
+          <span className="text-xs text-gray-600 min-w-[80px] text-center">
+            {totalPages > 0
+              ? `Page ${currentPage} of ${totalPages}`
+              : "No pages"}
+          </span>
           <Button
-            variant={selectedTool === "move" ? "default" : "outline"}
+            variant="ghost"
             size="sm"
-            onClick={() => setSelectedTool("move")}
+            className="h-7 w-7 p-0"
+            onClick={() => goToPage(currentPage + 1)}
+            disabled={currentPage >= totalPages}
+            title="Next page"
           >
-            <Move className="h-4 w-4 mr-1" /> Move
+            <ChevronRight className="h-4 w-4" />
           </Button>
         </div>
-        <div className="flex space-x-2">
-          <Button variant="default" size="sm" onClick={handleSave}>
-            <Save className="h-4 w-4 mr-1" /> Save Template
+        <div className="flex items-center space-x-1">
+          {(
+            [
+              ["left", AlignStartVertical, "Align left"],
+              ["center", AlignCenterVertical, "Align centers horizontally"],
+              ["right", AlignEndVertical, "Align right"],
+              ["top", AlignStartHorizontal, "Align top"],
+              ["middle", AlignCenterHorizontal, "Align centers vertically"],
+              ["bottom", AlignEndHorizontal, "Align bottom"],
+            ] as const
+          ).map(([mode, Icon, title]) => (
+            <Button
+              key={mode}
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => alignSelected(mode)}
+              disabled={selectedOnPage.length < 2}
+              title={title}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => distributeSelected("horizontal")}
+            disabled={selectedOnPage.length < 3}
+            title="Distribute horizontally"
+          >
+            <AlignHorizontalDistributeCenter className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => distributeSelected("vertical")}
+            disabled={selectedOnPage.length < 3}
+            title="Distribute vertically"
+          >
+            <AlignVerticalDistributeCenter className="h-4 w-4" />
+          </Button>
+          <div className="w-px h-5 bg-gray-200 mx-1" />
+          <Button
+            variant={snapGrid ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setSnapGrid(!snapGrid)}
+            title="Snap to grid"
+          >
+            <Grid3x3 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={smartGuides ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setSmartGuides(!smartGuides)}
+            title="Smart guides"
+          >
+            <Magnet className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => zoomBy(1 / 1.25)}
+            title="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <button
+            type="button"
+            className="text-xs text-gray-600 min-w-[48px] text-center hover:underline"
+            onClick={() => setScale(1)}
+            title="Reset zoom"
+          >
+            {Math.round(scale * 100)}%
+          </button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => zoomBy(1.25)}
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={fitToWidth}
+            disabled={!currentPageSize}
+            title="Fit to width"
+          >
+            <Maximize2 className="h-4 w-4" />
           </Button>
         </div>
       </div>
 
+      {importIssues.length > 0 && (
+        <Alert
+          variant={
+            importIssues.some((issue) => issue.severity === "error")
+              ? "destructive"
+              : "default"
+          }
+          className="rounded-none border-x-0 border-t-0 py-2"
+        >
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle className="flex items-center justify-between">
+            Some fields need attention after import
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setImportIssues([])}
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 text-xs max-h-24 overflow-y-auto">
+              {importIssues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="flex flex-1 overflow-hidden">
+        {pdf && (
+          <div className="w-32 border-r p-2 overflow-y-auto bg-gray-50 space-y-3">
+            {pageSizes.map((size, index) => {
+              const pageNumber = index + 1;
+              const fieldCount = controlItems.filter(
+                (item) => item.page === pageNumber,
+              ).length;
+              return (
+                <button
+                  key={pageNumber}
+                  type="button"
+                  className="block mx-auto text-center"
+                  onClick={() => goToPage(pageNumber)}
+                >
+                  <div
+                    className={cn(
+                      "relative border-2 bg-white shadow-sm",
+                      pageNumber === currentPage
+                        ? "border-blue-500"
+                        : "border-transparent hover:border-gray-300",
+                    )}
+                  >
+                    <PdfPageCanvas
+                      pdf={pdf}
+                      pageNumber={pageNumber}
+                      scale={THUMBNAIL_WIDTH / size.width}
+                    />
+                    {fieldCount > 0 && (
+                      <span className="absolute top-1 right-1 rounded-full bg-blue-600 text-white text-[10px] leading-none px-1.5 py-0.5">
+                        {fieldCount}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500">{pageNumber}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         <div
+          ref={scrollContainerRef}
           className="flex-1 overflow-auto p-4 bg-gray-100"
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
         >
-          <div
-            ref={pdfContainerRef}
-            className="relative mx-auto bg-white shadow-lg"
-            style={{ width: "612px", height: "792px" }} // US Letter size
-          >
-            {pdfUrl ? (
-              <>
-                <div
-                  ref={canvasRef}
-                  className="absolute inset-0 cursor-crosshair"
-                  onClick={handleCanvasClick}
-                >
-                  {controlItems
-                    .filter((item) => item.page === currentPage)
-                    .map((item) => (
+          {pdf && currentPageSize ? (
+            <div
+              className="relative mx-auto bg-white shadow-lg"
+              style={{
+                width: `${currentPageSize.width * scale}px`,
+                height: `${currentPageSize.height * scale}px`,
+              }}
+            >
+              <PdfPageCanvas pdf={pdf} pageNumber={currentPage} scale={scale} />
+              <div
+                ref={canvasRef}
+                className={cn(
+                  "absolute inset-0 select-none",
+                  selectedTool === "select"
+                    ? "cursor-default"
+                    : "cursor-crosshair",
+                )}
+                style={
+                  snapGrid
+                    ? {
+                        backgroundImage:
+                          "linear-gradient(to right, rgba(59,130,246,0.12) 1px, transparent 1px), linear-gradient(to bottom, rgba(59,130,246,0.12) 1px, transparent 1px)",
+                        backgroundSize: `${GRID_SIZE * scale}px ${GRID_SIZE * scale}px`,
+                      }
+                    : undefined
+                }
+                onMouseDown={handleCanvasMouseDown}
+              >
+                {controlItems
+                  .filter((item) => item.page === currentPage)
+                  .map((item) => {
+                    const isSelected = selectedIds.includes(item.id);
+                    const role = item.signerRoleId
+                      ? roleById.get(item.signerRoleId)
+                      : undefined;
+                    return (
                       <div
                         key={item.id}
                         className={cn(
                           "absolute border-2 flex items-center justify-center",
-                          selectedItem === item.id
-                            ? "border-blue-500"
-                            : "border-gray-400",
-                          item.type === "signature"
-                            ? "bg-blue-50"
-                            : item.type === "text"
-                              ? "bg-green-50"
-                              : item.type === "date"
-                                ? "bg-yellow-50"
-                                : "bg-gradient-to-br from-blue-50 to-purple-50",
+                          selectedTool === "select" && "cursor-move",
+                          isSelected ? "border-blue-500" : "border-gray-400",
+                          item.type === "signblock" &&
+                            "bg-gradient-to-br from-blue-50 to-purple-50",
                         )}
                         style={{
-                          left: `${item.x}px`,
-                          top: `${item.y}px`,
-                          width: `${item.width}px`,
-                          height: `${item.height}px`,
+                          left: `${item.x * scale}px`,
+                          top: `${item.y * scale}px`,
+                          width: `${item.width * scale}px`,
+                          height: `${item.height * scale}px`,
+                          ...(item.type !== "signblock" && {
+                            backgroundColor: withAlpha(
+                              FIELD_TYPE_REGISTRY[item.type].color,
+                              0.08,
+                            ),
+                          }),
+                          // Assigned fields take their role's colour
+                          ...(role && {
+                            backgroundColor: withAlpha(
+                              getRoleColor(role),
+                              0.12,
+                            ),
+                            ...(!isSelected && {
+                              borderColor: getRoleColor(role),
+                            }),
+                          }),
                         }}
                         onMouseDown={(e) => handleItemMouseDown(e, item.id)}
                       >
-                        <span className="text-xs font-medium opacity-70">
-                          {item.type === "signature"
-                            ? "Signature"
-                            : item.type === "text"
-                              ? "Text Field"
-                              : item.type === "date"
-                                ? "Date Field"
-                                : "SignBlock"}
+                        <span className="text-xs font-medium opacity-70 truncate px-1">
+                          {item.type === "autofill" && item.autoFillSource
+                            ? AUTO_FILL_LABELS[item.autoFillSource]
+                            : FIELD_TYPE_REGISTRY[item.type].name}
                         </span>
+                        {role && (
+                          <span
+                            className="absolute top-0 left-0 px-1 text-[10px] leading-4 text-white rounded-br pointer-events-none"
+                            style={{ backgroundColor: getRoleColor(role) }}
+                          >
+                            {role.name}
+                          </span>
+                        )}
                         {item.type === "signblock" && (
                           <div className="absolute bottom-1 right-1 flex space-x-1">
                             {item.captureOptions?.video && (
@@ -336,25 +991,172 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
                             )}
                           </div>
                         )}
+                        {isSelected &&
+                          selectedIds.length === 1 &&
+                          RESIZE_HANDLES.map((handle) => (
+                            <div
+                              key={handle}
+                              className={cn(
+                                "absolute h-2 w-2 bg-white border border-blue-500",
+                                RESIZE_CURSORS[handle],
+                              )}
+                              style={{
+                                left: handle.includes("w")
+                                  ? -5
+                                  : handle.includes("e")
+                                    ? undefined
+                                    : "calc(50% - 4px)",
+                                right: handle.includes("e") ? -5 : undefined,
+                                top: handle.includes("n")
+                                  ? -5
+                                  : handle.includes("s")
+                                    ? undefined
+                                    : "calc(50% - 4px)",
+                                bottom: handle.includes("s") ? -5 : undefined,
+                              }}
+                              onMouseDown={(e) =>
+                                handleResizeMouseDown(e, item, handle)
+                              }
+                            />
+                          ))}
                       </div>
-                    ))}
-                </div>
-                <iframe
-                  src={`${pdfUrl}#page=${currentPage}`}
-                  className="w-full h-full pointer-events-none"
-                  title="PDF Preview"
-                />
-              </>
-            ) : (
-              <div className="w-full h-full flex items-center justify-center bg-gray-100 text-gray-500">
-                Please upload a PDF file first
+                    );
+                  })}
+                {guides.map((guide, index) =>
+                  guide.orientation === "vertical" ? (
+                    <div
+                      key={index}
+                      className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none"
+                      style={{ left: `${guide.position * scale}px` }}
+                    />
+                  ) : (
+                    <div
+                      key={index}
+                      className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none"
+                      style={{ top: `${guide.position * scale}px` }}
+                    />
+                  ),
+                )}
+                {marquee && (
+                  <div
+                    className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none"
+                    style={{
+                      left: `${marquee.x * scale}px`,
+                      top: `${marquee.y * scale}px`,
+                      width: `${marquee.width * scale}px`,
+                      height: `${marquee.height * scale}px`,
+                    }}
+                  />
+                )}
               </div>
-            )}
-          </div>
+            </div>
+          ) : (
+            <div
+              className="mx-auto flex items-center justify-center bg-gray-100 text-gray-500"
+              style={{ width: "612px", height: "792px" }} // US Letter size
+            >
+              {isLoading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              ) : error ? (
+                <span className="text-red-500">
+                  Unable to read this PDF: {error}
+                </span>
+              ) : (
+                "Please upload a PDF file first"
+              )}
+            </div>
+          )}
         </div>
 
         <div className="w-64 border-l p-4 overflow-y-auto">
-          <h3 className="font-medium mb-2">Template Fields</h3>
+          <h3 className="font-medium mb-2">Field Properties</h3>
+          {inspectedItem ? (
+            <FieldInspector
+              key={inspectedItem.id}
+              item={inspectedItem}
+              totalPages={totalPages}
+              roles={signerRoles}
+              onChange={(property, patch) =>
+                updateItem(inspectedItem.id, property, patch)
+              }
+            />
+          ) : (
+            <p className="text-sm text-gray-500">
+              {selectedIds.length > 1
+                ? `${selectedIds.length} fields selected. Select a single field to edit its properties.`
+                : "Select a field to edit its properties."}
+            </p>
+          )}
+
+          <div className="flex justify-between items-center mt-6 mb-2">
+            <h3 className="font-medium">Signer Roles</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={addRole}
+            >
+              <Plus className="h-3 w-3 mr-1" /> Add role
+            </Button>
+          </div>
+          {signerRoles.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No roles yet. Add roles such as "Employee" or "Manager" to decide
+              who fills in each field.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {signerRoles.map((role) => (
+                <div key={role.id} className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-full shrink-0"
+                    style={{ backgroundColor: getRoleColor(role) }}
+                  />
+                  <Input
+                    value={role.name}
+                    onChange={(e) => renameRole(role.id, e.target.value)}
+                    className="h-7 text-sm"
+                    aria-label="Role name"
+                  />
+                  <span className="text-xs text-gray-500 shrink-0">
+                    {
+                      controlItems.filter(
+                        (item) => item.signerRoleId === role.id,
+                      ).length
+                    }
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn(
+                      "h-6 w-6 p-0 shrink-0",
+                      role.allowReassign ? "text-blue-600" : "text-gray-400",
+                    )}
+                    title={
+                      role.allowReassign
+                        ? "Signers in this role can reassign to someone else"
+                        : "Signers in this role can't reassign"
+                    }
+                    aria-pressed={role.allowReassign === true}
+                    onClick={() => toggleRoleReassign(role)}
+                  >
+                    <UserRoundPlus className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 shrink-0"
+                    title="Delete role"
+                    onClick={() => deleteRole(role)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <h3 className="font-medium mt-6 mb-2">Template Fields</h3>
           {controlItems.length === 0 ? (
             <p className="text-sm text-gray-500">
               No fields added yet. Use the tools above to add fields to your
@@ -367,21 +1169,29 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
                   key={item.id}
                   className={cn(
                     "p-2 border rounded-md cursor-pointer",
-                    selectedItem === item.id
+                    selectedIds.includes(item.id)
                       ? "border-blue-500 bg-blue-50"
                       : "border-gray-200",
                   )}
-                  onClick={() => setSelectedItem(item.id)}
+                  onClick={(e) => {
+                    if (e.shiftKey) {
+                      setSelectedIds((ids) =>
+                        ids.includes(item.id)
+                          ? ids.filter((i) => i !== item.id)
+                          : [...ids, item.id],
+                      );
+                      return;
+                    }
+                    setSelectedIds([item.id]);
+                    goToPage(item.page);
+                  }}
                 >
                   <div className="flex justify-between items-center">
-                    <span className="font-medium text-sm">
-                      {item.type === "signature"
-                        ? "Signature"
-                        : item.type === "text"
-                          ? "Text Field"
-                          : item.type === "date"
-                            ? "Date Field"
-                            : "SignBlock"}
+                    <span className="font-medium text-sm truncate">
+                      {item.label || FIELD_TYPE_REGISTRY[item.type].name}
+                      {item.required && (
+                        <span className="text-red-500 ml-0.5">*</span>
+                      )}
                     </span>
                     <Button
                       variant="ghost"
@@ -389,10 +1199,13 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
                       className="h-6 w-6 p-0"
                       onClick={(e) => {
                         e.stopPropagation();
-                        setControlItems((items) =>
-                          items.filter((i) => i.id !== item.id),
+                        applyItems(
+                          `Delete ${FIELD_TYPE_REGISTRY[item.type].name}`,
+                          (items) => items.filter((i) => i.id !== item.id),
+                        );
+                        setSelectedIds((ids) =>
+                          ids.filter((i) => i !== item.id),
                         );
-                        if (selectedItem === item.id) setSelectedItem(null);
                       }}
                     >
                       ×
@@ -402,22 +1215,47 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
                     Page {item.page}, Position: ({Math.round(item.x)},{" "}
                     {Math.round(item.y)})
                   </div>
+                  <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                    {item.signerRoleId && roleById.has(item.signerRoleId) ? (
+                      <>
+                        <span
+                          className="h-2 w-2 rounded-full"
+                          style={{
+                            backgroundColor: getRoleColor(
+                              roleById.get(item.signerRoleId),
+                            ),
+                          }}
+                        />
+                        {roleById.get(item.signerRoleId)!.name}
+                      </>
+                    ) : (
+                      "Unassigned"
+                    )}
+                  </div>
                   {item.type === "signblock" && (
                     <div className="flex items-center gap-2 mt-2 border-t pt-1">
                       <div className="text-xs font-medium">Capture:</div>
                       <div className="flex space-x-1">
-                        <div className="flex items-center" title="Video">
-                          <Video className="h-3 w-3 text-blue-500" />
-                        </div>
-                        <div className="flex items-center" title="Audio">
-                          <Mic className="h-3 w-3 text-red-500" />
-                        </div>
-                        <div className="flex items-center" title="Image">
-                          <Image className="h-3 w-3 text-green-500" />
-                        </div>
-                        <div className="flex items-center" title="Signature">
-                          <FileSignature className="h-3 w-3 text-purple-500" />
-                        </div>
+                        {item.captureOptions?.video && (
+                          <div className="flex items-center" title="Video">
+                            <Video className="h-3 w-3 text-blue-500" />
+                          </div>
+                        )}
+                        {item.captureOptions?.audio && (
+                          <div className="flex items-center" title="Audio">
+                            <Mic className="h-3 w-3 text-red-500" />
+                          </div>
+                        )}
+                        {item.captureOptions?.image && (
+                          <div className="flex items-center" title="Image">
+                            <Image className="h-3 w-3 text-green-500" />
+                          </div>
+                        )}
+                        {item.captureOptions?.signature && (
+                          <div className="flex items-center" title="Signature">
+                            <FileSignature className="h-3 w-3 text-purple-500" />
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -425,6 +1263,30 @@ const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, onSave }) => {
               ))}
             </div>
           )}
+
+          <h3 className="font-medium mt-6 mb-2 flex items-center">
+            <History className="h-4 w-4 mr-1" /> History
+          </h3>
+          <ol className="space-y-1">
+            {history.entries.map((entry, index) => (
+              <li key={`${entry.timestamp}-${index}`}>
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full text-left text-xs px-2 py-1 rounded",
+                    index === history.index
+                      ? "bg-blue-50 text-blue-700 font-medium"
+                      : index > history.index
+                        ? "text-gray-400 hover:bg-gray-50"
+                        : "text-gray-600 hover:bg-gray-50",
+                  )}
+                  onClick={() => history.jumpTo(index)}
+                >
+                  {entry.label}
+                </button>
+              </li>
+            ))}
+          </ol>
         </div>
       </div>
     </div>
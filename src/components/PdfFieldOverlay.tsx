@@ -0,0 +1,105 @@
+import React from "react";
+import PdfPageCanvas from "@/components/PdfPageCanvas";
+import { cn } from "@/lib/utils";
+import { AUTO_FILL_LABELS, FIELD_TYPE_REGISTRY } from "@/lib/fieldTypes";
+import { getRoleColor, withAlpha } from "@/lib/signerRoles";
+import type { PdfDocument, PdfPageSize } from "@/lib/pdf";
+import type { SignerRole, TemplateField } from "@/types/config";
+
+export type OverlayField = Pick<
+  TemplateField,
+  "id" | "type" | "position" | "size" | "label" | "autoFillSource"
+> & { signerRoleId?: string };
+
+interface PdfFieldOverlayProps {
+  pdf: PdfDocument;
+  pageNumber: number;
+  pageSize: PdfPageSize;
+  scale: number;
+  // Fields on this page; positions are in PDF points from the top left
+  fields: OverlayField[];
+  roles?: SignerRole[];
+  className?: string;
+  // With onFieldSelect the fields become buttons, as on the signing screen
+  activeFieldId?: string;
+  onFieldSelect?: (fieldId: string) => void;
+  // Shown in place of the field's label when it returns something, e.g. the
+  // value filled in so far
+  renderFieldContent?: (field: OverlayField) => React.ReactNode;
+}
+
+// A PDF page with its fields drawn on top, coloured like the editor
+const PdfFieldOverlay: React.FC<PdfFieldOverlayProps> = ({
+  pdf,
+  pageNumber,
+  pageSize,
+  scale,
+  fields,
+  roles = [],
+  className,
+  activeFieldId,
+  onFieldSelect,
+  renderFieldContent,
+}) => (
+  <div
+    className={cn("relative bg-white shadow", className)}
+    style={{
+      width: `${pageSize.width * scale}px`,
+      height: `${pageSize.height * scale}px`,
+    }}
+  >
+    <PdfPageCanvas pdf={pdf} pageNumber={pageNumber} scale={scale} />
+    {fields.map((field) => {
+      const role = roles.find(({ id }) => id === field.signerRoleId);
+      const color = role
+        ? getRoleColor(role)
+        : FIELD_TYPE_REGISTRY[field.type].color;
+      const FieldBox = onFieldSelect ? "button" : "div";
+      const content = renderFieldContent?.(field);
+      return (
+        <FieldBox
+          key={field.id}
+          {...(onFieldSelect && {
+            type: "button" as const,
+            onClick: () => onFieldSelect(field.id),
+          })}
+          data-field-id={field.id}
+          className={cn(
+            "absolute flex items-center justify-center overflow-hidden border-2",
+            onFieldSelect && "cursor-pointer transition-shadow hover:shadow-md",
+            field.id === activeFieldId &&
+              "z-10 ring-2 ring-blue-500 ring-offset-2",
+          )}
+          style={{
+            left: `${field.position.x * scale}px`,
+            top: `${field.position.y * scale}px`,
+            width: `${field.size.width * scale}px`,
+            height: `${field.size.height * scale}px`,
+            borderColor: color,
+            backgroundColor: withAlpha(color, 0.12),
+          }}
+          title={field.label}
+        >
+          {content ?? (
+            <span className="truncate px-1 text-xs font-medium opacity-70">
+              {field.label ||
+                (field.type === "autofill" && field.autoFillSource
+                  ? AUTO_FILL_LABELS[field.autoFillSource]
+                  : FIELD_TYPE_REGISTRY[field.type].name)}
+            </span>
+          )}
+          {role && (
+            <span
+              className="absolute left-0 top-0 rounded-br px-1 text-[10px] leading-4 text-white"
+              style={{ backgroundColor: color }}
+            >
+              {role.name}
+            </span>
+          )}
+        </FieldBox>
+      );
+    })}
+  </div>
+);
+
+export default PdfFieldOverlay;
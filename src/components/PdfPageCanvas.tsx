@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import {
+  isRenderCancelled,
+  renderPage,
+  type PdfDocument,
+  type PdfRenderTask,
+} from "@/lib/pdf";
+
+interface PdfPageCanvasProps {
+  pdf: PdfDocument;
+  pageNumber: number;
+  scale: number;
+  className?: string;
+}
+
+const PdfPageCanvas: React.FC<PdfPageCanvasProps> = ({
+  pdf,
+  pageNumber,
+  scale,
+  className,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Settles once the latest render has finished or been cancelled
+  const renderingRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let cancelled = false;
+    let task: PdfRenderTask | null = null;
+
+    // pdf.js refuses to render into a canvas another render is still
+    // using, so wait for the previous one to settle after cancelling it
+    renderingRef.current = renderingRef.current
+      .then(async () => {
+        if (cancelled) return;
+        task = await renderPage(pdf, pageNumber, canvas, scale);
+        if (cancelled) task.cancel();
+        await task.promise;
+      })
+      .catch((error) => {
+        if (!isRenderCancelled(error)) {
+          console.error(`Error rendering page ${pageNumber}:`, error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber, scale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn("block pointer-events-none", className)}
+    />
+  );
+};
+
+export default PdfPageCanvas;
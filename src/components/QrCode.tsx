@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Renders `value` as a QR code image, e.g. a signing link to scan on a phone
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 240, className }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDataUrl(null);
+    setError(false);
+    QRCode.toDataURL(value, { width: size, margin: 1 })
+      .then((url) => !cancelled && setDataUrl(url))
+      .catch((err) => {
+        console.error("Error generating QR code:", err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  return (
+    <div
+      className={cn("flex items-center justify-center bg-white", className)}
+      style={{ width: size, height: size }}
+    >
+      {dataUrl ? (
+        <img src={dataUrl} alt="QR code" width={size} height={size} />
+      ) : error ? (
+        <p className="text-sm text-red-600">Couldn't generate the QR code</p>
+      ) : (
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      )}
+    </div>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,151 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { ReassignSigningPayload } from "@/types/template";
+
+const reassignSchema = z.object({
+  signerName: z.string().trim().min(1, "Name is required"),
+  signerEmail: z.string().trim().email("Invalid email address"),
+  note: z.string().optional(),
+});
+
+type ReassignFormValues = z.infer<typeof reassignSchema>;
+
+interface ReassignSigningDialogProps {
+  open: boolean;
+  documentName: string;
+  // Stays open while the reassignment is sent, so a failure can be retried
+  isSubmitting: boolean;
+  onCancel: () => void;
+  onConfirm: (payload: ReassignSigningPayload) => void;
+}
+
+const ReassignSigningDialog: React.FC<ReassignSigningDialogProps> = ({
+  open,
+  documentName,
+  isSubmitting,
+  onCancel,
+  onConfirm,
+}) => {
+  const form = useForm<ReassignFormValues>({
+    resolver: zodResolver(reassignSchema),
+    defaultValues: { signerName: "", signerEmail: "", note: "" },
+  });
+
+  useEffect(() => {
+    if (open) form.reset();
+  }, [open, form]);
+
+  const onSubmit = ({ signerName, signerEmail, note }: ReassignFormValues) =>
+    onConfirm({ signerName, signerEmail, note: note?.trim() || undefined });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => !isOpen && !isSubmitting && onCancel()}
+    >
+      <DialogContent className="sm:max-w-md">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Reassign to someone else</DialogTitle>
+              <DialogDescription>
+                They'll get their own link to sign {documentName} in your place,
+                and your link stops working.
+              </DialogDescription>
+            </DialogHeader>
+            <FormField
+              control={form.control}
+              name="signerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Full name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="signerEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="name@example.com"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Included in their email and the audit trail"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onCancel}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {isSubmitting && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Reassign
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReassignSigningDialog;
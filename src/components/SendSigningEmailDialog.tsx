@@ -0,0 +1,479 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertCircle, Loader2, Save, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  createMessageTemplate,
+  getDocument,
+  listDocumentSigners,
+  listMessageTemplates,
+  listSigningLinks,
+  sendSigningEmails,
+} from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  MESSAGE_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  renderMessage,
+  toMessageValues,
+} from "@/lib/messageTemplates";
+import { getCurrentStep } from "@/lib/signingOrder";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { MessageTemplate } from "@/types/template";
+
+interface SendSigningEmailDialogProps {
+  // The dialog is open while a document ID is set
+  documentId: string | null;
+  // Recipients to preselect; defaults to the signers whose turn it is
+  signerIds?: string[];
+  onClose: () => void;
+}
+
+interface SendSigningEmailFormProps {
+  documentId: string;
+  signerIds?: string[];
+  onClose: () => void;
+}
+
+const SendSigningEmailForm: React.FC<SendSigningEmailFormProps> = ({
+  documentId,
+  signerIds,
+  onClose,
+}) => {
+  const [recipients, setRecipients] = useState<string[] | null>(null);
+  const [templateId, setTemplateId] = useState<string>();
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [previewSignerId, setPreviewSignerId] = useState<string>();
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+  const getSignal = useAbortSignal();
+
+  const { data, isLoading, error, setData } = useApiQuery(
+    async (signal) => {
+      const [document, signers, links, templates] = await Promise.all([
+        getDocument(documentId, signal),
+        listDocumentSigners(documentId, signal),
+        listSigningLinks(documentId, signal),
+        listMessageTemplates(signal),
+      ]);
+      return { document, signers, links, templates };
+    },
+    [documentId],
+  );
+
+  const applyTemplate = (template: MessageTemplate) => {
+    setTemplateId(template.id);
+    setSubject(template.subject);
+    setBody(template.body);
+  };
+
+  // Start from the first message template and the signers whose turn it is
+  useEffect(() => {
+    if (!data || recipients) return;
+    const step = getCurrentStep(data.signers);
+    setRecipients(
+      signerIds ??
+        data.signers
+          .filter(
+            (signer) =>
+              signer.status === "pending" && (signer.step ?? 1) === step,
+          )
+          .map(({ signerId }) => signerId),
+    );
+    if (data.templates.length > 0) applyTemplate(data.templates[0]);
+    // Only seeds the form; later edits are the sender's
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  if (!data || !recipients) {
+    return (
+      <div className="flex flex-col items-center gap-3 py-12 text-gray-500">
+        {isLoading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        ) : (
+          <>
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            {error?.message}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { document, signers, links, templates } = data;
+  const currentStep = getCurrentStep(signers);
+  const isOpen = document.status === "pending";
+  const unknownPlaceholders = findUnknownPlaceholders(`${subject}\n${body}`);
+  const previewSigner =
+    signers.find(({ signerId }) => signerId === previewSignerId) ??
+    signers.find(({ signerId }) => recipients.includes(signerId)) ??
+    signers[0];
+  const previewValues =
+    previewSigner &&
+    toMessageValues({
+      signerName: previewSigner.signerName,
+      documentName: document.name,
+      link:
+        links.find(({ signerId }) => signerId === previewSigner.signerId)
+          ?.signingLink ?? "",
+      expiresAt: document.expiresAt,
+    });
+
+  const toggleRecipient = (signerId: string, checked: boolean) =>
+    setRecipients((current) =>
+      checked
+        ? [...(current ?? []), signerId]
+        : (current ?? []).filter((id) => id !== signerId),
+    );
+
+  // Puts a placeholder at the cursor, or at the end of the message
+  const insertPlaceholder = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + placeholder + body.slice(end));
+    window.requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(
+        start + placeholder.length,
+        start + placeholder.length,
+      );
+    });
+  };
+
+  const saveTemplate = async () => {
+    if (!templateName?.trim()) return;
+    setIsSavingTemplate(true);
+    try {
+      const template = await createMessageTemplate(
+        { name: templateName.trim(), subject, body },
+        getSignal(),
+      );
+      setData(
+        (current) =>
+          current && {
+            ...current,
+            templates: [...current.templates, template],
+          },
+      );
+      setTemplateId(template.id);
+      setTemplateName(null);
+      toast({ title: "Message template saved", description: template.name });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save the template. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const send = async () => {
+    setIsSending(true);
+    try {
+      const { sent } = await sendSigningEmails(
+        documentId,
+        { signerIds: recipients, subject, body },
+        getSignal(),
+      );
+      toast({
+        title: "Signing link sent",
+        description: `Sent to ${sent.map(({ email }) => email).join(", ")}`,
+      });
+      onClose();
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to send signing link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Send Signing Link</DialogTitle>
+        <DialogDescription>
+          {isOpen
+            ? `Email ${document.name} to its signers. Each recipient gets their own link.`
+            : `This document is ${document.status}; its signing links can't be sent.`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label>Recipients</Label>
+        <div className="space-y-2 rounded-md border p-3">
+          {signers.map((signer) => {
+            const isSigned = signer.status === "completed";
+            const isWaiting =
+              !isSigned &&
+              currentStep !== undefined &&
+              (signer.step ?? 1) > currentStep;
+            return (
+              <label
+                key={signer.signerId}
+                className="flex items-center gap-3 text-sm"
+              >
+                <Checkbox
+                  checked={recipients.includes(signer.signerId)}
+                  onCheckedChange={(checked) =>
+                    toggleRecipient(signer.signerId, checked === true)
+                  }
+                  disabled={isSigned}
+                />
+                <span className="min-w-0 flex-1 truncate">
+                  <span className="font-medium">{signer.signerName}</span>{" "}
+                  <span className="text-gray-500">{signer.signerEmail}</span>
+                </span>
+                <span
+                  className={`text-xs font-medium ${
+                    isSigned
+                      ? "text-green-600"
+                      : isWaiting
+                        ? "text-gray-400"
+                        : "text-yellow-600"
+                  }`}
+                >
+                  {isSigned ? "Signed" : isWaiting ? "Waiting" : "Pending"}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <Tabs defaultValue="compose">
+        <TabsList>
+          <TabsTrigger value="compose">Compose</TabsTrigger>
+          <TabsTrigger value="preview" disabled={!previewValues}>
+            Preview
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="compose" className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select
+              value={templateId}
+              onValueChange={(id) => {
+                const template = templates.find((t) => t.id === id);
+                if (template) applyTemplate(template);
+              }}
+            >
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue placeholder="Start from a message template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {templateName === null ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTemplateName("")}
+                disabled={!subject.trim() || !body.trim()}
+              >
+                <Save className="h-4 w-4 mr-2" /> Save as Template
+              </Button>
+            ) : (
+              <div className="flex gap-2 sm:flex-1">
+                <Input
+                  autoFocus
+                  placeholder="Template name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveTemplate();
+                    if (e.key === "Escape") setTemplateName(null);
+                  }}
+                />
+                <Button
+                  type="button"
+                  onClick={saveTemplate}
+                  disabled={!templateName.trim() || isSavingTemplate}
+                >
+                  {isSavingTemplate ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Save"
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-subject">Subject</Label>
+            <Input
+              id="email-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-body">Message</Label>
+            <Textarea
+              id="email-body"
+              ref={bodyRef}
+              rows={8}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-1">
+              {MESSAGE_PLACEHOLDERS.map(({ key, description }) => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="h-7 font-mono text-xs"
+                  title={description}
+                  onClick={() => insertPlaceholder(key)}
+                >
+                  {`{{${key}}}`}
+                </Button>
+              ))}
+            </div>
+            {unknownPlaceholders.length > 0 && (
+              <p className="text-sm text-amber-600">
+                Unknown placeholders will be sent as typed:{" "}
+                {unknownPlaceholders.map((key) => `{{${key}}}`).join(", ")}
+              </p>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="preview" className="space-y-3">
+          {previewSigner && previewValues && (
+            <>
+              <Select
+                value={previewSigner.signerId}
+                onValueChange={setPreviewSignerId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {signers.map((signer) => (
+                    <SelectItem key={signer.signerId} value={signer.signerId}>
+                      Preview for {signer.signerName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="rounded-md border text-sm">
+                <div className="border-b bg-muted/30 px-4 py-2 space-y-1">
+                  <p>
+                    <span className="text-gray-500">To:</span>{" "}
+                    {previewSigner.signerName} &lt;{previewSigner.signerEmail}
+                    &gt;
+                  </p>
+                  <p>
+                    <span className="text-gray-500">Subject:</span>{" "}
+                    <span className="font-medium">
+                      {renderMessage(subject, previewValues)}
+                    </span>
+                  </p>
+                </div>
+                <p className="whitespace-pre-wrap break-words px-4 py-3">
+                  {renderMessage(body, previewValues)}
+                </p>
+              </div>
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          onClick={send}
+          disabled={
+            !isOpen ||
+            recipients.length === 0 ||
+            !subject.trim() ||
+            !body.trim() ||
+            isSending
+          }
+          className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+        >
+          {isSending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4 mr-2" />
+          )}
+          Send to {recipients.length} signer
+          {recipients.length === 1 ? "" : "s"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+// Emails signing links to a document's signers from an editable message
+// template, with a preview of what each recipient will receive
+const SendSigningEmailDialog: React.FC<SendSigningEmailDialogProps> = ({
+  documentId,
+  signerIds,
+  onClose,
+}) => (
+  <Dialog open={!!documentId} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+      {documentId && (
+        <SendSigningEmailForm
+          documentId={documentId}
+          signerIds={signerIds}
+          onClose={onClose}
+        />
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default SendSigningEmailDialog;
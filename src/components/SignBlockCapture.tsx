@@ -0,0 +1,356 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Camera,
+  Circle,
+  FileSignature,
+  Image as ImageIcon,
+  Loader2,
+  Mic,
+  RotateCcw,
+  Square,
+  Video,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import SignaturePad from "@/components/SignaturePad";
+import { useMediaCapture } from "@/hooks/useMediaCapture";
+import { CaptureOptions, SignBlockValue } from "@/types/template";
+
+// Longest clip a signer can record; keeps uploads to a few megabytes
+const VIDEO_MAX_MS = 15_000;
+const AUDIO_MAX_MS = 30_000;
+
+interface SignBlockCaptureProps {
+  captureOptions: CaptureOptions;
+  value: SignBlockValue;
+  onChange: (value: SignBlockValue) => void;
+  id?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+}
+
+// Object URL for previewing a captured blob, revoked when it changes
+function useObjectUrl(blob: Blob | undefined) {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+}
+
+const formatSeconds = (ms: number) => `${Math.floor(ms / 1000)}s`;
+
+// Shows a live camera stream
+const LivePreview = ({
+  stream,
+  videoRef,
+}: {
+  stream: MediaStream;
+  videoRef: React.RefObject<HTMLVideoElement>;
+}) => {
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream, videoRef]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      muted
+      playsInline
+      className="w-full rounded-md bg-black aspect-video object-cover"
+    />
+  );
+};
+
+interface CaptureSectionProps<T> {
+  value: T | undefined;
+  onChange: (value: T | undefined) => void;
+}
+
+const VideoCapture = ({ value, onChange }: CaptureSectionProps<Blob>) => {
+  const media = useMediaCapture("video", VIDEO_MAX_MS);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const url = useObjectUrl(value);
+
+  const record = async () => {
+    const clip = await media.record();
+    media.release();
+    if (clip) onChange(clip);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value && url ? (
+        <video src={url} controls className="w-full rounded-md bg-black" />
+      ) : media.stream ? (
+        <LivePreview stream={media.stream} videoRef={videoRef} />
+      ) : null}
+      {media.error && <MediaError message={media.error} />}
+      <div className="flex items-center gap-2">
+        {value ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Retake
+          </Button>
+        ) : media.isRecording ? (
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={media.stop}
+          >
+            <Square className="h-4 w-4 mr-1" /> Stop (
+            {formatSeconds(media.elapsedMs)} / {formatSeconds(VIDEO_MAX_MS)})
+          </Button>
+        ) : media.stream ? (
+          <Button type="button" size="sm" onClick={record}>
+            <Circle className="h-4 w-4 mr-1 fill-red-500 text-red-500" />
+            Start recording
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={media.open}
+            disabled={!media.isSupported}
+          >
+            <Camera className="h-4 w-4 mr-1" /> Turn on camera
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AudioCapture = ({ value, onChange }: CaptureSectionProps<Blob>) => {
+  const media = useMediaCapture("audio", AUDIO_MAX_MS);
+  const url = useObjectUrl(value);
+
+  const record = async () => {
+    const statement = await media.record();
+    media.release();
+    if (statement) onChange(statement);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value && url && <audio src={url} controls className="w-full" />}
+      {media.error && <MediaError message={media.error} />}
+      <div className="flex items-center gap-2">
+        {value ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Record again
+          </Button>
+        ) : media.isRecording ? (
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={media.stop}
+          >
+            <Square className="h-4 w-4 mr-1" /> Stop (
+            {formatSeconds(media.elapsedMs)} / {formatSeconds(AUDIO_MAX_MS)})
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={record}
+            disabled={!media.isSupported}
+          >
+            <Mic className="h-4 w-4 mr-1" /> Record statement
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PhotoCapture = ({ value, onChange }: CaptureSectionProps<Blob>) => {
+  const media = useMediaCapture("image");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const url = useObjectUrl(value);
+  const [isTaking, setIsTaking] = useState(false);
+
+  const takePhoto = async () => {
+    if (!videoRef.current) return;
+    setIsTaking(true);
+    const photo = await media.takePhoto(videoRef.current);
+    setIsTaking(false);
+    if (photo) {
+      media.release();
+      onChange(photo);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value && url ? (
+        <img
+          src={url}
+          alt="Selfie"
+          className="w-full rounded-md object-cover aspect-video"
+        />
+      ) : media.stream ? (
+        <LivePreview stream={media.stream} videoRef={videoRef} />
+      ) : null}
+      {media.error && <MediaError message={media.error} />}
+      <div className="flex items-center gap-2">
+        {value ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(undefined)}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Retake
+          </Button>
+        ) : media.stream ? (
+          <Button
+            type="button"
+            size="sm"
+            onClick={takePhoto}
+            disabled={isTaking}
+          >
+            {isTaking ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Camera className="h-4 w-4 mr-1" />
+            )}
+            Take photo
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={media.open}
+            disabled={!media.isSupported}
+          >
+            <Camera className="h-4 w-4 mr-1" /> Turn on camera
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const MediaError = ({ message }: { message: string }) => (
+  <Alert variant="destructive">
+    <AlertDescription className="text-xs">{message}</AlertDescription>
+  </Alert>
+);
+
+const SECTIONS: {
+  key: keyof CaptureOptions;
+  title: string;
+  description: string;
+  icon: React.ReactNode;
+}[] = [
+  {
+    key: "video",
+    title: "Video",
+    description: "Record a short clip confirming that you agree to sign.",
+    icon: <Video className="h-4 w-4 text-blue-500" />,
+  },
+  {
+    key: "audio",
+    title: "Audio statement",
+    description: "Read out your name and that you agree to this document.",
+    icon: <Mic className="h-4 w-4 text-red-500" />,
+  },
+  {
+    key: "image",
+    title: "Selfie",
+    description: "Take a clear photo of your face.",
+    icon: <ImageIcon className="h-4 w-4 text-green-500" />,
+  },
+  {
+    key: "signature",
+    title: "Signature",
+    description: "Draw your signature.",
+    icon: <FileSignature className="h-4 w-4 text-purple-500" />,
+  },
+];
+
+/**
+ * Signer-side SignBlock: captures each enabled media type alongside the drawn
+ * signature. Recordings happen asynchronously, so updates are merged into the
+ * latest value rather than the one the recording started with.
+ */
+const SignBlockCapture = ({
+  captureOptions,
+  value,
+  onChange,
+  ...controlProps
+}: SignBlockCaptureProps) => {
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const update = (patch: SignBlockValue) =>
+    onChange({ ...valueRef.current, ...patch });
+
+  return (
+    <div {...controlProps} className="space-y-3">
+      {SECTIONS.filter(({ key }) => captureOptions[key]).map(
+        ({ key, title, description, icon }) => (
+          <div key={key} className="p-3 border rounded-md bg-gray-50">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {icon} {title}
+              {value?.[key] && (
+                <span className="ml-auto text-xs text-green-600">Captured</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mb-2">{description}</p>
+            {key === "signature" ? (
+              <SignaturePad
+                onChange={(signature) =>
+                  update({ signature: signature || undefined })
+                }
+                value={value?.signature}
+                width={400}
+                height={160}
+              />
+            ) : key === "video" ? (
+              <VideoCapture
+                value={value?.video}
+                onChange={(video) => update({ video })}
+              />
+            ) : key === "audio" ? (
+              <AudioCapture
+                value={value?.audio}
+                onChange={(audio) => update({ audio })}
+              />
+            ) : (
+              <PhotoCapture
+                value={value?.image}
+                onChange={(image) => update({ image })}
+              />
+            )}
+          </div>
+        ),
+      )}
+    </div>
+  );
+};
+
+export default SignBlockCapture;
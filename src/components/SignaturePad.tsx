@@ -1,6 +1,6 @@
 import React, { useRef, useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Eraser, Save } from "lucide-react";
+import { Eraser } from "lucide-react";
 
 interface SignaturePadProps {
   onChange: (signatureDataUrl: string) => void;
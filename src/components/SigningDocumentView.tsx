@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import PdfFieldOverlay, {
+  type OverlayField,
+} from "@/components/PdfFieldOverlay";
+import { usePdfDocument } from "@/hooks/usePdfDocument";
+import { cn } from "@/lib/utils";
+import type { SigningField } from "@/types/template";
+
+interface SigningDocumentViewProps {
+  pdfUrl: string;
+  // The signer's own fields; other signers' fields aren't shown
+  fields: SigningField[];
+  activeFieldId?: string;
+  onFieldSelect: (fieldId: string) => void;
+  renderFieldContent: (field: OverlayField) => React.ReactNode;
+  // Called whenever a page becomes at least half visible
+  onPageViewed: (pageNumber: number) => void;
+  className?: string;
+}
+
+/**
+ * The PDF pages fitted to the available width, with the signer's fields
+ * drawn in place. The active field is scrolled into view when it changes.
+ */
+const SigningDocumentView: React.FC<SigningDocumentViewProps> = ({
+  pdfUrl,
+  fields,
+  activeFieldId,
+  onFieldSelect,
+  renderFieldContent,
+  onPageViewed,
+  className,
+}) => {
+  const { pdf, pageSizes, isLoading } = usePdfDocument(pdfUrl);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width),
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Latest callback without re-observing the pages each render
+  const onPageViewedRef = useRef(onPageViewed);
+  onPageViewedRef.current = onPageViewed;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !pdf || width === 0) return;
+    const observer = new IntersectionObserver(
+      (entries) =>
+        entries
+          .filter(({ isIntersecting }) => isIntersecting)
+          .forEach(({ target }) =>
+            onPageViewedRef.current(
+              Number((target as HTMLElement).dataset.page),
+            ),
+          ),
+      { root: container, threshold: 0.5 },
+    );
+    container
+      .querySelectorAll("[data-page]")
+      .forEach((page) => observer.observe(page));
+    return () => observer.disconnect();
+  }, [pdf, pageSizes, width]);
+
+  useEffect(() => {
+    if (!activeFieldId) return;
+    containerRef.current
+      ?.querySelector(`[data-field-id="${CSS.escape(activeFieldId)}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeFieldId]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "overflow-y-auto rounded-md border bg-gray-100 p-3",
+        className,
+      )}
+    >
+      {pdf && width > 0 ? (
+        <div className="flex flex-col gap-3">
+          {pageSizes.map((size, index) => {
+            // contentRect excludes the container's padding
+            const scale = width / size.width;
+            return (
+              <div key={index} data-page={index + 1}>
+                <PdfFieldOverlay
+                  pdf={pdf}
+                  pageNumber={index + 1}
+                  pageSize={size}
+                  scale={scale}
+                  fields={fields.filter((field) => field.page === index + 1)}
+                  activeFieldId={activeFieldId}
+                  onFieldSelect={onFieldSelect}
+                  renderFieldContent={renderFieldContent}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ) : pdf || isLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="text-center text-gray-500 py-24">
+          <FileText className="h-10 w-10 mx-auto mb-2" />
+          The document PDF couldn't be loaded
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SigningDocumentView;
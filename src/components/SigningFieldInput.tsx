@@ -0,0 +1,207 @@
+import React from "react";
+import { format } from "date-fns";
+import { Calendar } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import SignaturePad from "@/components/SignaturePad";
+import SignBlockCapture from "@/components/SignBlockCapture";
+import { getFieldDefaults } from "@/lib/fieldTypes";
+import {
+  SignBlockValue,
+  SigningField,
+  SigningFieldValue as FieldValue,
+} from "@/types/template";
+
+interface SigningFieldInputProps {
+  field: SigningField;
+  value: FieldValue;
+  onChange: (value: FieldValue) => void;
+  onBlur?: () => void;
+  // Accessibility attributes passed down by FormControl
+  id?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+}
+
+// Signing-time control for each field type in the registry
+const SigningFieldInput = ({
+  field,
+  value,
+  onChange,
+  onBlur,
+  ...controlProps
+}: SigningFieldInputProps) => {
+  switch (field.type) {
+    case "text":
+    case "number":
+    case "email":
+      return (
+        <Input
+          {...controlProps}
+          type={field.type}
+          inputMode={field.type === "number" ? "decimal" : undefined}
+          placeholder={field.placeholder}
+          value={(value as string) ?? ""}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+        />
+      );
+
+    case "autofill":
+      return (
+        <Input
+          {...controlProps}
+          value={(value as string) ?? ""}
+          readOnly
+          className="bg-gray-50 text-gray-700"
+        />
+      );
+
+    case "date":
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              {...controlProps}
+              type="button"
+              variant="outline"
+              className={cn(
+                "w-full pl-3 text-left font-normal",
+                !value && "text-muted-foreground",
+              )}
+            >
+              <div className="flex items-center justify-between w-full">
+                <span>
+                  {value ? format(value as Date, "PPP") : "Select date"}
+                </span>
+                <Calendar className="h-4 w-4 opacity-50" />
+              </div>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <CalendarComponent
+              mode="single"
+              selected={value as Date}
+              onSelect={onChange}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      );
+
+    case "checkbox":
+      return (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            {...controlProps}
+            checked={value as boolean}
+            onCheckedChange={onChange}
+          />
+          <label
+            htmlFor={controlProps.id}
+            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+          >
+            {field.label}
+          </label>
+        </div>
+      );
+
+    case "radio":
+      return (
+        <RadioGroup
+          {...controlProps}
+          value={(value as string) ?? ""}
+          onValueChange={onChange}
+        >
+          {(field.options ?? []).map((option, index) => (
+            <div key={option} className="flex items-center space-x-2">
+              <RadioGroupItem
+                value={option}
+                id={`${field.id}-option-${index}`}
+              />
+              <label
+                htmlFor={`${field.id}-option-${index}`}
+                className="text-sm leading-none"
+              >
+                {option}
+              </label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case "dropdown":
+      return (
+        <Select value={(value as string) || undefined} onValueChange={onChange}>
+          <SelectTrigger {...controlProps}>
+            <SelectValue
+              placeholder={field.placeholder ?? "Select an option"}
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case "initials":
+      return (
+        <div {...controlProps} className="mt-2">
+          <SignaturePad
+            onChange={onChange}
+            value={value as string}
+            width={200}
+            height={100}
+          />
+        </div>
+      );
+
+    case "signblock":
+      return (
+        <SignBlockCapture
+          {...controlProps}
+          captureOptions={
+            field.captureOptions ??
+            getFieldDefaults("signblock").captureOptions!
+          }
+          value={(value as SignBlockValue) ?? {}}
+          onChange={onChange}
+        />
+      );
+
+    case "signature":
+      return (
+        <div {...controlProps} className="mt-2">
+          <SignaturePad
+            onChange={onChange}
+            value={value as string}
+            width={400}
+            height={200}
+          />
+        </div>
+      );
+  }
+};
+
+export default SigningFieldInput;
@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { Copy, ExternalLink, Mail, QrCode as QrIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import QrCode from "@/components/QrCode";
+import SendSigningEmailDialog from "@/components/SendSigningEmailDialog";
+import { SignerSigningLink } from "@/types/template";
+
+interface SigningLinksPanelProps {
+  documentId: string;
+  links: SignerSigningLink[];
+}
+
+// Each signer's link with ways to hand it over: copy, QR code for signing in
+// person, open it here, or email it
+const SigningLinksPanel: React.FC<SigningLinksPanelProps> = ({
+  documentId,
+  links,
+}) => {
+  const [qrLink, setQrLink] = useState<SignerSigningLink | null>(null);
+  const [emailSignerId, setEmailSignerId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const copyLink = async (link: SignerSigningLink) => {
+    try {
+      await navigator.clipboard.writeText(link.signingLink);
+      toast({
+        title: "Link copied",
+        description: `Signing link for ${link.signerName} is on the clipboard`,
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {links.map((link) => (
+        <div key={link.signerId} className="p-4 border rounded-md bg-muted/20">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-2">
+            <div>
+              <p className="font-medium">{link.signerName}</p>
+              <p className="text-sm text-gray-500">{link.signerEmail}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => copyLink(link)}
+              >
+                <Copy className="h-3.5 w-3.5 mr-1" /> Copy
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setQrLink(link)}
+              >
+                <QrIcon className="h-3.5 w-3.5 mr-1" /> QR Code
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  window.open(link.signingLink, "_blank", "noopener")
+                }
+              >
+                <ExternalLink className="h-3.5 w-3.5 mr-1" /> Open as Signer
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setEmailSignerId(link.signerId)}
+                className="text-blue-600 border-blue-200 hover:bg-blue-50"
+              >
+                <Mail className="h-3.5 w-3.5 mr-1" /> Email Link
+              </Button>
+            </div>
+          </div>
+          <Input
+            readOnly
+            value={link.signingLink}
+            onFocus={(e) => e.target.select()}
+            className="font-mono text-xs"
+          />
+        </div>
+      ))}
+
+      <Dialog open={!!qrLink} onOpenChange={(open) => !open && setQrLink(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Sign in person</DialogTitle>
+            <DialogDescription>
+              {qrLink?.signerName} can scan this code with their phone to open
+              their signing link.
+            </DialogDescription>
+          </DialogHeader>
+          {qrLink && (
+            <QrCode value={qrLink.signingLink} size={280} className="mx-auto" />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <SendSigningEmailDialog
+        documentId={emailSignerId ? documentId : null}
+        signerIds={emailSignerId ? [emailSignerId] : undefined}
+        onClose={() => setEmailSignerId(null)}
+      />
+    </div>
+  );
+};
+
+export default SigningLinksPanel;
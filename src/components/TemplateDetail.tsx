@@ -0,0 +1,252 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  Copy,
+  FileText,
+  Loader2,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import DeleteTemplateDialog from "@/components/DeleteTemplateDialog";
+import PdfFieldOverlay from "@/components/PdfFieldOverlay";
+import TemplateStatusBadge from "@/components/TemplateStatusBadge";
+import { getTemplate } from "@/lib/api";
+import { ApiError } from "@/lib/apiClient";
+import { getRoleColor } from "@/lib/signerRoles";
+import {
+  formatTemplateDate,
+  formatValidityWindow,
+} from "@/lib/templateValidity";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { usePdfDocument } from "@/hooks/usePdfDocument";
+import { useTemplateActions } from "@/hooks/useTemplateActions";
+import { Template } from "@/types/template";
+
+// Pages are drawn this wide, in CSS pixels
+const PAGE_WIDTH = 640;
+
+const TemplateDetail = () => {
+  const { templateId } = useParams<{ templateId: string }>();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const navigate = useNavigate();
+  const actions = useTemplateActions();
+  const {
+    data: template,
+    isLoading,
+    error,
+    setData,
+  } = useApiQuery((signal) => getTemplate(templateId!, signal), [templateId]);
+  const {
+    pdf,
+    pageSizes,
+    isLoading: isPdfLoading,
+  } = usePdfDocument(template?.pdfUrl);
+
+  if (isLoading && !template) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!template) {
+    const notFound = error instanceof ApiError && error.status === 404;
+    return (
+      <div className="container mx-auto py-12">
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-red-600">
+              {notFound ? "Template Not Found" : "Couldn't Load Template"}
+            </CardTitle>
+            <CardDescription>
+              {notFound
+                ? "The template may have been deleted."
+                : error?.message}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/templates">Back to Templates</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const fields = template.config?.fields ?? [];
+  const roles = template.config?.signerRoles ?? [];
+  const isArchived = template.status === "archived";
+  const isBusy = actions.pending?.templateId === template.id;
+
+  const handleDuplicate = async () => {
+    const copy = await actions.duplicate(template);
+    if (copy) navigate(`/templates/${copy.id}/edit`);
+  };
+
+  const handleArchiveToggle = async () => {
+    const updated = isArchived
+      ? await actions.restore(template)
+      : await actions.archive(template);
+    if (updated) setData(() => updated);
+  };
+
+  const handleDelete = async (toDelete: Template) => {
+    setIsDeleteDialogOpen(false);
+    if (await actions.remove(toDelete)) navigate("/templates");
+  };
+
+  const details: [string, React.ReactNode][] = [
+    ["Created", formatTemplateDate(template.createdAt) ?? "—"],
+    ["Updated", formatTemplateDate(template.updatedAt) ?? "—"],
+    ["Valid", formatValidityWindow(template)],
+    ["Fields", fields.length],
+    ["Pages", pageSizes.length || "—"],
+  ];
+
+  return (
+    <div className="container mx-auto py-8 bg-white">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/templates">
+          <ArrowLeft className="h-4 w-4 mr-1" /> Templates
+        </Link>
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">{template.name}</h1>
+          <TemplateStatusBadge template={template} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/templates/${template.id}/edit`)}
+          >
+            <Pencil className="h-4 w-4 mr-2" /> Edit
+          </Button>
+          <Button variant="outline" onClick={handleDuplicate} disabled={isBusy}>
+            <Copy className="h-4 w-4 mr-2" /> Duplicate
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleArchiveToggle}
+            disabled={isBusy}
+          >
+            {isArchived ? (
+              <>
+                <ArchiveRestore className="h-4 w-4 mr-2" /> Restore
+              </>
+            ) : (
+              <>
+                <Archive className="h-4 w-4 mr-2" /> Archive
+              </>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            className="text-red-600 border-red-200 hover:bg-red-50"
+            onClick={() => setIsDeleteDialogOpen(true)}
+            disabled={isBusy}
+          >
+            <Trash2 className="h-4 w-4 mr-2" /> Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-8">
+        <div className="flex flex-col items-center gap-6 rounded-lg bg-gray-100 p-6">
+          {pdf ? (
+            pageSizes.map((size, index) => (
+              <PdfFieldOverlay
+                key={index}
+                pdf={pdf}
+                pageNumber={index + 1}
+                pageSize={size}
+                scale={PAGE_WIDTH / size.width}
+                fields={fields.filter((field) => field.page === index + 1)}
+                roles={roles}
+              />
+            ))
+          ) : isPdfLoading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 my-24" />
+          ) : (
+            <div className="text-center text-gray-500 my-24">
+              <FileText className="h-10 w-10 mx-auto mb-2" />
+              The template PDF couldn't be loaded
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                {details.map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd>{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+
+          {roles.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Signer Roles</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {roles.map((role) => (
+                  <div
+                    key={role.id}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: getRoleColor(role) }}
+                      />
+                      {role.name}
+                    </span>
+                    <Badge variant="secondary">
+                      {
+                        fields.filter((field) => field.signerRoleId === role.id)
+                          .length
+                      }{" "}
+                      fields
+                    </Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <DeleteTemplateDialog
+        template={isDeleteDialogOpen ? template : null}
+        onCancel={() => setIsDeleteDialogOpen(false)}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default TemplateDetail;
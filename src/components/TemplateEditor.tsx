@@ -0,0 +1,51 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import TemplateForm from "@/components/TemplateForm";
+import { getTemplate } from "@/lib/api";
+import { useApiQuery } from "@/hooks/useApiQuery";
+
+// /templates/new and /templates/:templateId/edit
+const TemplateEditor = () => {
+  const { templateId } = useParams<{ templateId: string }>();
+  const navigate = useNavigate();
+  const {
+    data: template,
+    isLoading,
+    error,
+  } = useApiQuery(
+    (signal) =>
+      templateId ? getTemplate(templateId, signal) : Promise.resolve(undefined),
+    [templateId],
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white py-8 px-4">
+      <div className="max-w-4xl mx-auto mb-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={templateId ? `/templates/${templateId}` : "/templates"}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Back
+          </Link>
+        </Button>
+      </div>
+      {isLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-red-600">
+          Failed to load template: {error.message}
+        </p>
+      ) : (
+        <TemplateForm
+          // Remount when switching templates so the form picks up new values
+          key={template?.id ?? "new"}
+          template={template}
+          onSaved={(saved) => navigate(`/templates/${saved.id}`)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TemplateEditor;
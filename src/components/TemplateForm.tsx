@@ -1,9 +1,9 @@
-import React, { useState } from "react";
-import { useForm, Controller } from "react-hook-form";
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
-import { Calendar, FileText } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Calendar, FileText, Save } from "lucide-react";
 
 import { Button } from "./ui/button";
 import {
@@ -32,6 +32,15 @@ import FileUploader from "./FileUploader";
 import JsonInputField from "./JsonInputField";
 import PdfEditor from "./PdfEditor";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { formatConfigError, validateConfig } from "@/lib/templateConfig";
+import { createTemplate, updateTemplate } from "@/lib/api";
+import { fetchPdfFile } from "@/lib/pdf";
+import { isAbortError } from "@/lib/apiClient";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { Template } from "@/types/template";
+
+const validateConfigJson = (value: string) =>
+  validateConfig(value).errors.map(formatConfigError);
 
 const formSchema = z
   .object({
@@ -46,17 +55,18 @@ const formSchema = z
     config: z
       .string()
       .min(1, { message: "Config JSON is required" })
-      .refine(
-        (val) => {
-          try {
-            JSON.parse(val);
-            return true;
-          } catch {
-            return false;
-          }
-        },
-        { message: "Config must be valid JSON" },
-      ),
+      .superRefine((val, ctx) => {
+        const { errors } = validateConfig(val);
+        if (errors.length > 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message:
+              errors.length === 1
+                ? formatConfigError(errors[0])
+                : `${formatConfigError(errors[0])} (and ${errors.length - 1} more)`,
+          });
+        }
+      }),
     fabric: z
       .string()
       .min(1, { message: "Fabric JSON is required" })
@@ -79,63 +89,90 @@ const formSchema = z
 
 type FormValues = z.infer<typeof formSchema>;
 
-const TemplateForm = () => {
+interface TemplateFormProps {
+  // Existing template to edit; the form creates a new one without it
+  template?: Template;
+  onSaved?: (template: Template) => void;
+}
+
+const TemplateForm = ({ template, onSaved }: TemplateFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<"details" | "editor">("details");
   const [uploadedPdfFile, setUploadedPdfFile] = useState<File | null>(null);
   const { toast } = useToast();
+  const getSignal = useAbortSignal();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      templateName: "",
-      config: "",
-      fabric: "",
+      templateName: template?.name ?? "",
+      validFrom: template?.validFrom ? parseISO(template.validFrom) : undefined,
+      validTo: template?.validTo ? parseISO(template.validTo) : undefined,
+      config: template?.config ? JSON.stringify(template.config, null, 2) : "",
+      fabric: template?.fabric ?? "",
     },
   });
 
+  // Editing starts from the stored PDF, which is uploaded again on save
+  useEffect(() => {
+    if (!template?.pdfUrl) return;
+    let cancelled = false;
+    fetchPdfFile(template.pdfUrl, `${template.name}.pdf`)
+      .then((file) => {
+        if (cancelled) return;
+        form.setValue("pdfFile", file);
+        setUploadedPdfFile(file);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading template PDF:", error);
+        toast({
+          title: "Couldn't load the template PDF",
+          description: "Upload the PDF again to edit its fields.",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [template?.pdfUrl, template?.name, form, toast]);
+
   const onSubmit = async (data: FormValues) => {
     setIsSubmitting(true);
 
     try {
-      // Convert config and fabric JSON to base64 encoded strings
-      const configBase64 = btoa(data.config);
-      const fabricBase64 = btoa(data.fabric);
-
-      const formData = new FormData();
-      formData.append("templateName", data.templateName);
-      formData.append("validFrom", data.validFrom.toISOString());
-      formData.append("validTo", data.validTo.toISOString());
-      formData.append("pdfFile", data.pdfFile);
-      formData.append("config", configBase64);
-      formData.append("fabric", fabricBase64);
-
-      const response = await fetch(
-        "http://localhost:8081/Template/create-template",
-        {
-          method: "POST",
-          body: formData,
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`Error: ${response.status}`);
-      }
+      // Send the config upgraded to the current schema version
+      const { config } = validateConfig(data.config);
+      const payload = {
+        templateName: data.templateName,
+        validFrom: data.validFrom,
+        validTo: data.validTo,
+        pdfFile: data.pdfFile,
+        config: config!,
+        fabric: data.fabric,
+      };
+      const saved = template
+        ? await updateTemplate(template.id, payload, getSignal())
+        : await createTemplate(payload, getSignal());
 
       toast({
         title: "Success",
-        description: "Template created successfully",
+        description: template
+          ? "Template updated successfully"
+          : "Template created successfully",
         variant: "default",
       });
 
       // Reset form after successful submission
-      form.reset();
+      if (!template) form.reset();
+      onSaved?.(saved);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Submission error:", error);
       toast({
         title: "Error",
         description:
-          error instanceof Error ? error.message : "Failed to create template",
+          error instanceof Error ? error.message : "Failed to save template",
         variant: "destructive",
       });
     } finally {
@@ -161,7 +198,7 @@ const TemplateForm = () => {
       // Automatically switch to editor tab when PDF is uploaded
       setActiveTab("editor");
     } else {
-      form.setValue("pdfFile", null as any);
+      form.resetField("pdfFile");
       setUploadedPdfFile(null);
     }
   };
@@ -169,10 +206,13 @@ const TemplateForm = () => {
   return (
     <Card className="w-full max-w-4xl mx-auto bg-white shadow-lg">
       <CardHeader>
-        <CardTitle className="text-2xl font-bold">Create Template</CardTitle>
+        <CardTitle className="text-2xl font-bold">
+          {template ? "Edit Template" : "Create Template"}
+        </CardTitle>
         <CardDescription>
-          Fill out the form below to create a new template. All fields are
-          required.
+          {template
+            ? "Update the template's details, PDF or fields. Documents already created from it keep their current fields."
+            : "Fill out the form below to create a new template. All fields are required."}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -300,7 +340,7 @@ const TemplateForm = () => {
                 <FormField
                   control={form.control}
                   name="pdfFile"
-                  render={({ field: { onChange, value, ...rest } }) => (
+                  render={({ field: { value } }) => (
                     <FormItem>
                       <FormLabel>PDF Template</FormLabel>
                       <FormControl>
@@ -316,7 +356,7 @@ const TemplateForm = () => {
                         {uploadedPdfFile && (
                           <span className="block mt-2 text-sm text-blue-600">
                             After uploading, switch to the PDF Editor tab to add
-                            signature fields, text fields, and date fields.
+                            signature, text, choice and other fields.
                           </span>
                         )}
                       </FormDescription>
@@ -339,8 +379,13 @@ const TemplateForm = () => {
                           value={field.value}
                           onChange={field.onChange}
                           placeholder="Enter config JSON or upload a file"
+                          validate={validateConfigJson}
                         />
                       </FormControl>
+                      <FormDescription>
+                        Paste the config of an existing template to revise its
+                        fields in the PDF Editor.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -376,7 +421,14 @@ const TemplateForm = () => {
                     {isSubmitting ? (
                       <>
                         <span className="animate-spin mr-2">⏳</span>
-                        Creating Template...
+                        {template
+                          ? "Saving Changes..."
+                          : "Creating Template..."}
+                      </>
+                    ) : template ? (
+                      <>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save Changes
                       </>
                     ) : (
                       <>
@@ -395,6 +447,8 @@ const TemplateForm = () => {
               <PdfEditor
                 pdfFile={uploadedPdfFile}
                 onSave={handlePdfEditorSave}
+                initialConfig={form.watch("config")}
+                initialFabric={form.watch("fabric")}
               />
             </div>
           </TabsContent>
@@ -0,0 +1,342 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  AlertCircle,
+  Archive,
+  ArchiveRestore,
+  Copy,
+  Eye,
+  FileText,
+  Filter,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import DeleteTemplateDialog from "@/components/DeleteTemplateDialog";
+import ListPagination from "@/components/ListPagination";
+import TemplateStatusBadge from "@/components/TemplateStatusBadge";
+import { searchTemplates } from "@/lib/api";
+import {
+  formatTemplateDate,
+  formatValidityWindow,
+} from "@/lib/templateValidity";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useTemplateActions } from "@/hooks/useTemplateActions";
+import { Template, TemplateStatus } from "@/types/template";
+
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_FILTERS: { value: TemplateStatus | null; label: string }[] = [
+  { value: "active", label: "Active" },
+  { value: "archived", label: "Archived" },
+  { value: null, label: "All" },
+];
+
+const TemplateLibrary = () => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<TemplateStatus | null>(
+    "active",
+  );
+  const [page, setPage] = useState(1);
+  const [templateToDelete, setTemplateToDelete] = useState<Template | null>(
+    null,
+  );
+  const navigate = useNavigate();
+  const actions = useTemplateActions();
+
+  // Only ask the server once typing pauses
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data, isLoading, error, reload } = useApiQuery(
+    (signal) =>
+      searchTemplates(
+        {
+          page,
+          pageSize: PAGE_SIZE,
+          search: search || undefined,
+          status: statusFilter ?? undefined,
+        },
+        signal,
+      ),
+    [page, search, statusFilter],
+  );
+  const templates = data?.items ?? [];
+
+  const handleDuplicate = async (template: Template) => {
+    const copy = await actions.duplicate(template);
+    if (copy) navigate(`/templates/${copy.id}/edit`);
+  };
+
+  const handleArchiveToggle = async (template: Template) => {
+    const updated =
+      template.status === "archived"
+        ? await actions.restore(template)
+        : await actions.archive(template);
+    if (updated) reload();
+  };
+
+  const handleDelete = async (template: Template) => {
+    setTemplateToDelete(null);
+    if (!(await actions.remove(template))) return;
+    // Step back if that was the last template on this page
+    if (templates.length === 1 && page > 1) {
+      setPage(page - 1);
+    } else {
+      reload();
+    }
+  };
+
+  const isBusy = (template: Template) =>
+    actions.pending?.templateId === template.id;
+
+  return (
+    <div className="container mx-auto py-8 bg-white">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600">
+            Templates
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Browse, edit and retire the templates documents are created from
+          </p>
+        </div>
+        <Button
+          className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          onClick={() => navigate("/templates/new")}
+        >
+          <Plus className="mr-2 h-4 w-4" /> New Template
+        </Button>
+      </div>
+
+      <Card className="mb-8">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4 justify-between">
+            <div className="relative w-full md:w-1/2">
+              <Search
+                className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400"
+                size={18}
+              />
+              <Input
+                placeholder="Search templates..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Filter size={16} />
+                  Status:{" "}
+                  {
+                    STATUS_FILTERS.find(({ value }) => value === statusFilter)
+                      ?.label
+                  }
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {STATUS_FILTERS.map(({ value, label }) => (
+                  <DropdownMenuItem
+                    key={label}
+                    onClick={() => {
+                      setStatusFilter(value);
+                      setPage(1);
+                    }}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && !data ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-500">Loading templates...</p>
+          </CardContent>
+        </Card>
+      ) : error && !data ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="mx-auto bg-red-50 p-4 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">
+              Couldn't load templates
+            </h3>
+            <p className="text-gray-500 mb-6">{error.message}</p>
+            <Button variant="outline" onClick={reload}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : templates.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <div className="mx-auto bg-gray-100 p-4 rounded-full w-16 h-16 flex items-center justify-center mb-4">
+              <FileText className="h-8 w-8 text-gray-500" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">No templates found</h3>
+            <p className="text-gray-500">
+              {search || statusFilter !== "active"
+                ? "Try adjusting your search or filters"
+                : "Create your first template to get started"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="overflow-hidden rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template Name</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Fields</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">
+                      <Link
+                        to={`/templates/${template.id}`}
+                        className="hover:underline"
+                      >
+                        {template.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {formatTemplateDate(
+                        template.updatedAt ?? template.createdAt,
+                      ) ?? "—"}
+                    </TableCell>
+                    <TableCell>{formatValidityWindow(template)}</TableCell>
+                    <TableCell>{template.config?.fields.length ?? 0}</TableCell>
+                    <TableCell>
+                      <TemplateStatusBadge template={template} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isBusy(template)}
+                            aria-label={`Actions for ${template.name}`}
+                          >
+                            {isBusy(template) ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <MoreHorizontal className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() =>
+                              navigate(`/templates/${template.id}`)
+                            }
+                          >
+                            <Eye className="h-4 w-4 mr-2" /> View
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              navigate(`/templates/${template.id}/edit`)
+                            }
+                          >
+                            <Pencil className="h-4 w-4 mr-2" /> Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => handleDuplicate(template)}
+                          >
+                            <Copy className="h-4 w-4 mr-2" /> Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => handleArchiveToggle(template)}
+                          >
+                            {template.status === "archived" ? (
+                              <>
+                                <ArchiveRestore className="h-4 w-4 mr-2" />{" "}
+                                Restore
+                              </>
+                            ) : (
+                              <>
+                                <Archive className="h-4 w-4 mr-2" /> Archive
+                              </>
+                            )}
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-red-600 focus:text-red-600"
+                            onClick={() => setTemplateToDelete(template)}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" /> Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <ListPagination
+            page={data!.page}
+            pageSize={data!.pageSize}
+            total={data!.total}
+            onPageChange={setPage}
+          />
+        </>
+      )}
+
+      <DeleteTemplateDialog
+        template={templateToDelete}
+        onCancel={() => setTemplateToDelete(null)}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import {
+  formatTemplateDate,
+  formatValidityWindow,
+  isTemplateAvailable,
+} from "@/lib/templateValidity";
+import { Template } from "@/types/template";
+
+interface TemplatePickerProps {
+  templates: Template[];
+  value: string;
+  onChange: (templateId: string) => void;
+  isLoading?: boolean;
+  disabled?: boolean;
+}
+
+// Searchable template combobox. Archived templates and those outside their
+// validity window are left out, since documents can't be created from them.
+const TemplatePicker = React.forwardRef<HTMLButtonElement, TemplatePickerProps>(
+  ({ templates, value, onChange, isLoading, disabled }, ref) => {
+    const [open, setOpen] = useState(false);
+
+    const available = templates.filter((template) =>
+      isTemplateAvailable(template),
+    );
+    const hiddenCount = templates.length - available.length;
+    const selected = available.find((template) => template.id === value);
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled || isLoading}
+            className={cn(
+              "w-full justify-between font-normal",
+              !selected && "text-muted-foreground",
+            )}
+          >
+            {isLoading ? (
+              <span className="flex items-center">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading templates...
+              </span>
+            ) : (
+              (selected?.name ?? "Select a template")
+            )}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-[--radix-popover-trigger-width] p-0"
+          align="start"
+        >
+          <Command>
+            <CommandInput placeholder="Search templates..." />
+            <CommandList>
+              <CommandEmpty>No templates found.</CommandEmpty>
+              <CommandGroup>
+                {available.map((template) => {
+                  const updated = formatTemplateDate(
+                    template.updatedAt ?? template.createdAt,
+                  );
+                  return (
+                    <CommandItem
+                      key={template.id}
+                      // cmdk matches the search against this value
+                      value={`${template.name} ${template.id}`}
+                      onSelect={() => {
+                        onChange(template.id);
+                        setOpen(false);
+                      }}
+                    >
+                      <Check
+                        className={cn(
+                          "mr-2 h-4 w-4",
+                          template.id === value ? "opacity-100" : "opacity-0",
+                        )}
+                      />
+                      <div className="flex flex-col">
+                        <span>{template.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {updated &&
+                            `${template.updatedAt ? "Updated" : "Created"} ${updated} · `}
+                          Valid {formatValidityWindow(template)}
+                        </span>
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            </CommandList>
+            {hiddenCount > 0 && (
+              <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+                {hiddenCount} template{hiddenCount === 1 ? " is" : "s are"}{" "}
+                hidden because {hiddenCount === 1 ? "it is" : "they are"}{" "}
+                archived or outside the validity window.
+              </p>
+            )}
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  },
+);
+TemplatePicker.displayName = "TemplatePicker";
+
+export default TemplatePicker;
@@ -0,0 +1,86 @@
+import React from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import PdfPageCanvas from "@/components/PdfPageCanvas";
+import { usePdfDocument } from "@/hooks/usePdfDocument";
+import { getRoleColor } from "@/lib/signerRoles";
+import {
+  formatTemplateDate,
+  formatValidityWindow,
+} from "@/lib/templateValidity";
+import { Template } from "@/types/template";
+
+const PREVIEW_SCALE = 0.3;
+
+interface TemplatePreviewProps {
+  template: Template;
+}
+
+// First page thumbnail and a summary of what the signers will fill in
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ template }) => {
+  const { pdf, totalPages, isLoading, error } = usePdfDocument(template.pdfUrl);
+  const fieldCount = template.config?.fields.length ?? 0;
+  const roles = template.config?.signerRoles ?? [];
+
+  return (
+    <div className="flex gap-4 rounded-md border bg-muted/20 p-4">
+      <div className="flex h-[240px] w-[184px] shrink-0 items-center justify-center overflow-hidden rounded border bg-white">
+        {pdf ? (
+          <PdfPageCanvas pdf={pdf} pageNumber={1} scale={PREVIEW_SCALE} />
+        ) : isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="px-2 text-center text-xs text-muted-foreground">
+            <FileText className="mx-auto mb-2 h-8 w-8" />
+            {error ? "Preview unavailable" : "No PDF attached"}
+          </div>
+        )}
+      </div>
+      <div className="space-y-2 text-sm">
+        <h4 className="font-medium">{template.name}</h4>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-muted-foreground">
+          <dt>Fields</dt>
+          <dd>{fieldCount}</dd>
+          {totalPages > 0 && (
+            <>
+              <dt>Pages</dt>
+              <dd>{totalPages}</dd>
+            </>
+          )}
+          {template.createdAt && (
+            <>
+              <dt>Created</dt>
+              <dd>{formatTemplateDate(template.createdAt)}</dd>
+            </>
+          )}
+          {template.updatedAt && (
+            <>
+              <dt>Updated</dt>
+              <dd>{formatTemplateDate(template.updatedAt)}</dd>
+            </>
+          )}
+          <dt>Valid</dt>
+          <dd>{formatValidityWindow(template)}</dd>
+        </dl>
+        {roles.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {roles.map((role) => (
+              <Badge
+                key={role.id}
+                variant="outline"
+                style={{
+                  borderColor: getRoleColor(role),
+                  color: getRoleColor(role),
+                }}
+              >
+                {role.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,41 @@
+import React from "react";
+import { AlertCircle, Archive } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { isTemplateAvailable } from "@/lib/templateValidity";
+import { Template } from "@/types/template";
+
+// Archived, outside its validity window, or active
+const TemplateStatusBadge: React.FC<{ template: Template }> = ({
+  template,
+}) => {
+  if (template.status === "archived") {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-gray-50 text-gray-600 border-gray-200"
+      >
+        <Archive className="h-3 w-3 mr-1" /> Archived
+      </Badge>
+    );
+  }
+  if (!isTemplateAvailable(template)) {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-red-50 text-red-700 border-red-200"
+      >
+        <AlertCircle className="h-3 w-3 mr-1" /> Outside validity
+      </Badge>
+    );
+  }
+  return (
+    <Badge
+      variant="outline"
+      className="bg-green-50 text-green-700 border-green-200"
+    >
+      Active
+    </Badge>
+  );
+};
+
+export default TemplateStatusBadge;
@@ -40,7 +40,7 @@ function Home() {
               className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
               asChild
             >
-              <Link to="/documents">Manage Documents</Link>
+              <Link to="/templates">Manage Templates</Link>
             </Button>
           </div>
 
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Hands out AbortSignals that are all aborted when the component unmounts,
+ * so in-flight API calls don't update state of a screen that is gone.
+ */
+export function useAbortSignal() {
+  const controllersRef = useRef(new Set<AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  return useCallback(() => {
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    controller.signal.addEventListener("abort", () =>
+      controllersRef.current.delete(controller),
+    );
+    return controller.signal;
+  }, []);
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState, type DependencyList } from "react";
+import { isAbortError } from "@/lib/apiClient";
+
+interface ApiQueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  isLoading: boolean;
+}
+
+/**
+ * Loads data from the API when `deps` change, cancelling the previous
+ * request and any request still running on unmount. `reload` fetches again
+ * without clearing the current data.
+ */
+export function useApiQuery<T>(
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+) {
+  const [state, setState] = useState<ApiQueryState<T>>({
+    data: undefined,
+    error: null,
+    isLoading: true,
+  });
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState((current) => ({ ...current, error: null, isLoading: true }));
+
+    // A superseded request may still settle, e.g. if the fetcher ignores the
+    // signal; only the latest one may update the state
+    fetcher(controller.signal).then(
+      (data) => {
+        if (controller.signal.aborted) return;
+        setState({ data, error: null, isLoading: false });
+      },
+      (error) => {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        console.error("API request failed:", error);
+        setState((current) => ({ ...current, error, isLoading: false }));
+      },
+    );
+
+    return () => controller.abort();
+    // The caller lists what the fetcher depends on in `deps`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [...deps, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  // Lets screens update the loaded data optimistically after a mutation
+  const setData = useCallback(
+    (update: (data: T | undefined) => T | undefined) =>
+      setState((current) => ({ ...current, data: update(current.data) })),
+    [],
+  );
+
+  return { ...state, reload, setData };
+}
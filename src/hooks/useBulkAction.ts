@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { isAbortError } from "@/lib/apiClient";
+import { DocumentSummary } from "@/types/template";
+
+export type BulkItemStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface BulkItem {
+  document: DocumentSummary;
+  status: BulkItemStatus;
+  // Error for failures, or what the task reported for successes
+  message?: string;
+}
+
+export interface BulkRun {
+  title: string;
+  items: BulkItem[];
+  isRunning: boolean;
+}
+
+/**
+ * Runs a task for each selected document in turn and tracks every outcome
+ * for the progress dialog. One failure doesn't stop the rest; `cancel`
+ * stops before the next document.
+ */
+export function useBulkAction() {
+  const [run, setRun] = useState<BulkRun | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateItem = (index: number, changes: Partial<BulkItem>) =>
+    setRun(
+      (current) =>
+        current && {
+          ...current,
+          items: current.items.map((item, i) =>
+            i === index ? { ...item, ...changes } : item,
+          ),
+        },
+    );
+
+  // Resolves with the documents the task succeeded for. A task may resolve
+  // with a message to show next to its document.
+  const start = async (
+    title: string,
+    documents: DocumentSummary[],
+    task: (
+      document: DocumentSummary,
+      signal: AbortSignal,
+    ) => Promise<string | void>,
+  ) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRun({
+      title,
+      isRunning: true,
+      items: documents.map((document) => ({ document, status: "queued" })),
+    });
+
+    const succeeded: DocumentSummary[] = [];
+    for (let index = 0; index < documents.length; index++) {
+      if (controller.signal.aborted) break;
+      updateItem(index, { status: "running" });
+      try {
+        const message = await task(documents[index], controller.signal);
+        updateItem(index, {
+          status: "succeeded",
+          message: message || undefined,
+        });
+        succeeded.push(documents[index]);
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateItem(index, { status: "queued" });
+          break;
+        }
+        updateItem(index, {
+          status: "failed",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      }
+    }
+
+    setRun((current) => current && { ...current, isRunning: false });
+    return succeeded;
+  };
+
+  return {
+    run,
+    start,
+    cancel: () => controllerRef.current?.abort(),
+    close: () => setRun(null),
+  };
+}
@@ -0,0 +1,172 @@
+import { useCallback, useMemo, useReducer } from "react";
+
+// Oldest entries are dropped once the history grows past this
+const MAX_HISTORY = 100;
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  timestamp: number;
+  // Consecutive commands sharing a key are folded into one entry
+  mergeKey?: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  // Uncommitted state shown while a gesture (e.g. a drag) is in progress
+  draft: T | null;
+}
+
+type HistoryAction<T> =
+  | {
+      type: "apply";
+      label: string;
+      updater: (state: T) => T;
+      mergeKey?: string;
+    }
+  | { type: "preview"; updater: (state: T) => T }
+  | { type: "commit"; label: string }
+  | { type: "cancel" }
+  | { type: "jump"; index: number }
+  | { type: "reset"; state: T; label: string };
+
+const createEntry = <T>(
+  label: string,
+  state: T,
+  mergeKey?: string,
+): HistoryEntry<T> => ({
+  label,
+  state,
+  timestamp: Date.now(),
+  mergeKey,
+});
+
+function push<T>(history: HistoryState<T>, entry: HistoryEntry<T>) {
+  const entries = [...history.entries.slice(0, history.index + 1), entry];
+  const overflow = Math.max(0, entries.length - MAX_HISTORY);
+
+  return {
+    entries: entries.slice(overflow),
+    index: entries.length - 1 - overflow,
+    draft: null,
+  };
+}
+
+function historyReducer<T>(
+  history: HistoryState<T>,
+  action: HistoryAction<T>,
+): HistoryState<T> {
+  const present = history.draft ?? history.entries[history.index].state;
+
+  switch (action.type) {
+    case "apply": {
+      const next = action.updater(present);
+      if (next === present) return history;
+
+      const current = history.entries[history.index];
+      if (
+        action.mergeKey &&
+        history.index > 0 &&
+        current.mergeKey === action.mergeKey
+      ) {
+        const entries = history.entries.slice(0, history.index + 1);
+        entries[history.index] = createEntry(
+          action.label,
+          next,
+          action.mergeKey,
+        );
+        return { entries, index: history.index, draft: null };
+      }
+
+      return push(history, createEntry(action.label, next, action.mergeKey));
+    }
+    case "preview":
+      return { ...history, draft: action.updater(present) };
+    case "commit":
+      if (history.draft === null) return history;
+      if (history.draft === history.entries[history.index].state) {
+        return { ...history, draft: null };
+      }
+      return push(history, createEntry(action.label, history.draft));
+    case "cancel":
+      return { ...history, draft: null };
+    case "jump":
+      if (action.index < 0 || action.index >= history.entries.length) {
+        return history;
+      }
+      return { ...history, index: action.index, draft: null };
+    case "reset":
+      return {
+        entries: [createEntry(action.label, action.state)],
+        index: 0,
+        draft: null,
+      };
+  }
+}
+
+/**
+ * Undoable state. Every change goes through a labelled command so the
+ * history can be listed, stepped through and jumped to. Continuous gestures
+ * call `preview` on every frame and `commit` once at the end so they are
+ * recorded as a single step; keystroke-level edits pass a `mergeKey` instead.
+ */
+export function useHistory<T>(initialState: T, initialLabel = "Initial state") {
+  const [history, dispatch] = useReducer(
+    historyReducer as (
+      history: HistoryState<T>,
+      action: HistoryAction<T>,
+    ) => HistoryState<T>,
+    undefined,
+    () => ({
+      entries: [createEntry(initialLabel, initialState)],
+      index: 0,
+      draft: null,
+    }),
+  );
+
+  const apply = useCallback(
+    (label: string, updater: (state: T) => T, mergeKey?: string) =>
+      dispatch({ type: "apply", label, updater, mergeKey }),
+    [],
+  );
+  const preview = useCallback(
+    (updater: (state: T) => T) => dispatch({ type: "preview", updater }),
+    [],
+  );
+  const commit = useCallback(
+    (label: string) => dispatch({ type: "commit", label }),
+    [],
+  );
+  const cancel = useCallback(() => dispatch({ type: "cancel" }), []);
+  const jumpTo = useCallback(
+    (index: number) => dispatch({ type: "jump", index }),
+    [],
+  );
+  const reset = useCallback(
+    (state: T, label = initialLabel) =>
+      dispatch({ type: "reset", state, label }),
+    [initialLabel],
+  );
+
+  const { entries, index, draft } = history;
+
+  return useMemo(
+    () => ({
+      present: draft ?? entries[index].state,
+      entries,
+      index,
+      canUndo: index > 0,
+      canRedo: index < entries.length - 1,
+      undo: () => jumpTo(index - 1),
+      redo: () => jumpTo(index + 1),
+      apply,
+      preview,
+      commit,
+      cancel,
+      jumpTo,
+      reset,
+    }),
+    [entries, index, draft, apply, preview, commit, cancel, jumpTo, reset],
+  );
+}
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type MediaCaptureKind = "video" | "audio" | "image";
+
+const CONSTRAINTS: Record<MediaCaptureKind, MediaStreamConstraints> = {
+  video: { video: { facingMode: "user" }, audio: true },
+  audio: { audio: true },
+  image: { video: { facingMode: "user" } },
+};
+
+// First container format the browser can record, e.g. Safari lacks webm
+const RECORDING_TYPES: Record<"video" | "audio", string[]> = {
+  video: ["video/webm;codecs=vp9,opus", "video/webm", "video/mp4"],
+  audio: ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"],
+};
+
+const pickMimeType = (kind: "video" | "audio") =>
+  RECORDING_TYPES[kind].find((type) => MediaRecorder.isTypeSupported(type));
+
+const describeMediaError = (error: unknown) => {
+  if (error instanceof DOMException) {
+    if (error.name === "NotAllowedError") {
+      return "Permission was denied. Allow access in your browser settings and try again.";
+    }
+    if (error.name === "NotFoundError") {
+      return "No suitable camera or microphone was found on this device.";
+    }
+    if (error.name === "NotReadableError") {
+      return "The camera or microphone is already in use by another application.";
+    }
+  }
+  return error instanceof Error ? error.message : "Unable to access media";
+};
+
+/**
+ * Camera/microphone access for one kind of capture. The stream is opened on
+ * demand and released on `release` or unmount so the device light doesn't
+ * stay on; recordings stop by themselves after `maxDurationMs`.
+ */
+export function useMediaCapture(kind: MediaCaptureKind, maxDurationMs = 0) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const isSupported =
+    typeof navigator !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    (kind === "image" || typeof MediaRecorder !== "undefined");
+
+  const release = useCallback(() => {
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  }, []);
+
+  const open = useCallback(async () => {
+    if (streamRef.current) return streamRef.current;
+    if (!isSupported) {
+      setError("This browser does not support camera or microphone capture.");
+      return null;
+    }
+
+    try {
+      const opened = await navigator.mediaDevices.getUserMedia(
+        CONSTRAINTS[kind],
+      );
+      streamRef.current = opened;
+      setStream(opened);
+      setError(null);
+      return opened;
+    } catch (err) {
+      setError(describeMediaError(err));
+      return null;
+    }
+  }, [kind, isSupported]);
+
+  // Resolves with the recording once it is stopped, by `stop` or the time limit
+  const record = useCallback(async (): Promise<Blob | null> => {
+    if (kind === "image") return null;
+    const active = await open();
+    if (!active) return null;
+
+    const mimeType = pickMimeType(kind);
+    const recorder = new MediaRecorder(
+      active,
+      mimeType ? { mimeType } : undefined,
+    );
+    recorderRef.current = recorder;
+    const chunks: Blob[] = [];
+
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const timer = window.setInterval(() => {
+        const elapsed = Date.now() - startedAt;
+        setElapsedMs(elapsed);
+        if (maxDurationMs > 0 && elapsed >= maxDurationMs) recorder.stop();
+      }, 200);
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        window.clearInterval(timer);
+        setIsRecording(false);
+        recorderRef.current = null;
+        resolve(
+          chunks.length > 0
+            ? new Blob(chunks, { type: recorder.mimeType || mimeType })
+            : null,
+        );
+      };
+
+      setElapsedMs(0);
+      setIsRecording(true);
+      recorder.start();
+    });
+  }, [kind, open, maxDurationMs]);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  // Grabs the current camera frame as a JPEG
+  const takePhoto = useCallback(
+    async (video: HTMLVideoElement): Promise<Blob | null> => {
+      if (!video.videoWidth) return null;
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext("2d")?.drawImage(video, 0, 0);
+      return new Promise((resolve) =>
+        canvas.toBlob(resolve, "image/jpeg", 0.9),
+      );
+    },
+    [],
+  );
+
+  useEffect(() => release, [release]);
+
+  return {
+    stream,
+    isSupported,
+    isRecording,
+    elapsedMs,
+    error,
+    open,
+    release,
+    record,
+    stop,
+    takePhoto,
+  };
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import {
+  getPageSizes,
+  loadPdf,
+  type PdfDocument,
+  type PdfLoadingTask,
+  type PdfPageSize,
+  type PdfSource,
+} from "@/lib/pdf";
+
+interface PdfDocumentState {
+  pdf: PdfDocument | null;
+  pageSizes: PdfPageSize[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: PdfDocumentState = {
+  pdf: null,
+  pageSizes: [],
+  isLoading: false,
+  error: null,
+};
+
+export function usePdfDocument(source: PdfSource | null | undefined) {
+  const [state, setState] = useState<PdfDocumentState>(initialState);
+
+  useEffect(() => {
+    if (!source) {
+      setState(initialState);
+      return;
+    }
+
+    let cancelled = false;
+    let loadingTask: PdfLoadingTask | null = null;
+    setState({ ...initialState, isLoading: true });
+
+    const load = async () => {
+      try {
+        const task = await loadPdf(source);
+        // Reading a Blob source is async, so this may already be cleaned up
+        if (cancelled) {
+          task.destroy();
+          return;
+        }
+        loadingTask = task;
+        const pdf = await task.promise;
+        const pageSizes = await getPageSizes(pdf);
+        if (cancelled) return;
+        setState({ pdf, pageSizes, isLoading: false, error: null });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error loading PDF:", error);
+        setState({
+          ...initialState,
+          error:
+            error instanceof Error ? error.message : "Failed to load the PDF",
+        });
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      // Also covers a document that is still loading
+      loadingTask?.destroy();
+    };
+  }, [source]);
+
+  return { ...state, totalPages: state.pageSizes.length };
+}
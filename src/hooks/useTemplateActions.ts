@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  archiveTemplate,
+  deleteTemplate,
+  duplicateTemplate,
+  restoreTemplate,
+} from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import { useAbortSignal } from "@/hooks/useAbortSignal";
+import { Template } from "@/types/template";
+
+type TemplateAction = "duplicate" | "archive" | "restore" | "delete";
+
+/**
+ * Library actions shared by the template list and detail screens. Each one
+ * toasts its outcome and resolves with the server's result, or undefined if
+ * it failed.
+ */
+export function useTemplateActions() {
+  const [pending, setPending] = useState<{
+    templateId: string;
+    action: TemplateAction;
+  } | null>(null);
+  const { toast } = useToast();
+  const getSignal = useAbortSignal();
+
+  const run = async <T>(
+    template: Template,
+    action: TemplateAction,
+    request: (templateId: string, signal: AbortSignal) => Promise<T>,
+    success: string,
+  ): Promise<T | undefined> => {
+    setPending({ templateId: template.id, action });
+    try {
+      const result = await request(template.id, getSignal());
+      toast({ title: success, description: template.name });
+      return result;
+    } catch (error) {
+      if (isAbortError(error)) return undefined;
+      toast({
+        title: `Failed to ${action} template`,
+        description:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+      return undefined;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return {
+    pending,
+    duplicate: (template: Template) =>
+      run(template, "duplicate", duplicateTemplate, "Template duplicated"),
+    archive: (template: Template) =>
+      run(template, "archive", archiveTemplate, "Template archived"),
+    restore: (template: Template) =>
+      run(template, "restore", restoreTemplate, "Template restored"),
+    // Resolves true once the template is gone
+    remove: async (template: Template) =>
+      (await run(
+        template,
+        "delete",
+        (id, signal) => deleteTemplate(id, signal).then(() => true),
+        "Template deleted",
+      )) ?? false,
+  };
+}
@@ -0,0 +1,299 @@
+import { apiRequest } from "@/lib/apiClient";
+import { formatDocumentSort } from "@/lib/documentQuery";
+import type {
+  AuditEvent,
+  DeclineSigningPayload,
+  Document,
+  DocumentCreationPayload,
+  DocumentCreationResponse,
+  DocumentQuery,
+  DocumentSummary,
+  MessageTemplate,
+  MessageTemplatePayload,
+  Paginated,
+  ReassignSigningPayload,
+  ReminderResponse,
+  SignerActivity,
+  SignerAssignment,
+  SignerSigningLink,
+  SigningEmailPayload,
+  SigningEmailResponse,
+  Template,
+  TemplateCreationPayload,
+  TemplateQuery,
+} from "@/types/template";
+
+// Typed calls to the signing backend. Every function takes an optional
+// AbortSignal so screens can cancel requests when they unmount.
+
+// Templates
+
+const templatePath = (templateId: string) =>
+  `/Template/${encodeURIComponent(templateId)}`;
+
+export const listTemplates = (signal?: AbortSignal) =>
+  apiRequest<Template[]>("/Template/templates", { signal });
+
+export const getTemplate = (templateId: string, signal?: AbortSignal) =>
+  apiRequest<Template>(templatePath(templateId), { signal });
+
+export const searchTemplates = (query: TemplateQuery, signal?: AbortSignal) =>
+  apiRequest<Paginated<Template>>("/Template/templates/search", {
+    query: { ...query },
+    signal,
+  });
+
+// The backend expects config and fabric JSON base64 encoded
+function toTemplateFormData(payload: TemplateCreationPayload) {
+  const formData = new FormData();
+  formData.append("templateName", payload.templateName);
+  formData.append("validFrom", payload.validFrom.toISOString());
+  formData.append("validTo", payload.validTo.toISOString());
+  formData.append("pdfFile", payload.pdfFile);
+  formData.append("config", btoa(JSON.stringify(payload.config)));
+  formData.append("fabric", btoa(payload.fabric));
+  return formData;
+}
+
+export const createTemplate = (
+  payload: TemplateCreationPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<Template>("/Template/create-template", {
+    method: "POST",
+    body: toTemplateFormData(payload),
+    signal,
+  });
+
+export const updateTemplate = (
+  templateId: string,
+  payload: TemplateCreationPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<Template>(templatePath(templateId), {
+    method: "PUT",
+    body: toTemplateFormData(payload),
+    signal,
+  });
+
+export const duplicateTemplate = (templateId: string, signal?: AbortSignal) =>
+  apiRequest<Template>(`${templatePath(templateId)}/duplicate`, {
+    method: "POST",
+    signal,
+  });
+
+export const archiveTemplate = (templateId: string, signal?: AbortSignal) =>
+  apiRequest<Template>(`${templatePath(templateId)}/archive`, {
+    method: "POST",
+    signal,
+  });
+
+export const restoreTemplate = (templateId: string, signal?: AbortSignal) =>
+  apiRequest<Template>(`${templatePath(templateId)}/restore`, {
+    method: "POST",
+    signal,
+  });
+
+export const deleteTemplate = (templateId: string, signal?: AbortSignal) =>
+  apiRequest<void>(templatePath(templateId), { method: "DELETE", signal });
+
+// Documents
+
+const ALL_DOCUMENTS_PAGE_SIZE = 100;
+
+export const listDocuments = (query: DocumentQuery, signal?: AbortSignal) =>
+  apiRequest<Paginated<DocumentSummary>>("/api/documents", {
+    query: {
+      page: query.page,
+      pageSize: query.pageSize,
+      q: query.q,
+      status: query.status?.join(","),
+      createdFrom: query.createdFrom,
+      createdTo: query.createdTo,
+      sort: formatDocumentSort(query),
+    },
+    signal,
+  });
+
+// Every document matching `query`, fetched page by page, for bulk actions
+export async function listAllDocuments(
+  query: DocumentQuery,
+  signal?: AbortSignal,
+) {
+  const documents: DocumentSummary[] = [];
+  for (let page = 1; ; page++) {
+    const result = await listDocuments(
+      { ...query, page, pageSize: ALL_DOCUMENTS_PAGE_SIZE },
+      signal,
+    );
+    documents.push(...result.items);
+    if (result.items.length === 0 || documents.length >= result.total) {
+      return documents;
+    }
+  }
+}
+
+export const getDocument = (documentId: string, signal?: AbortSignal) =>
+  apiRequest<Document>(`/api/documents/${encodeURIComponent(documentId)}`, {
+    signal,
+  });
+
+export const createDocument = (
+  payload: DocumentCreationPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<DocumentCreationResponse>("/api/documents", {
+    method: "POST",
+    body: payload,
+    signal,
+  });
+
+export const getAuditTrail = (documentId: string, signal?: AbortSignal) =>
+  apiRequest<AuditEvent[]>(
+    `/api/documents/${encodeURIComponent(documentId)}/audit-trail`,
+    { signal },
+  );
+
+// Reminds the signers whose turn it is
+export const remindSigners = (documentId: string, signal?: AbortSignal) =>
+  apiRequest<ReminderResponse>(
+    `/api/documents/${encodeURIComponent(documentId)}/remind`,
+    { method: "POST", signal },
+  );
+
+// Cancels a document so its signing links stop working
+export const voidDocument = (
+  documentId: string,
+  reason: string | undefined,
+  signal?: AbortSignal,
+) =>
+  apiRequest<Document>(
+    `/api/documents/${encodeURIComponent(documentId)}/void`,
+    { method: "POST", body: { reason }, signal },
+  );
+
+export const updateDocumentExpiry = (
+  documentId: string,
+  expiresAt: Date,
+  signal?: AbortSignal,
+) =>
+  apiRequest<Document>(
+    `/api/documents/${encodeURIComponent(documentId)}/expiry`,
+    { method: "PUT", body: { expiresAt: expiresAt.toISOString() }, signal },
+  );
+
+// Signers
+
+const signerPath = (documentId: string, signerId: string) =>
+  `/api/documents/${encodeURIComponent(documentId)}/signers/${encodeURIComponent(signerId)}`;
+
+export const listDocumentSigners = (documentId: string, signal?: AbortSignal) =>
+  apiRequest<SignerAssignment[]>(
+    `/api/documents/${encodeURIComponent(documentId)}/signers`,
+    { signal },
+  );
+
+export const getSignerAssignment = (
+  documentId: string,
+  signerId: string,
+  signal?: AbortSignal,
+) => apiRequest<SignerAssignment>(signerPath(documentId, signerId), { signal });
+
+// Links are kept by the backend, so they can be shown again after creation
+export const listSigningLinks = (documentId: string, signal?: AbortSignal) =>
+  apiRequest<SignerSigningLink[]>(
+    `/api/documents/${encodeURIComponent(documentId)}/signing-links`,
+    { signal },
+  );
+
+// The backend fills in the placeholders per signer and delivers through its
+// SMTP server; point it at a local sink such as Mailpit during development
+export const sendSigningEmails = (
+  documentId: string,
+  payload: SigningEmailPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<SigningEmailResponse>(
+    `/api/documents/${encodeURIComponent(documentId)}/signing-links/email`,
+    { method: "POST", body: payload, signal },
+  );
+
+// Message templates
+
+export const listMessageTemplates = (signal?: AbortSignal) =>
+  apiRequest<MessageTemplate[]>("/api/message-templates", { signal });
+
+export const createMessageTemplate = (
+  payload: MessageTemplatePayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<MessageTemplate>("/api/message-templates", {
+    method: "POST",
+    body: payload,
+    signal,
+  });
+
+// Reports what a signer did on the signing screen for the audit trail
+export const recordSignerActivity = (
+  documentId: string,
+  signerId: string,
+  activity: SignerActivity,
+  signal?: AbortSignal,
+) =>
+  apiRequest<void>(`${signerPath(documentId, signerId)}/activity`, {
+    method: "POST",
+    body: activity,
+    signal,
+  });
+
+// Lets a signer whose link expired ask the sender for a new one
+export const requestNewSigningLink = (
+  documentId: string,
+  signerId: string,
+  signal?: AbortSignal,
+) =>
+  apiRequest<void>(`${signerPath(documentId, signerId)}/link-request`, {
+    method: "POST",
+    signal,
+  });
+
+// Declining closes the whole document; the sender is notified
+export const declineSigning = (
+  documentId: string,
+  signerId: string,
+  payload: DeclineSigningPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<SignerAssignment>(`${signerPath(documentId, signerId)}/decline`, {
+    method: "POST",
+    body: payload,
+    signal,
+  });
+
+// Resolves to the new signer's assignment, who is emailed their own link
+export const reassignSigning = (
+  documentId: string,
+  signerId: string,
+  payload: ReassignSigningPayload,
+  signal?: AbortSignal,
+) =>
+  apiRequest<SignerAssignment>(`${signerPath(documentId, signerId)}/reassign`, {
+    method: "POST",
+    body: payload,
+    signal,
+  });
+
+// Signing submissions
+
+// `submission` is the multipart body built by buildSigningSubmission
+export const submitSigning = (
+  documentId: string,
+  signerId: string,
+  submission: FormData,
+  signal?: AbortSignal,
+) =>
+  apiRequest<SignerAssignment>(
+    `${signerPath(documentId, signerId)}/submission`,
+    // Media uploads can be large
+    { method: "POST", body: submission, signal, timeoutMs: 120_000 },
+  );
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError, apiRequest, isAbortError } from "@/lib/apiClient";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("window", {
+    location: { origin: "http://localhost" },
+    setTimeout,
+    clearTimeout,
+  });
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  fetchMock.mockReset();
+});
+
+// A response whose body fails to read with `error`
+const failingBody = (error: unknown) =>
+  ({
+    ok: true,
+    status: 200,
+    text: () => Promise.reject(error),
+  }) as Response;
+
+describe("apiRequest", () => {
+  it("parses a JSON body", async () => {
+    fetchMock.mockResolvedValue(new Response('{"id":1}', { status: 200 }));
+    await expect(apiRequest("/things/1")).resolves.toEqual({ id: 1 });
+  });
+
+  it("rejects an already aborted signal without sending", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const request = apiRequest("/things", { signal: controller.signal });
+    await expect(request).rejects.toSatisfy(isAbortError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("reports an abort while reading the body as cancelled", async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async () => {
+      controller.abort();
+      return failingBody(new DOMException("Aborted", "AbortError"));
+    });
+    await expect(
+      apiRequest("/things", { signal: controller.signal }),
+    ).rejects.toSatisfy(isAbortError);
+  });
+
+  it("wraps a failure while reading the body in an ApiError", async () => {
+    const cause = new TypeError("network error");
+    fetchMock.mockResolvedValue(failingBody(cause));
+    const error = await apiRequest("/things", { retries: 0 }).catch(
+      (error: unknown) => error,
+    );
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: "network", details: cause });
+  });
+
+  it("stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async () => {
+      controller.abort();
+      return new Response("", { status: 503 });
+    });
+    await expect(
+      apiRequest("/things", { signal: controller.signal }),
+    ).rejects.toSatisfy(isAbortError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("turns an error status into an http ApiError with the server's message", async () => {
+    fetchMock.mockResolvedValue(
+      new Response('{"message":"Template not found"}', { status: 404 }),
+    );
+    await expect(apiRequest("/templates/x")).rejects.toMatchObject({
+      kind: "http",
+      status: 404,
+      message: "Template not found",
+    });
+  });
+});
@@ -0,0 +1,211 @@
+// Backend location and request behaviour come from the Vite env, e.g.
+// VITE_API_BASE_URL=https://sign.example.com in .env.local
+export const API_BASE_URL = (
+  import.meta.env.VITE_API_BASE_URL || "http://localhost:8081"
+).replace(/\/+$/, "");
+const API_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS) || 15_000;
+
+// Methods that are safe to send twice
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+const RETRY_BASE_DELAY_MS = 300;
+
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type ApiErrorKind =
+  | "http" // The server answered with an error status
+  | "network" // The server could not be reached
+  | "timeout"
+  | "aborted" // Cancelled by the caller, e.g. the component unmounted
+  | "parse"; // The response body was not what we expected
+
+/**
+ * Every failed request rejects with an ApiError, whatever went wrong, so
+ * screens can show `message` and branch on `kind`/`status`.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly status?: number,
+    // Parsed error body, when the server sent one
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof ApiError && error.kind === "aborted";
+
+let getAuthToken: () => string | null | undefined = () => null;
+
+// Called before every request; return a bearer token to send, if any
+export function setAuthTokenProvider(
+  provider: () => string | null | undefined,
+) {
+  getAuthToken = provider;
+}
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  // JSON-serialised unless it is FormData
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Defaults to 2 for idempotent methods and 0 otherwise
+  retries?: number;
+  headers?: Record<string, string>;
+}
+
+export function buildUrl(path: string, query?: RequestOptions["query"]) {
+  const url = new URL(`${API_BASE_URL}${path}`, window.location.origin);
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  });
+  return url.toString();
+}
+
+const cancelledError = () => new ApiError("Request was cancelled", "aborted");
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const abort = () => {
+      window.clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+
+// Anything thrown that isn't already an ApiError, e.g. a TypeError from
+// fetch, becomes one
+const toApiError = (error: unknown, signal?: AbortSignal) => {
+  if (error instanceof ApiError) return error;
+  if (signal?.aborted) return cancelledError();
+  return new ApiError(
+    "Unable to reach the server. Check your connection and try again.",
+    "network",
+    undefined,
+    error,
+  );
+};
+
+function parseErrorBody(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text || undefined;
+  }
+}
+
+const errorMessage = (status: number, details: unknown) => {
+  if (details && typeof details === "object" && "message" in details) {
+    return String(details.message);
+  }
+  if (typeof details === "string" && details.length < 200) return details;
+  return `Request failed with status ${status}`;
+};
+
+// One attempt, with its own timeout chained to the caller's signal. The body
+// is read within the attempt, so the timeout and signal cover it too.
+async function send(url: string, init: RequestInit, options: RequestOptions) {
+  if (options.signal?.aborted) throw cancelledError();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs ?? API_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  options.signal?.addEventListener("abort", abort);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return { response, text: await response.text() };
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError("The server took too long to respond", "timeout");
+    }
+    throw toApiError(error, options.signal);
+  } finally {
+    window.clearTimeout(timer);
+    options.signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Sends a request to the backend and resolves with the parsed JSON body (or
+ * undefined for empty responses). Idempotent requests are retried with
+ * exponential backoff on network errors, timeouts and temporary server
+ * errors.
+ */
+export async function apiRequest<T>(
+  path: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  const method = options.method ?? "GET";
+  const retries = options.retries ?? (IDEMPOTENT_METHODS.has(method) ? 2 : 0);
+
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    ...options.headers,
+  };
+  const token = getAuthToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let body: BodyInit | undefined;
+  if (options.body instanceof FormData) {
+    body = options.body;
+  } else if (options.body !== undefined) {
+    body = JSON.stringify(options.body);
+    headers["Content-Type"] = "application/json";
+  }
+
+  const url = buildUrl(path, options.query);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { response, text } = await send(
+        url,
+        { method, headers, body },
+        options,
+      );
+
+      if (!response.ok) {
+        const details = parseErrorBody(text);
+        throw new ApiError(
+          errorMessage(response.status, details),
+          "http",
+          response.status,
+          details,
+        );
+      }
+
+      if (response.status === 204 || !text) return undefined as T;
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        throw new ApiError("The server sent an invalid response", "parse");
+      }
+    } catch (error) {
+      const apiError = toApiError(error, options.signal);
+      const retryable =
+        apiError.kind === "network" ||
+        apiError.kind === "timeout" ||
+        (apiError.kind === "http" && RETRYABLE_STATUSES.has(apiError.status!));
+      if (!retryable || attempt >= retries) throw apiError;
+
+      await delay(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import JSZip from "jszip";
+import { JSDOM } from "jsdom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TEST_SIGNING_IDENTITY } from "@/mocks/signingIdentity";
+import {
+  ASIC_E_MIME_TYPE,
+  buildAsicContainer,
+  verifyAsicContainer,
+  type ContainerFile,
+} from "@/lib/asice";
+
+beforeEach(() => {
+  vi.stubGlobal("DOMParser", new JSDOM().window.DOMParser);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const SIGNATURE_FILE = "META-INF/signatures0.xml";
+const signedAt = new Date("2027-01-15T10:30:00Z");
+
+const files: ContainerFile[] = [
+  {
+    name: "signed.pdf",
+    data: new Blob(["%PDF-1.7 signed"], { type: "application/pdf" }),
+    mimeType: "application/pdf",
+  },
+  {
+    name: "fields.json",
+    data: new TextEncoder().encode('{"name":"Jane Doe"}'),
+    mimeType: "application/json",
+  },
+  {
+    name: "media/field 3.video.webm",
+    data: new Uint8Array([1, 2, 3]),
+    mimeType: "video/webm",
+  },
+];
+
+// The container with `change` applied to its entries, rezipped with the
+// mimetype entry first and stored as the format requires
+async function tamper(container: Blob, change: (zip: JSZip) => Promise<void>) {
+  const zip = await JSZip.loadAsync(await container.arrayBuffer());
+  await change(zip);
+  zip.file("mimetype", ASIC_E_MIME_TYPE, { compression: "STORE" });
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+// Replaces `pattern` in the signature XML
+const editSignature =
+  (pattern: RegExp, replacement: string) => async (zip: JSZip) => {
+    const xml = await zip.file(SIGNATURE_FILE)!.async("string");
+    expect(xml).toMatch(pattern);
+    zip.file(SIGNATURE_FILE, xml.replace(pattern, replacement));
+  };
+
+describe("ASiC-E containers", () => {
+  it("verifies a container it built", async () => {
+    const container = await buildAsicContainer(
+      files,
+      TEST_SIGNING_IDENTITY,
+      signedAt,
+    );
+    expect(container.type).toBe(ASIC_E_MIME_TYPE);
+
+    const report = await verifyAsicContainer(container);
+    expect(report).toEqual({
+      files: files.map(({ name }) => name),
+      unsignedFiles: [],
+      problems: [],
+      signatures: [
+        {
+          file: SIGNATURE_FILE,
+          signatureId: "S0",
+          signerName: "SelfieSign Test Signer",
+          signingTime: signedAt,
+          signedFiles: files.map(({ name }) => name),
+          valid: true,
+          problems: [],
+        },
+      ],
+    });
+  });
+
+  it("detects a data file changed after signing", async () => {
+    const container = await buildAsicContainer(files, TEST_SIGNING_IDENTITY);
+    const report = await verifyAsicContainer(
+      await tamper(container, async (zip) => {
+        zip.file("fields.json", '{"name":"John Doe"}');
+      }),
+    );
+
+    const [signature] = report.signatures;
+    expect(signature.valid).toBe(false);
+    expect(signature.problems).toEqual([
+      "fields.json has been modified since it was signed",
+    ]);
+    expect(report.unsignedFiles).toEqual(files.map(({ name }) => name));
+  });
+
+  it("detects changed SignedProperties", async () => {
+    const container = await buildAsicContainer(
+      files,
+      TEST_SIGNING_IDENTITY,
+      signedAt,
+    );
+    const report = await verifyAsicContainer(
+      await tamper(
+        container,
+        editSignature(/2027-01-15T10:30:00Z/, "2027-01-14T10:30:00Z"),
+      ),
+    );
+
+    const [signature] = report.signatures;
+    expect(signature.valid).toBe(false);
+    expect(signature.problems).toEqual([
+      "#S0-SignedProperties has been modified since it was signed",
+    ]);
+  });
+
+  it("rejects a signature value that isn't the signer's", async () => {
+    const container = await buildAsicContainer(files, TEST_SIGNING_IDENTITY);
+    const report = await verifyAsicContainer(
+      await tamper(
+        container,
+        editSignature(
+          /(<ds:SignatureValue[^>]*>)[^<]+/,
+          `$1${btoa("x".repeat(64))}`,
+        ),
+      ),
+    );
+    expect(report.signatures[0].problems).toEqual([
+      "The signature value doesn't match the signed content",
+    ]);
+  });
+
+  it("reports bad base64 in SignatureValue instead of failing", async () => {
+    const container = await buildAsicContainer(files, TEST_SIGNING_IDENTITY);
+    const report = await verifyAsicContainer(
+      await tamper(
+        container,
+        editSignature(/(<ds:SignatureValue[^>]*>)[^<]+/, "$1not*base64!"),
+      ),
+    );
+    expect(report.signatures[0]).toMatchObject({
+      valid: false,
+      problems: ["The signature value or the certificate's key is unreadable"],
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import JSZip from "jszip";
+import { EXCLUSIVE_C14N, canonicalize } from "@/lib/xmlCanonicalization";
+import {
+  fromBase64,
+  importPrivateKey,
+  importPublicKey,
+  parseCertificate,
+  pemToDer,
+  signatureParams,
+  toBase64,
+  type Certificate,
+  type SigningAlgorithm,
+} from "@/lib/x509";
+import type { SigningIdentity } from "@/types/template";
+
+export const ASIC_E_MIME_TYPE = "application/vnd.etsi.asic-e+zip";
+
+const ASIC_NAMESPACE = "http://uri.etsi.org/02918/v1.2.1#";
+const DSIG_NAMESPACE = "http://www.w3.org/2000/09/xmldsig#";
+const XADES_NAMESPACE = "http://uri.etsi.org/01903/v1.3.2#";
+const MANIFEST_NAMESPACE = "urn:oasis:names:tc:opendocument:xmlns:manifest:1.0";
+const SHA256 = "http://www.w3.org/2001/04/xmlenc#sha256";
+const SIGNED_PROPERTIES_TYPE = "http://uri.etsi.org/01903#SignedProperties";
+
+const SIGNATURE_METHODS: Record<SigningAlgorithm["name"], string> = {
+  ECDSA: "http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256",
+  "RSASSA-PKCS1-v1_5": "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256",
+};
+
+const MANIFEST_PATH = "META-INF/manifest.xml";
+const SIGNATURE_FILE = /^META-INF\/[^/]*signatures[^/]*\.xml$/;
+
+// A data object to sign, at its path inside the container
+export interface ContainerFile {
+  name: string;
+  data: Blob | Uint8Array;
+  mimeType: string;
+}
+
+export interface SignatureReport {
+  // e.g. "META-INF/signatures0.xml"
+  file: string;
+  signatureId: string;
+  signerName?: string;
+  signingTime?: Date;
+  signedFiles: string[];
+  valid: boolean;
+  // Why the signature isn't valid; empty when it is
+  problems: string[];
+}
+
+export interface ContainerReport {
+  files: string[];
+  // Data files that no valid signature covers
+  unsignedFiles: string[];
+  signatures: SignatureReport[];
+  // Problems with the container itself rather than a signature
+  problems: string[];
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const encodeUtf8 = (text: string) => new TextEncoder().encode(text);
+
+// A path inside the container as a Reference URI
+const toUri = (name: string) =>
+  name.split("/").map(encodeURIComponent).join("/");
+
+async function sha256Base64(data: Uint8Array) {
+  return toBase64(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+const toBytes = async (data: Blob | Uint8Array) =>
+  data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+
+const parseXml = (xml: string) =>
+  new DOMParser().parseFromString(xml, "application/xml");
+
+const findById = (document: Document, id: string) =>
+  Array.from(document.getElementsByTagName("*")).find(
+    (element) => element.getAttribute("Id") === id,
+  );
+
+const findChild = (
+  parent: Element | Document,
+  namespace: string,
+  name: string,
+) => parent.getElementsByTagNameNS(namespace, name)[0] as Element | undefined;
+
+const DIGEST_METHOD = `<ds:DigestMethod Algorithm="${SHA256}"/>`;
+
+function buildManifest(files: ContainerFile[]) {
+  const entries = [{ name: "/", mimeType: ASIC_E_MIME_TYPE }, ...files].map(
+    ({ name, mimeType }) =>
+      `<manifest:file-entry manifest:full-path="${escapeXml(name)}" manifest:media-type="${escapeXml(mimeType)}"/>`,
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<manifest:manifest xmlns:manifest="${MANIFEST_NAMESPACE}" manifest:version="1.2">${entries.join("")}</manifest:manifest>`;
+}
+
+/**
+ * A XAdES-BES signature over the files: a reference with the SHA-256
+ * digest of each, and one of the SignedProperties, which bind the signing
+ * time and the signer's certificate into what is signed.
+ */
+async function buildSignature(
+  files: { file: ContainerFile; bytes: Uint8Array }[],
+  certificate: Certificate,
+  key: CryptoKey,
+  signingTime: Date,
+) {
+  const id = "S0";
+  const propertiesId = `${id}-SignedProperties`;
+
+  const references = await Promise.all(
+    files.map(
+      async ({ file, bytes }, index) =>
+        `<ds:Reference Id="${id}-ref-${index}" URI="${escapeXml(toUri(file.name))}">${DIGEST_METHOD}<ds:DigestValue>${await sha256Base64(bytes)}</ds:DigestValue></ds:Reference>`,
+    ),
+  );
+  const dataObjectFormats = files.map(
+    ({ file }, index) =>
+      `<xades:DataObjectFormat ObjectReference="#${id}-ref-${index}"><xades:MimeType>${escapeXml(file.mimeType)}</xades:MimeType></xades:DataObjectFormat>`,
+  );
+
+  const certificateDigest = await sha256Base64(certificate.der);
+
+  const toXml = (propertiesDigest: string, signatureValue: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?>
+<asic:XAdESSignatures xmlns:asic="${ASIC_NAMESPACE}" xmlns:ds="${DSIG_NAMESPACE}" xmlns:xades="${XADES_NAMESPACE}">
+  <ds:Signature Id="${id}">
+    <ds:SignedInfo>
+      <ds:CanonicalizationMethod Algorithm="${EXCLUSIVE_C14N}"/>
+      <ds:SignatureMethod Algorithm="${SIGNATURE_METHODS[certificate.algorithm.name]}"/>
+      ${references.join("\n      ")}
+      <ds:Reference Type="${SIGNED_PROPERTIES_TYPE}" URI="#${propertiesId}">
+        <ds:Transforms><ds:Transform Algorithm="${EXCLUSIVE_C14N}"/></ds:Transforms>
+        ${DIGEST_METHOD}
+        <ds:DigestValue>${propertiesDigest}</ds:DigestValue>
+      </ds:Reference>
+    </ds:SignedInfo>
+    <ds:SignatureValue Id="${id}-SignatureValue">${signatureValue}</ds:SignatureValue>
+    <ds:KeyInfo>
+      <ds:X509Data><ds:X509Certificate>${toBase64(certificate.der)}</ds:X509Certificate></ds:X509Data>
+    </ds:KeyInfo>
+    <ds:Object>
+      <xades:QualifyingProperties Target="#${id}">
+        <xades:SignedProperties Id="${propertiesId}">
+          <xades:SignedSignatureProperties>
+            <xades:SigningTime>${signingTime.toISOString().replace(/\.\d{3}Z$/, "Z")}</xades:SigningTime>
+            <xades:SigningCertificateV2>
+              <xades:Cert>
+                <xades:CertDigest>${DIGEST_METHOD}<ds:DigestValue>${certificateDigest}</ds:DigestValue></xades:CertDigest>
+              </xades:Cert>
+            </xades:SigningCertificateV2>
+          </xades:SignedSignatureProperties>
+          <xades:SignedDataObjectProperties>
+            ${dataObjectFormats.join("\n            ")}
+          </xades:SignedDataObjectProperties>
+        </xades:SignedProperties>
+      </xades:QualifyingProperties>
+    </ds:Object>
+  </ds:Signature>
+</asic:XAdESSignatures>
+`;
+
+  // The SignedProperties digest goes into SignedInfo, which is then signed
+  const document = parseXml(toXml("", ""));
+  const signedInfo = findChild(document, DSIG_NAMESPACE, "SignedInfo")!;
+  const propertiesReference = Array.from(
+    signedInfo.getElementsByTagNameNS(DSIG_NAMESPACE, "Reference"),
+  ).find(
+    (reference) => reference.getAttribute("Type") === SIGNED_PROPERTIES_TYPE,
+  )!;
+  const propertiesDigest = await sha256Base64(
+    encodeUtf8(canonicalize(findById(document, propertiesId)!)),
+  );
+  findChild(propertiesReference, DSIG_NAMESPACE, "DigestValue")!.textContent =
+    propertiesDigest;
+
+  const signatureValue = await crypto.subtle.sign(
+    signatureParams(certificate.algorithm),
+    key,
+    encodeUtf8(canonicalize(signedInfo)),
+  );
+
+  return toXml(propertiesDigest, toBase64(new Uint8Array(signatureValue)));
+}
+
+/**
+ * Packages the files into an ASiC-E container signed with the identity's
+ * key: the `mimetype` entry first and uncompressed, the files themselves,
+ * a META-INF/manifest.xml listing them, and a XAdES-BES signature over all
+ * of them in META-INF/signatures0.xml.
+ */
+export async function buildAsicContainer(
+  files: ContainerFile[],
+  identity: SigningIdentity,
+  signingTime = new Date(),
+): Promise<Blob> {
+  const certificate = parseCertificate(
+    pemToDer(identity.certificate, "CERTIFICATE"),
+  );
+  const key = await importPrivateKey(
+    pemToDer(identity.privateKey, "PRIVATE KEY"),
+    certificate,
+  );
+  const contents = await Promise.all(
+    files.map(async (file) => ({ file, bytes: await toBytes(file.data) })),
+  );
+
+  const zip = new JSZip();
+  const options = { createFolders: false };
+  zip.file("mimetype", ASIC_E_MIME_TYPE, { ...options, compression: "STORE" });
+  contents.forEach(({ file, bytes }) => zip.file(file.name, bytes, options));
+  zip.file(MANIFEST_PATH, buildManifest(files), options);
+  zip.file(
+    "META-INF/signatures0.xml",
+    await buildSignature(contents, certificate, key, signingTime),
+    options,
+  );
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: ASIC_E_MIME_TYPE,
+    compression: "DEFLATE",
+  });
+}
+
+// The first entry must be `mimetype`, stored uncompressed and without an
+// extra field, so the type can be read at a fixed offset
+function checkMimeTypeEntry(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 30 || view.getUint32(0, true) !== 0x04034b50) {
+    return false;
+  }
+  const method = view.getUint16(8, true);
+  const nameLength = view.getUint16(26, true);
+  const extraLength = view.getUint16(28, true);
+  const decoder = new TextDecoder();
+  const name = decoder.decode(bytes.subarray(30, 30 + nameLength));
+  const start = 30 + nameLength + extraLength;
+  const content = decoder.decode(
+    bytes.subarray(start, start + ASIC_E_MIME_TYPE.length),
+  );
+  return method === 0 && name === "mimetype" && content === ASIC_E_MIME_TYPE;
+}
+
+async function verifySignature(
+  zip: JSZip,
+  document: Document,
+  signature: Element,
+  file: string,
+): Promise<SignatureReport> {
+  const problems: string[] = [];
+  const signedFiles: string[] = [];
+  const report = (extra: Partial<SignatureReport> = {}): SignatureReport => ({
+    file,
+    signatureId: signature.getAttribute("Id") ?? "",
+    signedFiles,
+    valid: problems.length === 0,
+    problems,
+    ...extra,
+  });
+
+  const signedInfo = findChild(signature, DSIG_NAMESPACE, "SignedInfo");
+  const certificateText = findChild(
+    signature,
+    DSIG_NAMESPACE,
+    "X509Certificate",
+  )?.textContent;
+  if (!signedInfo || !certificateText) {
+    problems.push("The signature has no SignedInfo or signing certificate");
+    return report();
+  }
+
+  let certificate: Certificate;
+  try {
+    certificate = parseCertificate(fromBase64(certificateText));
+  } catch (error) {
+    problems.push(
+      error instanceof Error ? error.message : "The certificate is unreadable",
+    );
+    return report();
+  }
+
+  const algorithmOf = (parent: Element, name: string) =>
+    findChild(parent, DSIG_NAMESPACE, name)?.getAttribute("Algorithm");
+
+  if (algorithmOf(signedInfo, "CanonicalizationMethod") !== EXCLUSIVE_C14N) {
+    problems.push("Only exclusive XML canonicalization is supported");
+  }
+  if (
+    algorithmOf(signedInfo, "SignatureMethod") !==
+    SIGNATURE_METHODS[certificate.algorithm.name]
+  ) {
+    problems.push("The signature method doesn't match the certificate's key");
+  }
+
+  let signedProperties: Element | undefined;
+  const references = Array.from(
+    signedInfo.getElementsByTagNameNS(DSIG_NAMESPACE, "Reference"),
+  );
+  for (const reference of references) {
+    const uri = reference.getAttribute("URI") ?? "";
+    if (algorithmOf(reference, "DigestMethod") !== SHA256) {
+      problems.push(`${uri} isn't digested with SHA-256`);
+      continue;
+    }
+
+    let data: Uint8Array | undefined;
+    if (uri.startsWith("#")) {
+      const target = findById(document, uri.slice(1));
+      const transforms = Array.from(
+        reference.getElementsByTagNameNS(DSIG_NAMESPACE, "Transform"),
+      );
+      if (
+        transforms.some(
+          (transform) => transform.getAttribute("Algorithm") !== EXCLUSIVE_C14N,
+        )
+      ) {
+        problems.push(`${uri} uses an unsupported transform`);
+        continue;
+      }
+      if (target) data = encodeUtf8(canonicalize(target));
+      if (
+        target?.localName === "SignedProperties" &&
+        target.namespaceURI === XADES_NAMESPACE &&
+        reference.getAttribute("Type") === SIGNED_PROPERTIES_TYPE
+      ) {
+        signedProperties = target;
+      }
+    } else {
+      const name = decodeURIComponent(uri);
+      const entry = name.startsWith("META-INF/") ? null : zip.file(name);
+      if (entry) {
+        data = await entry.async("uint8array");
+        signedFiles.push(name);
+      }
+    }
+
+    if (!data) {
+      problems.push(
+        `${uri || "A reference"} points to nothing in the container`,
+      );
+    } else if (
+      (await sha256Base64(data)) !==
+      findChild(reference, DSIG_NAMESPACE, "DigestValue")?.textContent?.trim()
+    ) {
+      problems.push(`${uri} has been modified since it was signed`);
+    }
+  }
+
+  let signingTime: Date | undefined;
+  if (!signedProperties) {
+    problems.push("The XAdES SignedProperties aren't signed");
+  } else {
+    const time = findChild(signedProperties, XADES_NAMESPACE, "SigningTime");
+    signingTime = time?.textContent ? new Date(time.textContent) : undefined;
+    if (
+      signingTime &&
+      (signingTime < certificate.notBefore ||
+        signingTime > certificate.notAfter)
+    ) {
+      problems.push("The certificate wasn't valid at the signing time");
+    }
+
+    const certDigest = findChild(
+      signedProperties,
+      XADES_NAMESPACE,
+      "CertDigest",
+    );
+    if (
+      !certDigest ||
+      algorithmOf(certDigest, "DigestMethod") !== SHA256 ||
+      findChild(
+        certDigest,
+        DSIG_NAMESPACE,
+        "DigestValue",
+      )?.textContent?.trim() !== (await sha256Base64(certificate.der))
+    ) {
+      problems.push(
+        "The signed certificate digest doesn't match the certificate",
+      );
+    }
+  }
+
+  const signatureValue = findChild(signature, DSIG_NAMESPACE, "SignatureValue");
+  // Decoding the value and importing the key fail on malformed input too
+  try {
+    const verified = await crypto.subtle.verify(
+      signatureParams(certificate.algorithm),
+      await importPublicKey(certificate),
+      fromBase64(signatureValue?.textContent ?? ""),
+      encodeUtf8(canonicalize(signedInfo)),
+    );
+    if (!verified) {
+      problems.push("The signature value doesn't match the signed content");
+    }
+  } catch {
+    problems.push("The signature value or the certificate's key is unreadable");
+  }
+
+  return report({ signerName: certificate.subjectName, signingTime });
+}
+
+/**
+ * Opens an ASiC-E container and checks each XAdES signature in it: every
+ * referenced file's digest, the signed properties and the signature value
+ * itself. Whether the signing certificate is trusted isn't checked.
+ */
+export async function verifyAsicContainer(
+  source: Blob | Uint8Array,
+): Promise<ContainerReport> {
+  const bytes = await toBytes(source);
+  const zip = await JSZip.loadAsync(bytes).catch(() => {
+    throw new Error("The file isn't a ZIP-based container");
+  });
+  const problems: string[] = [];
+  if (!checkMimeTypeEntry(bytes)) {
+    problems.push(
+      `The container must start with an uncompressed mimetype entry of ${ASIC_E_MIME_TYPE}`,
+    );
+  }
+  if (!zip.file(MANIFEST_PATH)) {
+    problems.push(`The container has no ${MANIFEST_PATH}`);
+  }
+
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  const files = entries
+    .map(({ name }) => name)
+    .filter((name) => name !== "mimetype" && !name.startsWith("META-INF/"));
+
+  const signatures: SignatureReport[] = [];
+  for (const entry of entries.filter(({ name }) => SIGNATURE_FILE.test(name))) {
+    const document = parseXml(await entry.async("string"));
+    const elements = Array.from(
+      document.getElementsByTagNameNS(DSIG_NAMESPACE, "Signature"),
+    );
+    if (document.getElementsByTagName("parsererror").length > 0) {
+      problems.push(`${entry.name} isn't well-formed XML`);
+      continue;
+    }
+    for (const signature of elements) {
+      signatures.push(
+        await verifySignature(zip, document, signature, entry.name),
+      );
+    }
+  }
+  if (signatures.length === 0) {
+    problems.push("The container has no signatures");
+  }
+
+  const signed = new Set(
+    signatures
+      .filter(({ valid }) => valid)
+      .flatMap(({ signedFiles }) => signedFiles),
+  );
+  return {
+    files,
+    unsignedFiles: files.filter((name) => !signed.has(name)),
+    signatures,
+    problems,
+  };
+}
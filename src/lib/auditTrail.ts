@@ -0,0 +1,157 @@
+import { format, parseISO } from "date-fns";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { createPageWriter } from "@/lib/pdfText";
+import type {
+  AuditEvent,
+  AuditEventType,
+  Document,
+  SignerAssignment,
+} from "@/types/template";
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  created: "Document created",
+  link_sent: "Signing link sent",
+  opened: "Document opened",
+  page_viewed: "Page viewed",
+  field_completed: "Field completed",
+  signed: "Document signed",
+  declined: "Signing declined",
+  reassigned: "Signing reassigned",
+  expired: "Document expired",
+  reminder_sent: "Reminder sent",
+  link_requested: "New link requested",
+  expiry_extended: "Expiry extended",
+  voided: "Document voided",
+};
+
+export const formatAuditTime = (timestamp: string) =>
+  format(parseISO(timestamp), "PP p");
+
+// One-line summary of an event, e.g. "Jane Smith viewed page 2"
+export function describeAuditEvent(event: AuditEvent) {
+  const actor = event.actor ?? "System";
+  const { details = {} } = event;
+  switch (event.type) {
+    case "created":
+      return `${actor} created the document`;
+    case "link_sent":
+      return `${actor} sent the signing link${details.email ? ` to ${details.email}` : ""}`;
+    case "opened":
+      return `${actor} opened the document`;
+    case "page_viewed":
+      return `${actor} viewed page ${details.page ?? "?"}`;
+    case "field_completed":
+      return `${actor} completed "${details.fieldLabel ?? details.fieldId}"`;
+    case "signed":
+      return `${actor} signed the document`;
+    case "declined":
+      return `${actor} declined to sign${details.reason ? `: ${details.reason}` : ""}`;
+    case "reassigned":
+      return `${actor} asked ${details.reassignedTo ?? details.email ?? "someone else"} to sign instead${details.reason ? `: ${details.reason}` : ""}`;
+    case "expired":
+      return "The document expired before everyone signed";
+    case "reminder_sent":
+      return `${actor} sent a reminder${details.email ? ` to ${details.email}` : ""}`;
+    case "link_requested":
+      return `${actor} asked for a new signing link`;
+    case "expiry_extended":
+      return `${actor} extended the expiry${details.expiresAt ? ` to ${formatAuditTime(details.expiresAt)}` : ""}`;
+    case "voided":
+      return `${actor} voided the document${details.reason ? `: ${details.reason}` : ""}`;
+  }
+}
+
+interface AuditExport {
+  document: Pick<Document, "id" | "name" | "status">;
+  signers: SignerAssignment[];
+  events: AuditEvent[];
+}
+
+export const exportAuditTrailJson = ({
+  document,
+  signers,
+  events,
+}: AuditExport) =>
+  new Blob(
+    [
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          document: {
+            id: document.id,
+            name: document.name,
+            status: document.status,
+          },
+          signers: signers.map(
+            ({ signerId, signerName, signerEmail, status }) => ({
+              signerId,
+              signerName,
+              signerEmail,
+              status,
+            }),
+          ),
+          events,
+        },
+        null,
+        2,
+      ),
+    ],
+    { type: "application/json" },
+  );
+
+/**
+ * Builds a certificate of completion: the document and its signers followed
+ * by every audit event with time, IP address and user agent.
+ */
+export async function buildCompletionCertificate({
+  document,
+  signers,
+  events,
+}: AuditExport) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Certificate of Completion - ${document.name}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const { write, gap } = createPageWriter(pdf, font);
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  write("Certificate of Completion", { size: 20, useFont: bold });
+  gap(8);
+  write(`Document: ${document.name}`, { size: 12 });
+  write(`Document ID: ${document.id}`, { color: muted });
+  write(`Status: ${document.status}`, { color: muted });
+  write(`Generated: ${format(new Date(), "PPpp")}`, { color: muted });
+
+  gap(16);
+  write("Signers", { size: 14, useFont: bold });
+  signers.forEach((signer) => {
+    const signed = events.find(
+      (event) => event.type === "signed" && event.signerId === signer.signerId,
+    );
+    gap(4);
+    write(`${signer.signerName} <${signer.signerEmail}>`, { useFont: bold });
+    write(
+      signed
+        ? `Signed ${formatAuditTime(signed.timestamp)}${signed.ipAddress ? ` from ${signed.ipAddress}` : ""}`
+        : `Status: ${signer.status}`,
+      { indent: 12, color: muted },
+    );
+  });
+
+  gap(16);
+  write("Audit Trail", { size: 14, useFont: bold });
+  events.forEach((event) => {
+    gap(4);
+    write(`${formatAuditTime(event.timestamp)}  ${describeAuditEvent(event)}`);
+    if (event.ipAddress || event.userAgent) {
+      write(
+        [event.ipAddress && `IP ${event.ipAddress}`, event.userAgent]
+          .filter(Boolean)
+          .join(" - "),
+        { size: 8, indent: 12, color: muted },
+      );
+    }
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ConfigMigrationError, migrateConfig } from "@/lib/configMigrations";
+import { CURRENT_CONFIG_VERSION } from "@/types/config";
+
+const signBlock = {
+  id: "signblock-1",
+  type: "signblock",
+  page: 1,
+  position: { x: 10, y: 10 },
+  size: { width: 200, height: 100 },
+  label: "SignBlock",
+};
+
+describe("migrateConfig", () => {
+  it("upgrades a 1.0 config step by step", () => {
+    const { config, fromVersion, migrated } = migrateConfig({
+      version: "1.0",
+      fields: [signBlock],
+    });
+    expect({ fromVersion, migrated }).toEqual({
+      fromVersion: "1.0",
+      migrated: true,
+    });
+    expect(config).toEqual({
+      version: CURRENT_CONFIG_VERSION,
+      signerRoles: [],
+      fields: [
+        {
+          ...signBlock,
+          required: false,
+          captureOptions: {
+            video: true,
+            audio: true,
+            image: true,
+            signature: true,
+          },
+        },
+      ],
+    });
+  });
+
+  it("accepts numeric versions, 1.0 included", () => {
+    // JSON.parse reads `"version": 1.0` as the number 1
+    const legacy = JSON.parse('{ "version": 1.0, "fields": [] }');
+    expect(migrateConfig(legacy)).toMatchObject({
+      fromVersion: "1.0",
+      migrated: true,
+      config: { version: CURRENT_CONFIG_VERSION },
+    });
+    expect(migrateConfig({ version: 1.1, fields: [] }).fromVersion).toBe("1.1");
+    expect(
+      migrateConfig({ version: Number(CURRENT_CONFIG_VERSION), fields: [] })
+        .migrated,
+    ).toBe(false);
+  });
+
+  it("leaves a current config as it is", () => {
+    const current = { version: CURRENT_CONFIG_VERSION, fields: [] };
+    expect(migrateConfig(current)).toEqual({
+      config: current,
+      fromVersion: CURRENT_CONFIG_VERSION,
+      migrated: false,
+    });
+  });
+
+  it.each([
+    ["a non-object", [], "Config must be a JSON object"],
+    ["no version", { fields: [] }, "Config has no version"],
+    [
+      "an unknown version",
+      { version: "9.0" },
+      'Unsupported config version "9.0"',
+    ],
+    [
+      "a numeric unknown version",
+      { version: 1.15 },
+      'Unsupported config version "1.15"',
+    ],
+  ])("rejects %s", (_, config, message) => {
+    expect(() => migrateConfig(config)).toThrow(
+      new ConfigMigrationError(message),
+    );
+  });
+});
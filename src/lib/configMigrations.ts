@@ -0,0 +1,112 @@
+import { z } from "zod";
+import {
+  CURRENT_CONFIG_VERSION,
+  jsonObjectSchema,
+  type JsonObject,
+} from "@/types/config";
+
+// Upgrades a config one version step. Each migration receives the output of
+// the previous one, so they only need to know about their own source version.
+type Migration = (config: JsonObject) => JsonObject;
+
+// Hand-written configs may give the version as a number, which JSON reads
+// as 1 for 1.0
+const versionSchema = z.union([
+  z.string(),
+  z
+    .number()
+    .transform((version) =>
+      Number.isInteger(version) ? version.toFixed(1) : String(version),
+    ),
+]);
+
+// Fields that aren't objects are passed through for validation to report
+const mapFields = (config: JsonObject, map: (field: JsonObject) => unknown) => {
+  const fields = z.array(z.unknown()).safeParse(config.fields ?? []);
+  if (!fields.success) return config.fields;
+  return fields.data.map((field) => {
+    const object = jsonObjectSchema.safeParse(field);
+    return object.success ? map(object.data) : field;
+  });
+};
+
+const migrations: Record<string, { to: string; migrate: Migration }> = {
+  // 1.1 introduces signer roles and makes `required` and SignBlock capture
+  // options explicit
+  "1.0": {
+    to: "1.1",
+    migrate: (config) => ({
+      ...config,
+      version: "1.1",
+      signerRoles: config.signerRoles ?? [],
+      fields: mapFields(config, (field) => ({
+        ...field,
+        required: field.required === true,
+        ...(field.type === "signblock" && {
+          captureOptions: field.captureOptions ?? {
+            video: true,
+            audio: true,
+            image: true,
+            signature: true,
+          },
+        }),
+      })),
+    }),
+  },
+  // 1.2 adds initials, number, email, choice and auto-filled fields; existing
+  // fields are unchanged
+  "1.1": {
+    to: "1.2",
+    migrate: (config) => ({ ...config, version: "1.2" }),
+  },
+};
+
+export class ConfigMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigMigrationError";
+  }
+}
+
+export interface MigrationResult {
+  config: JsonObject;
+  fromVersion: string;
+  migrated: boolean;
+}
+
+/**
+ * Brings a parsed config up to CURRENT_CONFIG_VERSION. Throws
+ * ConfigMigrationError for configs without a version and versions this
+ * build doesn't know about, e.g. a config written by a newer editor.
+ */
+export function migrateConfig(config: unknown): MigrationResult {
+  const object = jsonObjectSchema.safeParse(config);
+  if (!object.success) {
+    throw new ConfigMigrationError("Config must be a JSON object");
+  }
+  const version = versionSchema.safeParse(object.data.version);
+  if (!version.success) {
+    throw new ConfigMigrationError("Config has no version");
+  }
+
+  const fromVersion = version.data;
+  let current = object.data;
+  let currentVersion = fromVersion;
+
+  while (currentVersion !== CURRENT_CONFIG_VERSION) {
+    const step = migrations[currentVersion];
+    if (!step) {
+      throw new ConfigMigrationError(
+        `Unsupported config version "${currentVersion}"`,
+      );
+    }
+    current = step.migrate(current);
+    currentVersion = step.to;
+  }
+
+  return {
+    config: current,
+    fromVersion,
+    migrated: fromVersion !== CURRENT_CONFIG_VERSION,
+  };
+}
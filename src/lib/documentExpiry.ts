@@ -0,0 +1,40 @@
+import { addDays, formatDistanceStrict, parseISO } from "date-fns";
+import type { Document, ReminderSchedule } from "@/types/template";
+
+// Pending documents this close to their expiry are flagged in the list
+export const EXPIRES_SOON_DAYS = 3;
+
+export const DEFAULT_EXPIRY_DAYS = 30;
+
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  intervalDays: 3,
+  maxReminders: 3,
+};
+
+export const REMINDER_INTERVAL_OPTIONS = [1, 2, 3, 5, 7, 14];
+
+export type ExpiryState = "none" | "active" | "soon" | "expired";
+
+export function getExpiryState(
+  document: Pick<Document, "status" | "expiresAt">,
+  now = new Date(),
+): ExpiryState {
+  if (document.status === "expired") return "expired";
+  if (!document.expiresAt) return "none";
+  const expiresAt = parseISO(document.expiresAt);
+  if (expiresAt <= now) return "expired";
+  return expiresAt <= addDays(now, EXPIRES_SOON_DAYS) ? "soon" : "active";
+}
+
+// e.g. "Expires in 2 days" or "Expired 5 hours ago"
+export function formatExpiryCountdown(expiresAt: string, now = new Date()) {
+  const date = parseISO(expiresAt);
+  const distance = formatDistanceStrict(date, now);
+  return date > now ? `Expires in ${distance}` : `Expired ${distance} ago`;
+}
+
+export const formatReminderSchedule = ({
+  intervalDays,
+  maxReminders,
+}: ReminderSchedule) =>
+  `Every ${intervalDays === 1 ? "day" : `${intervalDays} days`}, up to ${maxReminders} time${maxReminders === 1 ? "" : "s"}`;
@@ -0,0 +1,31 @@
+import type { DocumentSummary } from "@/types/template";
+
+const CSV_COLUMNS: [string, (document: DocumentSummary) => string][] = [
+  ["Document ID", (document) => document.id],
+  ["Name", (document) => document.name],
+  ["Status", (document) => document.status],
+  ["Created", (document) => document.createdAt],
+  ["Expires", (document) => document.expiresAt ?? ""],
+  ["Signing Order", (document) => document.signingOrder ?? "parallel"],
+  [
+    "Signers",
+    (document) =>
+      document.signers
+        .map(({ name, email, status }) => `${name} <${email}> (${status})`)
+        .join("; "),
+  ],
+];
+
+// Quotes a value when it contains a delimiter, quote or line break
+const toCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function documentsToCsv(documents: DocumentSummary[]) {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...documents.map((document) =>
+      CSV_COLUMNS.map(([, getValue]) => getValue(document)),
+    ),
+  ];
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,94 @@
+import type {
+  Document,
+  DocumentQuery,
+  DocumentSortField,
+} from "@/types/template";
+
+export const DOCUMENT_PAGE_SIZES = [10, 25, 50];
+
+export const DOCUMENT_STATUSES: { value: Document["status"]; label: string }[] =
+  [
+    { value: "pending", label: "Pending" },
+    { value: "completed", label: "Completed" },
+    { value: "expired", label: "Expired" },
+    { value: "voided", label: "Voided" },
+    { value: "declined", label: "Declined" },
+  ];
+
+const SORT_FIELDS: DocumentSortField[] = ["name", "createdAt", "status"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_DOCUMENT_QUERY: DocumentQuery = {
+  page: 1,
+  pageSize: DOCUMENT_PAGE_SIZES[0],
+  sort: "createdAt",
+  order: "desc",
+};
+
+// Sort as sent over the wire: the field name, prefixed with "-" when
+// descending
+export const formatDocumentSort = ({ sort, order }: DocumentQuery) =>
+  order === "desc" ? `-${sort}` : sort;
+
+/**
+ * Reads the document list state from the URL, e.g.
+ * `?q=smith&status=pending,expired&sort=-createdAt&page=2`. Missing or
+ * invalid values fall back to the defaults.
+ */
+export function parseDocumentQuery(params: URLSearchParams): DocumentQuery {
+  const query = { ...DEFAULT_DOCUMENT_QUERY };
+
+  const q = params.get("q")?.trim();
+  if (q) query.q = q;
+
+  const statuses = DOCUMENT_STATUSES.map(({ value }) => value);
+  const status = (params.get("status") ?? "")
+    .split(",")
+    .filter((value): value is Document["status"] =>
+      statuses.includes(value as Document["status"]),
+    );
+  if (status.length > 0) query.status = status;
+
+  const createdFrom = params.get("createdFrom");
+  if (createdFrom && DATE_PATTERN.test(createdFrom)) {
+    query.createdFrom = createdFrom;
+  }
+  const createdTo = params.get("createdTo");
+  if (createdTo && DATE_PATTERN.test(createdTo)) query.createdTo = createdTo;
+
+  const sort = params.get("sort") ?? "";
+  const sortField = sort.replace(/^-/, "") as DocumentSortField;
+  if (SORT_FIELDS.includes(sortField)) {
+    query.sort = sortField;
+    query.order = sort.startsWith("-") ? "desc" : "asc";
+  }
+
+  const page = Number(params.get("page"));
+  if (Number.isInteger(page) && page > 1) query.page = page;
+
+  const pageSize = Number(params.get("pageSize"));
+  if (DOCUMENT_PAGE_SIZES.includes(pageSize)) query.pageSize = pageSize;
+
+  return query;
+}
+
+// The URL for a list state, leaving out defaults to keep shared links short
+export function toDocumentSearchParams(query: DocumentQuery) {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  if (query.status?.length) params.set("status", query.status.join(","));
+  if (query.createdFrom) params.set("createdFrom", query.createdFrom);
+  if (query.createdTo) params.set("createdTo", query.createdTo);
+  const sort = formatDocumentSort(query);
+  if (sort !== formatDocumentSort(DEFAULT_DOCUMENT_QUERY)) {
+    params.set("sort", sort);
+  }
+  if (query.page > 1) params.set("page", String(query.page));
+  if (query.pageSize !== DEFAULT_DOCUMENT_QUERY.pageSize) {
+    params.set("pageSize", String(query.pageSize));
+  }
+  return params;
+}
+
+export const hasDocumentFilters = (query: DocumentQuery) =>
+  !!(query.q || query.status?.length || query.createdFrom || query.createdTo);
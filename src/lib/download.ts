@@ -0,0 +1,17 @@
+// Saves a Blob under `fileName` through a temporary link
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// A document name made safe for use in a file name
+export const toFileName = (name: string) =>
+  name
+    .replace(/[^\w\- ]+/g, "")
+    .trim()
+    .replace(/\s+/g, "-") || "document";
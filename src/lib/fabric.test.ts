@@ -0,0 +1,360 @@
+import { describe, expect, it } from "vitest";
+import {
+  FABRIC_VERSION,
+  parseFabric,
+  serializeFabric,
+  type FabricDocument,
+} from "@/lib/fabric";
+import { parseConfig, serializeConfig } from "@/lib/templateConfig";
+import {
+  CURRENT_CONFIG_VERSION,
+  FIELD_TYPES,
+  type TemplateConfig,
+} from "@/types/config";
+
+const PAGE_SIZES = [
+  { width: 595.28, height: 841.89 },
+  { width: 612, height: 792 },
+];
+
+const config: TemplateConfig = {
+  version: CURRENT_CONFIG_VERSION,
+  signerRoles: [
+    { id: "employee", name: "Employee", color: "#2563EB" },
+    { id: "manager", name: "Manager", allowReassign: true },
+  ],
+  fields: [
+    {
+      id: "signature-1",
+      type: "signature",
+      page: 1,
+      position: { x: 50, y: 700 },
+      size: { width: 200, height: 50 },
+      label: "Employee signature",
+      required: true,
+      helpText: "Sign inside the box",
+      signerRoleId: "employee",
+    },
+    {
+      id: "initials-1",
+      type: "initials",
+      page: 1,
+      position: { x: 500, y: 780 },
+      size: { width: 60, height: 30 },
+      label: "Initials",
+      required: false,
+      signerRoleId: "employee",
+    },
+    {
+      id: "text-1",
+      type: "text",
+      page: 1,
+      position: { x: 50, y: 100.5 },
+      size: { width: 240.25, height: 24 },
+      label: "Full name",
+      required: true,
+      placeholder: "Jane Doe",
+    },
+    {
+      id: "number-1",
+      type: "number",
+      page: 1,
+      position: { x: 300, y: 100 },
+      size: { width: 100, height: 24 },
+      label: "Amount",
+      required: false,
+      defaultValue: "100",
+    },
+    {
+      id: "email-1",
+      type: "email",
+      page: 1,
+      position: { x: 50, y: 150 },
+      size: { width: 240, height: 24 },
+      label: "Email",
+      required: true,
+    },
+    {
+      id: "date-1",
+      type: "date",
+      page: 1,
+      position: { x: 300, y: 150 },
+      size: { width: 120, height: 24 },
+      label: "Start date",
+      required: false,
+    },
+    {
+      id: "checkbox-1",
+      type: "checkbox",
+      page: 2,
+      position: { x: 40, y: 40 },
+      size: { width: 20, height: 20 },
+      label: "I agree",
+      required: true,
+    },
+    {
+      id: "radio-1",
+      type: "radio",
+      page: 2,
+      position: { x: 40, y: 80 },
+      size: { width: 150, height: 60 },
+      label: "Plan",
+      required: true,
+      options: ["Basic", "Pro"],
+    },
+    {
+      id: "dropdown-1",
+      type: "dropdown",
+      page: 2,
+      position: { x: 220, y: 80 },
+      size: { width: 150, height: 24 },
+      label: "Department",
+      required: false,
+      options: ["Sales", "Engineering", "Support"],
+      signerRoleId: "manager",
+    },
+    {
+      id: "autofill-1",
+      type: "autofill",
+      page: 2,
+      position: { x: 40, y: 160 },
+      size: { width: 200, height: 24 },
+      label: "Signed on",
+      required: false,
+      autoFillSource: "signingDate",
+    },
+    {
+      id: "signblock-1",
+      type: "signblock",
+      page: 2,
+      position: { x: 40, y: 500 },
+      size: { width: 300, height: 180 },
+      label: "Manager SignBlock",
+      required: true,
+      signerRoleId: "manager",
+      captureOptions: {
+        video: true,
+        audio: false,
+        image: true,
+        signature: true,
+      },
+    },
+  ],
+};
+
+const metadata = (fieldId: string, page: number) => ({
+  fieldId,
+  fieldType: "text",
+  page,
+  label: fieldId,
+  required: false,
+});
+
+// Config -> fields -> fabric -> fields -> config
+function roundTrip(source: TemplateConfig) {
+  const imported = parseConfig(JSON.stringify(source));
+  const fabric = serializeFabric(imported.items, imported.roles, PAGE_SIZES);
+  const restored = parseFabric(fabric);
+  return {
+    fabric: JSON.parse(fabric) as FabricDocument,
+    restored,
+    config: JSON.parse(serializeConfig(restored.items, restored.roles)),
+  };
+}
+
+describe("fabric round trip", () => {
+  it("covers every field type", () => {
+    expect(new Set(config.fields.map(({ type }) => type))).toEqual(
+      new Set(FIELD_TYPES),
+    );
+  });
+
+  it("restores the config exactly", () => {
+    const { config: restored, restored: result } = roundTrip(config);
+    expect(result.issues).toEqual([]);
+    expect(restored).toEqual(config);
+  });
+
+  it.each(FIELD_TYPES)("keeps a %s field's attributes", (type) => {
+    const field = config.fields.find((candidate) => candidate.type === type)!;
+    const { config: restored } = roundTrip({ ...config, fields: [field] });
+    expect(restored.fields).toEqual([field]);
+  });
+
+  it("keeps signer roles and field assignments", () => {
+    const { fabric, config: restored } = roundTrip(config);
+    expect(fabric.signerRoles).toEqual(config.signerRoles);
+    expect(restored.signerRoles).toEqual(config.signerRoles);
+    expect(
+      restored.fields.map(({ id, signerRoleId }) => [id, signerRoleId]),
+    ).toEqual(config.fields.map(({ id, signerRoleId }) => [id, signerRoleId]));
+  });
+
+  it("writes one canvas per page with the page's fields", () => {
+    const { fabric } = roundTrip(config);
+    expect(fabric.version).toBe(FABRIC_VERSION);
+    expect(
+      fabric.pages.map(({ page, width, height }) => [page, width, height]),
+    ).toEqual([
+      [1, 595.28, 841.89],
+      [2, 612, 792],
+    ]);
+    fabric.pages.forEach(({ page, canvas }) => {
+      expect(canvas.objects.map(({ metadata }) => metadata)).toEqual(
+        config.fields
+          .filter((field) => field.page === page)
+          .map(({ id }) => expect.objectContaining({ fieldId: id, page })),
+      );
+    });
+  });
+
+  it("places each group at its field's bounds, origin top-left, unscaled", () => {
+    const { fabric } = roundTrip(config);
+    const group = fabric.pages[0].canvas.objects[2];
+    expect(group).toMatchObject({
+      type: "group",
+      originX: "left",
+      originY: "top",
+      left: 50,
+      top: 100.5,
+      width: 240.25,
+      height: 24,
+      scaleX: 1,
+      scaleY: 1,
+    });
+  });
+});
+
+describe("parseFabric", () => {
+  it("reads bounds from any origin and scale", () => {
+    const document = {
+      version: FABRIC_VERSION,
+      signerRoles: [],
+      pages: [
+        {
+          page: 1,
+          width: 600,
+          height: 800,
+          canvas: {
+            version: FABRIC_VERSION,
+            objects: [
+              {
+                type: "group",
+                originX: "center",
+                originY: "center",
+                left: 200,
+                top: 100,
+                width: 50,
+                height: 20,
+                scaleX: 2,
+                scaleY: 1.5,
+                metadata: metadata("centred", 1),
+              },
+              {
+                type: "group",
+                originX: "right",
+                originY: "bottom",
+                left: 300,
+                top: 400,
+                width: 100,
+                height: 40,
+                scaleX: 0.5,
+                scaleY: 0.5,
+                metadata: metadata("bottom-right", 1),
+              },
+              {
+                type: "group",
+                left: 10,
+                top: 20,
+                width: 30,
+                height: 40,
+                metadata: metadata("defaults", 1),
+              },
+            ],
+          },
+        },
+      ],
+    };
+
+    const { items, issues } = parseFabric(JSON.stringify(document));
+    expect(issues).toEqual([]);
+    expect(
+      items.map(({ id, x, y, width, height }) => [id, x, y, width, height]),
+    ).toEqual([
+      ["centred", 150, 85, 100, 30],
+      ["bottom-right", 250, 380, 50, 20],
+      ["defaults", 10, 20, 30, 40],
+    ]);
+  });
+
+  it("takes the page from the canvas it is on, not the metadata", () => {
+    const { fabric } = roundTrip(config);
+    const [first] = fabric.pages[0].canvas.objects;
+    const moved = {
+      ...fabric,
+      pages: [
+        fabric.pages[0],
+        {
+          ...fabric.pages[1],
+          canvas: { ...fabric.pages[1].canvas, objects: [first] },
+        },
+      ],
+    };
+    const { items } = parseFabric(JSON.stringify(moved));
+    expect(items.filter(({ id }) => id === "signature-1")).toEqual([
+      expect.objectContaining({ page: 1 }),
+      expect.objectContaining({ page: 2 }),
+    ]);
+  });
+
+  it("accepts a legacy single canvas, paging objects by their metadata", () => {
+    const { fabric } = roundTrip(config);
+    const legacy = {
+      version: FABRIC_VERSION,
+      objects: fabric.pages.flatMap(({ canvas }) => canvas.objects),
+      signerRoles: config.signerRoles,
+    };
+    const restored = parseFabric(JSON.stringify(legacy));
+    expect(restored.issues).toEqual([]);
+    expect(JSON.parse(serializeConfig(restored.items, restored.roles))).toEqual(
+      config,
+    );
+  });
+
+  it("reports objects without field metadata and skips them", () => {
+    const { items, issues } = parseFabric(
+      JSON.stringify({
+        objects: [
+          { type: "rect", left: 0, top: 0, width: 10, height: 10 },
+          {
+            type: "group",
+            left: 0,
+            top: 0,
+            width: 10,
+            height: 10,
+            metadata: metadata("kept", 1),
+          },
+        ],
+      }),
+    );
+    expect(items.map(({ id }) => id)).toEqual(["kept"]);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        message: expect.stringContaining("Fabric object 1 (rect)"),
+      }),
+    ]);
+  });
+
+  it("rejects JSON without pages or objects", () => {
+    expect(parseFabric("{}").issues).toEqual([
+      {
+        severity: "error",
+        message: "Fabric does not contain any pages or objects",
+      },
+    ]);
+    expect(parseFabric("not json").issues[0].message).toBe(
+      "Fabric is not valid JSON",
+    );
+  });
+});
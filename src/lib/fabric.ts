@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { ControlItem } from "@/types/template";
+import {
+  jsonObjectSchema,
+  type JsonObject,
+  type SignerRole,
+} from "@/types/config";
+import {
+  asObject,
+  assignKnownRoles,
+  toControlItem,
+  toSignerRoles,
+  type ImportResult,
+} from "@/lib/templateConfig";
+import type { Size } from "@/lib/layout";
+import { FIELD_TYPE_REGISTRY } from "@/lib/fieldTypes";
+import { withAlpha } from "@/lib/signerRoles";
+
+// Fabric.js release whose object schema we emit; canvases are loadable with
+// `canvas.loadFromJSON(document.pages[n].canvas)`
+export const FABRIC_VERSION = "5.3.0";
+
+const fieldStyle = (type: ControlItem["type"]) => {
+  const { color } = FIELD_TYPE_REGISTRY[type];
+  return type === "signblock"
+    ? { stroke: color, fill: withAlpha(color, 0.05), strokeWidth: 2 }
+    : { stroke: color, fill: withAlpha(color, 0.08), strokeWidth: 1 };
+};
+
+// Field attributes carried on the fabric group so the layout can be
+// rebuilt without the config
+export interface FabricFieldMetadata {
+  fieldId: string;
+  fieldType: ControlItem["type"];
+  page: number;
+  label: string;
+  required: boolean;
+  placeholder?: string;
+  defaultValue?: string;
+  helpText?: string;
+  signerRoleId?: string;
+  options?: string[];
+  autoFillSource?: ControlItem["autoFillSource"];
+  captureOptions?: ControlItem["captureOptions"];
+}
+
+export interface FabricObject {
+  type: string;
+  version: string;
+  originX: "left" | "center" | "right";
+  originY: "top" | "center" | "bottom";
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  [property: string]: unknown;
+}
+
+export interface FabricCanvas {
+  version: string;
+  objects: FabricObject[];
+  background?: string;
+}
+
+export interface FabricDocument {
+  version: string;
+  signerRoles: SignerRole[];
+  pages: {
+    page: number;
+    width: number;
+    height: number;
+    canvas: FabricCanvas;
+  }[];
+}
+
+// Properties fabric's Object#toObject always writes, with its defaults
+const baseObject = (
+  type: string,
+  props: Partial<FabricObject> &
+    Pick<FabricObject, "left" | "top" | "width" | "height">,
+): FabricObject => ({
+  type,
+  version: FABRIC_VERSION,
+  originX: "left",
+  originY: "top",
+  fill: "rgb(0,0,0)",
+  stroke: null,
+  strokeWidth: 1,
+  strokeDashArray: null,
+  strokeLineCap: "butt",
+  strokeDashOffset: 0,
+  strokeLineJoin: "miter",
+  strokeUniform: false,
+  strokeMiterLimit: 4,
+  scaleX: 1,
+  scaleY: 1,
+  angle: 0,
+  flipX: false,
+  flipY: false,
+  opacity: 1,
+  shadow: null,
+  visible: true,
+  backgroundColor: "",
+  fillRule: "nonzero",
+  paintFirst: "fill",
+  globalCompositeOperation: "source-over",
+  skewX: 0,
+  skewY: 0,
+  ...props,
+});
+
+const rectObject = (
+  props: Partial<FabricObject> &
+    Pick<FabricObject, "left" | "top" | "width" | "height">,
+) => baseObject("rect", { rx: 0, ry: 0, ...props });
+
+const textboxObject = (
+  text: string,
+  props: Partial<FabricObject> &
+    Pick<FabricObject, "left" | "top" | "width" | "height">,
+) =>
+  baseObject("textbox", {
+    fontFamily: "Helvetica",
+    fontWeight: "normal",
+    fontSize: 12,
+    text,
+    underline: false,
+    overline: false,
+    linethrough: false,
+    textAlign: "left",
+    fontStyle: "normal",
+    lineHeight: 1.16,
+    textBackgroundColor: "",
+    charSpacing: 0,
+    styles: [],
+    direction: "ltr",
+    path: null,
+    pathStartOffset: 0,
+    pathSide: "left",
+    pathAlign: "baseline",
+    minWidth: 20,
+    splitByGrapheme: false,
+    ...props,
+  });
+
+const toMetadata = (item: ControlItem): FabricFieldMetadata => ({
+  fieldId: item.id,
+  fieldType: item.type,
+  page: item.page,
+  label: item.label,
+  required: item.required,
+  ...(item.placeholder && { placeholder: item.placeholder }),
+  ...(item.defaultValue && { defaultValue: item.defaultValue }),
+  ...(item.helpText && { helpText: item.helpText }),
+  ...(item.signerRoleId && { signerRoleId: item.signerRoleId }),
+  ...(item.options && { options: item.options }),
+  ...(item.autoFillSource && { autoFillSource: item.autoFillSource }),
+  ...(item.type === "signblock" && { captureOptions: item.captureOptions }),
+});
+
+/**
+ * A field becomes a group holding its frame and caption. Fabric positions
+ * group children relative to the group's centre, and draws strokes outside
+ * the object's width, so the frame is shrunk by its stroke to keep the
+ * group's bounds equal to the field's.
+ */
+function toFabricObject(item: ControlItem): FabricObject {
+  const style = fieldStyle(item.type);
+  const fontSize = Math.max(6, Math.min(12, item.height * 0.4));
+  const padding = Math.min(4, item.width / 4);
+  const caption = item.defaultValue || item.placeholder || item.label;
+
+  return baseObject("group", {
+    left: item.x,
+    top: item.y,
+    width: item.width,
+    height: item.height,
+    fill: "rgb(0,0,0)",
+    strokeWidth: 0,
+    objects: [
+      rectObject({
+        left: -item.width / 2,
+        top: -item.height / 2,
+        width: item.width - style.strokeWidth,
+        height: item.height - style.strokeWidth,
+        fill: style.fill,
+        stroke: style.stroke,
+        strokeWidth: style.strokeWidth,
+      }),
+      textboxObject(caption, {
+        left: -item.width / 2 + padding,
+        top: -fontSize * 0.58,
+        width: Math.max(1, item.width - padding * 2),
+        height: fontSize * 1.16,
+        fontSize,
+        fill: style.stroke,
+      }),
+    ],
+    metadata: toMetadata(item),
+  });
+}
+
+export function serializeFabric(
+  items: ControlItem[],
+  roles: SignerRole[],
+  pageSizes: Size[],
+): string {
+  const document: FabricDocument = {
+    version: FABRIC_VERSION,
+    signerRoles: roles,
+    pages: pageSizes.map((size, index) => ({
+      page: index + 1,
+      width: size.width,
+      height: size.height,
+      canvas: {
+        version: FABRIC_VERSION,
+        objects: items
+          .filter((item) => item.page === index + 1)
+          .map(toFabricObject),
+      },
+    })),
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+// Top-left corner and rendered size of an object, whatever its origin/scale
+function getObjectBounds(object: JsonObject) {
+  const scaleX = typeof object.scaleX === "number" ? object.scaleX : 1;
+  const scaleY = typeof object.scaleY === "number" ? object.scaleY : 1;
+  const width = Number(object.width) * scaleX;
+  const height = Number(object.height) * scaleY;
+  const originOffsetX =
+    object.originX === "center" ? 0.5 : object.originX === "right" ? 1 : 0;
+  const originOffsetY =
+    object.originY === "center" ? 0.5 : object.originY === "bottom" ? 1 : 0;
+
+  return {
+    x: Number(object.left) - width * originOffsetX,
+    y: Number(object.top) - height * originOffsetY,
+    width,
+    height,
+  };
+}
+
+function readObjects(
+  objects: unknown[],
+  page: number | undefined,
+  result: ImportResult,
+) {
+  objects.forEach((entry, index) => {
+    const object = asObject(entry);
+    const parsed = jsonObjectSchema.safeParse(object.metadata);
+    if (!parsed.success) {
+      result.issues.push({
+        severity: "warning",
+        message: `Fabric object ${index + 1}${page ? ` on page ${page}` : ""} (${typeof object.type === "string" ? object.type : "unknown"}) has no field metadata and was ignored`,
+      });
+      return;
+    }
+    const metadata = parsed.data;
+
+    const { item, issue } = toControlItem(
+      {
+        ...metadata,
+        id: metadata.fieldId,
+        type: metadata.fieldType,
+        page: page ?? metadata.page,
+        ...getObjectBounds(object),
+      },
+      result.items.length,
+    );
+    if (item) result.items.push(item);
+    if (issue) result.issues.push(issue);
+  });
+}
+
+/**
+ * Rebuilds fields from a fabric document. Accepts the per-page format
+ * written by serializeFabric as well as a single fabric canvas (the format
+ * earlier editor versions produced), where each object's page comes from its
+ * metadata.
+ */
+export function parseFabric(json: string): ImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return {
+      items: [],
+      roles: [],
+      issues: [{ severity: "error", message: "Fabric is not valid JSON" }],
+    };
+  }
+
+  const fabric = asObject(raw);
+  const result: ImportResult = { items: [], roles: [], issues: [] };
+  const finish = () => {
+    result.roles = toSignerRoles(fabric.signerRoles, result.issues);
+    result.items = assignKnownRoles(result.items, result.roles, result.issues);
+    return result;
+  };
+
+  const pages = z.array(z.unknown()).safeParse(fabric.pages);
+  if (pages.success) {
+    pages.data.forEach((entry, index) => {
+      const page = asObject(entry);
+      const objects = z
+        .array(z.unknown())
+        .safeParse(asObject(page.canvas).objects);
+      if (!objects.success) {
+        result.issues.push({
+          severity: "error",
+          message: `Fabric page ${index + 1} does not contain a canvas with objects`,
+        });
+        return;
+      }
+      readObjects(
+        objects.data,
+        typeof page.page === "number" ? page.page : index + 1,
+        result,
+      );
+    });
+    return finish();
+  }
+
+  const objects = z.array(z.unknown()).safeParse(fabric.objects);
+  if (objects.success) {
+    readObjects(objects.data, undefined, result);
+    return finish();
+  }
+
+  return {
+    items: [],
+    roles: [],
+    issues: [
+      {
+        severity: "error",
+        message: "Fabric does not contain any pages or objects",
+      },
+    ],
+  };
+}
@@ -0,0 +1,171 @@
+import {
+  Calendar,
+  CheckSquare,
+  CircleDot,
+  FileSignature,
+  Hash,
+  Mail,
+  Pen,
+  PenLine,
+  SquareChevronDown,
+  Type,
+  Wand2,
+  type LucideIcon,
+} from "lucide-react";
+import { format } from "date-fns";
+import type { AutoFillSource, FieldType } from "@/types/config";
+import type { ControlItem } from "@/types/template";
+import type { Size } from "@/lib/layout";
+
+export interface FieldTypeDefinition {
+  name: string;
+  icon: LucideIcon;
+  // Size of a newly placed field, in PDF points
+  defaultSize: Size;
+  // Frame colour in the editor and in the fabric output
+  color: string;
+  // The signer types the value, so a placeholder and default value apply
+  acceptsInput: boolean;
+  // The author defines the choices the signer picks from
+  hasOptions: boolean;
+}
+
+/**
+ * Every field type the editor can place and the signing page can render.
+ * Adding a type means adding it to FIELD_TYPES, describing it here and
+ * handling it in DocumentSigning's createFormSchema and SigningFieldInput.
+ */
+export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
+  signature: {
+    name: "Signature",
+    icon: Pen,
+    defaultSize: { width: 200, height: 80 },
+    color: "#2563EB",
+    acceptsInput: false,
+    hasOptions: false,
+  },
+  initials: {
+    name: "Initials",
+    icon: PenLine,
+    defaultSize: { width: 80, height: 50 },
+    color: "#4F46E5",
+    acceptsInput: false,
+    hasOptions: false,
+  },
+  text: {
+    name: "Text Field",
+    icon: Type,
+    defaultSize: { width: 150, height: 40 },
+    color: "#16A34A",
+    acceptsInput: true,
+    hasOptions: false,
+  },
+  number: {
+    name: "Number",
+    icon: Hash,
+    defaultSize: { width: 100, height: 40 },
+    color: "#0D9488",
+    acceptsInput: true,
+    hasOptions: false,
+  },
+  email: {
+    name: "Email",
+    icon: Mail,
+    defaultSize: { width: 180, height: 40 },
+    color: "#0891B2",
+    acceptsInput: true,
+    hasOptions: false,
+  },
+  date: {
+    name: "Date Field",
+    icon: Calendar,
+    defaultSize: { width: 150, height: 40 },
+    color: "#CA8A04",
+    acceptsInput: true,
+    hasOptions: false,
+  },
+  checkbox: {
+    name: "Checkbox",
+    icon: CheckSquare,
+    defaultSize: { width: 20, height: 20 },
+    color: "#EA580C",
+    acceptsInput: false,
+    hasOptions: false,
+  },
+  radio: {
+    name: "Radio Group",
+    icon: CircleDot,
+    defaultSize: { width: 150, height: 70 },
+    color: "#DB2777",
+    acceptsInput: false,
+    hasOptions: true,
+  },
+  dropdown: {
+    name: "Dropdown",
+    icon: SquareChevronDown,
+    defaultSize: { width: 150, height: 40 },
+    color: "#9333EA",
+    acceptsInput: false,
+    hasOptions: true,
+  },
+  autofill: {
+    name: "Auto-filled",
+    icon: Wand2,
+    defaultSize: { width: 150, height: 30 },
+    color: "#64748B",
+    acceptsInput: false,
+    hasOptions: false,
+  },
+  signblock: {
+    name: "SignBlock",
+    icon: FileSignature,
+    defaultSize: { width: 200, height: 120 },
+    color: "#6200EA",
+    acceptsInput: false,
+    hasOptions: false,
+  },
+};
+
+export const AUTO_FILL_LABELS: Record<AutoFillSource, string> = {
+  signerName: "Signer name",
+  signerEmail: "Signer email",
+  signingDate: "Signing date",
+};
+
+// Type-specific properties of a newly placed field
+export function getFieldDefaults(type: FieldType): Partial<ControlItem> {
+  switch (type) {
+    case "radio":
+    case "dropdown":
+      return { options: ["Option 1", "Option 2"] };
+    case "autofill":
+      return { autoFillSource: "signerName", label: "Signer name" };
+    case "signblock":
+      return {
+        captureOptions: {
+          video: true,
+          audio: true,
+          image: true,
+          signature: true,
+        },
+      };
+    default:
+      return {};
+  }
+}
+
+// Value of an auto-filled field for the given signer
+export function resolveAutoFill(
+  source: AutoFillSource,
+  signer: { signerName: string; signerEmail: string },
+  date = new Date(),
+) {
+  switch (source) {
+    case "signerName":
+      return signer.signerName;
+    case "signerEmail":
+      return signer.signerEmail;
+    case "signingDate":
+      return format(date, "PPP");
+  }
+}
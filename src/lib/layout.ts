@@ -0,0 +1,318 @@
+// Geometry helpers for laying out template fields on a PDF page.
+// All values are in PDF points at scale 1.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export type ResizeHandle = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
+
+export const RESIZE_HANDLES: ResizeHandle[] = [
+  "nw",
+  "n",
+  "ne",
+  "e",
+  "se",
+  "s",
+  "sw",
+  "w",
+];
+
+export type AlignMode =
+  "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+export interface Guide {
+  orientation: "vertical" | "horizontal";
+  position: number;
+}
+
+export const GRID_SIZE = 10;
+export const MIN_FIELD_SIZE = 10;
+
+export const snapToGrid = (value: number, gridSize = GRID_SIZE) =>
+  Math.round(value / gridSize) * gridSize;
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+export const normalizeRect = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): Rect => ({
+  x: Math.min(x1, x2),
+  y: Math.min(y1, y2),
+  width: Math.abs(x2 - x1),
+  height: Math.abs(y2 - y1),
+});
+
+export function getBounds(rects: Rect[]): Rect | null {
+  if (rects.length === 0) return null;
+
+  const left = Math.min(...rects.map((r) => r.x));
+  const top = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function clampToPage<T extends Rect>(rect: T, page: Size): T {
+  const width = Math.min(rect.width, page.width);
+  const height = Math.min(rect.height, page.height);
+
+  return {
+    ...rect,
+    width,
+    height,
+    x: Math.min(Math.max(0, rect.x), page.width - width),
+    y: Math.min(Math.max(0, rect.y), page.height - height),
+  };
+}
+
+/**
+ * Applies a pointer delta to `rect` as if it were dragged by `handle`,
+ * never letting it shrink below MIN_FIELD_SIZE or flip over.
+ */
+export function resizeRect(
+  rect: Rect,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+): Rect {
+  let { x, y, width, height } = rect;
+
+  if (handle.includes("e")) {
+    width = Math.max(MIN_FIELD_SIZE, rect.width + dx);
+  }
+  if (handle.includes("s")) {
+    height = Math.max(MIN_FIELD_SIZE, rect.height + dy);
+  }
+  if (handle.includes("w")) {
+    width = Math.max(MIN_FIELD_SIZE, rect.width - dx);
+    x = rect.x + rect.width - width;
+  }
+  if (handle.includes("n")) {
+    height = Math.max(MIN_FIELD_SIZE, rect.height - dy);
+    y = rect.y + rect.height - height;
+  }
+
+  return { x, y, width, height };
+}
+
+// Candidate positions other fields and the page offer for snapping
+function getSnapTargets(others: Rect[], page: Size) {
+  const vertical = [0, page.width / 2, page.width];
+  const horizontal = [0, page.height / 2, page.height];
+
+  others.forEach((r) => {
+    vertical.push(r.x, r.x + r.width / 2, r.x + r.width);
+    horizontal.push(r.y, r.y + r.height / 2, r.y + r.height);
+  });
+
+  return { vertical, horizontal };
+}
+
+function findSnap(candidates: number[], targets: number[], threshold: number) {
+  let best: { offset: number; position: number } | null = null;
+
+  candidates.forEach((candidate) => {
+    targets.forEach((target) => {
+      const offset = target - candidate;
+      if (
+        Math.abs(offset) <= threshold &&
+        (!best || Math.abs(offset) < Math.abs(best.offset))
+      ) {
+        best = { offset, position: target };
+      }
+    });
+  });
+
+  return best as { offset: number; position: number } | null;
+}
+
+interface SnapOptions {
+  others: Rect[];
+  page: Size;
+  threshold: number;
+  snapToGuides: boolean;
+  snapToGrid: boolean;
+  gridSize?: number;
+}
+
+/**
+ * Snaps a rectangle being moved. Smart guides (edges and centres of other
+ * fields and of the page) win over the grid; the returned guides are the
+ * lines that were matched so the editor can draw them.
+ */
+export function snapMove(
+  rect: Rect,
+  {
+    others,
+    page,
+    threshold,
+    snapToGuides,
+    snapToGrid: grid,
+    gridSize,
+  }: SnapOptions,
+): { x: number; y: number; guides: Guide[] } {
+  let { x, y } = rect;
+  const guides: Guide[] = [];
+  let snappedX = false;
+  let snappedY = false;
+
+  if (snapToGuides) {
+    const targets = getSnapTargets(others, page);
+    const snapX = findSnap(
+      [x, x + rect.width / 2, x + rect.width],
+      targets.vertical,
+      threshold,
+    );
+    const snapY = findSnap(
+      [y, y + rect.height / 2, y + rect.height],
+      targets.horizontal,
+      threshold,
+    );
+
+    if (snapX) {
+      x += snapX.offset;
+      snappedX = true;
+      guides.push({ orientation: "vertical", position: snapX.position });
+    }
+    if (snapY) {
+      y += snapY.offset;
+      snappedY = true;
+      guides.push({ orientation: "horizontal", position: snapY.position });
+    }
+  }
+
+  if (grid) {
+    if (!snappedX) x = snapToGrid(x, gridSize);
+    if (!snappedY) y = snapToGrid(y, gridSize);
+  }
+
+  return { x, y, guides };
+}
+
+/**
+ * Snaps only the edges a resize handle moves, leaving the opposite edges
+ * anchored in place.
+ */
+export function snapResize(
+  rect: Rect,
+  handle: ResizeHandle,
+  {
+    others,
+    page,
+    threshold,
+    snapToGuides,
+    snapToGrid: grid,
+    gridSize,
+  }: SnapOptions,
+): { rect: Rect; guides: Guide[] } {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+  const guides: Guide[] = [];
+  const targets = getSnapTargets(others, page);
+
+  const snapEdge = (value: number, orientation: Guide["orientation"]) => {
+    if (snapToGuides) {
+      const snap = findSnap(
+        [value],
+        orientation === "vertical" ? targets.vertical : targets.horizontal,
+        threshold,
+      );
+      if (snap) {
+        guides.push({ orientation, position: snap.position });
+        return snap.position;
+      }
+    }
+    return grid ? snapToGrid(value, gridSize) : value;
+  };
+
+  if (handle.includes("w")) left = snapEdge(left, "vertical");
+  if (handle.includes("e")) right = snapEdge(right, "vertical");
+  if (handle.includes("n")) top = snapEdge(top, "horizontal");
+  if (handle.includes("s")) bottom = snapEdge(bottom, "horizontal");
+
+  if (right - left < MIN_FIELD_SIZE) {
+    if (handle.includes("w")) left = right - MIN_FIELD_SIZE;
+    else right = left + MIN_FIELD_SIZE;
+  }
+  if (bottom - top < MIN_FIELD_SIZE) {
+    if (handle.includes("n")) top = bottom - MIN_FIELD_SIZE;
+    else bottom = top + MIN_FIELD_SIZE;
+  }
+
+  return {
+    rect: { x: left, y: top, width: right - left, height: bottom - top },
+    guides,
+  };
+}
+
+export function alignRects<T extends Rect>(rects: T[], mode: AlignMode): T[] {
+  const bounds = getBounds(rects);
+  if (!bounds || rects.length < 2) return rects;
+
+  return rects.map((r) => {
+    switch (mode) {
+      case "left":
+        return { ...r, x: bounds.x };
+      case "center":
+        return { ...r, x: bounds.x + (bounds.width - r.width) / 2 };
+      case "right":
+        return { ...r, x: bounds.x + bounds.width - r.width };
+      case "top":
+        return { ...r, y: bounds.y };
+      case "middle":
+        return { ...r, y: bounds.y + (bounds.height - r.height) / 2 };
+      case "bottom":
+        return { ...r, y: bounds.y + bounds.height - r.height };
+    }
+  });
+}
+
+/**
+ * Spaces rectangles so the gaps between neighbours are equal, keeping the
+ * first and last (in the given axis) where they are.
+ */
+export function distributeRects<T extends Rect>(
+  rects: T[],
+  axis: DistributeAxis,
+): T[] {
+  if (rects.length < 3) return rects;
+
+  const pos = axis === "horizontal" ? "x" : "y";
+  const dim = axis === "horizontal" ? "width" : "height";
+  const sorted = [...rects].sort((a, b) => a[pos] - b[pos]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const occupied = sorted.reduce((total, r) => total + r[dim], 0);
+  const gap =
+    (last[pos] + last[dim] - first[pos] - occupied) / (sorted.length - 1);
+
+  let cursor = first[pos];
+  const positions = new Map<T, number>();
+  sorted.forEach((r) => {
+    positions.set(r, cursor);
+    cursor += r[dim] + gap;
+  });
+
+  return rects.map((r) => ({ ...r, [pos]: positions.get(r) }));
+}
@@ -0,0 +1,44 @@
+import { format, parseISO } from "date-fns";
+
+export const MESSAGE_PLACEHOLDERS = [
+  { key: "signerName", description: "The recipient's name" },
+  { key: "documentName", description: "The document's name" },
+  { key: "link", description: "The recipient's signing link" },
+  { key: "expiresAt", description: "When the signing link expires" },
+] as const;
+
+export type MessagePlaceholder = (typeof MESSAGE_PLACEHOLDERS)[number]["key"];
+
+export type MessageValues = Record<MessagePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isPlaceholder = (key: string): key is MessagePlaceholder =>
+  MESSAGE_PLACEHOLDERS.some((placeholder) => placeholder.key === key);
+
+export const toMessageValues = (values: {
+  signerName: string;
+  documentName: string;
+  link: string;
+  expiresAt?: string;
+}): MessageValues => ({
+  ...values,
+  expiresAt: values.expiresAt
+    ? format(parseISO(values.expiresAt), "PPP")
+    : "no set date",
+});
+
+// Fills in {{placeholders}}, leaving unknown ones as they are
+export const renderMessage = (text: string, values: MessageValues) =>
+  text.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    isPlaceholder(key) ? values[key] : match,
+  );
+
+// Placeholders in `text` that renderMessage can't fill, e.g. typos
+export const findUnknownPlaceholders = (text: string) => [
+  ...new Set(
+    [...text.matchAll(PLACEHOLDER_PATTERN)]
+      .map(([, key]) => key)
+      .filter((key) => !isPlaceholder(key)),
+  ),
+];
@@ -0,0 +1,108 @@
+import {
+  getDocument,
+  GlobalWorkerOptions,
+  RenderingCancelledException,
+  type PDFDocumentLoadingTask,
+  type PDFDocumentProxy,
+  type RenderTask,
+} from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type PdfDocument = PDFDocumentProxy;
+
+export type PdfLoadingTask = PDFDocumentLoadingTask;
+
+export type PdfRenderTask = RenderTask;
+
+export type PdfSource = File | Blob | ArrayBuffer | Uint8Array | string;
+
+// Page dimensions in PDF points (1/72 inch) at scale 1, after rotation
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+
+export const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 100) / 100));
+
+// Starts loading the PDF. Destroying the task stops a load in progress, or
+// frees the document once it has loaded.
+export async function loadPdf(source: PdfSource): Promise<PdfLoadingTask> {
+  if (typeof source === "string") {
+    return getDocument({ url: source });
+  }
+
+  const data =
+    source instanceof Blob
+      ? new Uint8Array(await source.arrayBuffer())
+      : source instanceof ArrayBuffer
+        ? new Uint8Array(source)
+        : source;
+
+  return getDocument({ data });
+}
+
+// Downloads a stored PDF so it can be edited and uploaded again like a
+// freshly picked file
+export async function fetchPdfFile(url: string, fileName: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download the PDF (status ${response.status})`);
+  }
+  return new File([await response.blob()], fileName, {
+    type: "application/pdf",
+  });
+}
+
+export async function getPageSizes(pdf: PdfDocument): Promise<PdfPageSize[]> {
+  const sizes: PdfPageSize[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    sizes.push({ width: viewport.width, height: viewport.height });
+  }
+
+  return sizes;
+}
+
+/**
+ * Renders a single page into the given canvas at `scale`, sharpening the
+ * output for high-DPI screens. The returned task can be cancelled when the
+ * page, scale or canvas changes before rendering finishes.
+ */
+export async function renderPage(
+  pdf: PdfDocument,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale: number,
+): Promise<PdfRenderTask> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const outputScale = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const canvasContext = canvas.getContext("2d");
+  if (!canvasContext) {
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  return page.render({
+    canvasContext,
+    viewport,
+    transform:
+      outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  });
+}
+
+export const isRenderCancelled = (error: unknown) =>
+  error instanceof RenderingCancelledException;
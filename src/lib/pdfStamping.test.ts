@@ -0,0 +1,219 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  getDocument,
+  OPS,
+  type PDFPageProxy,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { stampSignedPdf, type SignatureCertificate } from "@/lib/pdfStamping";
+import type { SigningField, SigningFieldValue } from "@/types/template";
+
+// a4.pdf, letter.pdf (two pages), rotated.pdf (turned 90 degrees, crop box
+// at 10,20 592x752) and acroform.pdf (a filled "name" text field and an
+// "agree" check box), each page labelled "Page N"
+const fixture = (name: string) =>
+  new Uint8Array(
+    readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url)),
+  );
+
+// A 1x1 PNG, drawn as a square scaled to fit the field
+const SIGNATURE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const certificate: SignatureCertificate = {
+  documentId: "doc-1",
+  documentName: "Employment contract",
+  signerName: "Jane Doe",
+  signerEmail: "jane@example.com",
+  // Mar 1 in every time zone
+  signedAt: new Date("2024-03-01T09:00:00Z"),
+};
+
+const field = (
+  id: string,
+  type: SigningField["type"],
+  page: number,
+  [x, y, width, height]: number[],
+): SigningField => ({
+  id,
+  type,
+  page,
+  position: { x, y },
+  size: { width, height },
+  label: id,
+  required: false,
+});
+
+async function stamp(
+  name: string,
+  fields: SigningField[],
+  values: Record<string, SigningFieldValue>,
+) {
+  const source = fixture(name);
+  const stamped = await stampSignedPdf(source, fields, values, certificate);
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await getDocument({
+    data: stamped.slice(),
+    standardFontDataUrl: new URL(
+      "../../node_modules/pdfjs-dist/standard_fonts/",
+      import.meta.url,
+    ).pathname,
+  }).promise;
+  return { source, stamped, pdf };
+}
+
+async function textOf(page: PDFPageProxy) {
+  const { items } = await page.getTextContent();
+  return (items as TextItem[])
+    .filter(({ str }) => str.trim())
+    .map(({ str, transform }) => ({
+      str,
+      transform: transform.map((n: number) => Number(n.toFixed(2))),
+    }));
+}
+
+type Matrix = number[];
+
+const multiply = ([a, b, c, d, e, f]: Matrix, [g, h, i, j, k, l]: Matrix) => [
+  a * g + b * i,
+  a * h + b * j,
+  c * g + d * i,
+  c * h + d * j,
+  e * g + f * i + k,
+  e * h + f * j + l,
+];
+
+// The transformation each image is painted with; the image's unit square
+// is placed by it, so [4] and [5] are its bottom-left corner
+async function imagesOf(page: PDFPageProxy) {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  const images: Matrix[] = [];
+  fnArray.forEach((fn, index) => {
+    if (fn === OPS.save) stack.push(ctm);
+    else if (fn === OPS.restore) ctm = stack.pop() ?? ctm;
+    else if (fn === OPS.transform) ctm = multiply(argsArray[index], ctm);
+    else if (fn === OPS.paintImageXObject) {
+      images.push(ctm.map((n) => Number(n.toFixed(2))));
+    }
+  });
+  return images;
+}
+
+describe("stampSignedPdf", () => {
+  it("draws text and signatures at their fields on an A4 page", async () => {
+    const { pdf } = await stamp(
+      "a4.pdf",
+      [
+        field("name", "text", 1, [50, 100, 200, 24]),
+        field("signature", "signature", 1, [300, 200, 200, 50]),
+      ],
+      { name: "Jane Doe", signature: SIGNATURE },
+    );
+    const page = await pdf.getPage(1);
+
+    // The baseline sits 7.8pt up a 24pt box for one line of 12pt text
+    expect(await textOf(page)).toContainEqual({
+      str: "Jane Doe",
+      transform: [12, 0, 0, 12, 52, 725.69],
+    });
+    // Scaled to the box's height and centred across it
+    expect(await imagesOf(page)).toEqual([[50, 0, 0, 50, 375, 591.89]]);
+  });
+
+  it("stamps later pages of a letter PDF and keeps their size", async () => {
+    const { pdf } = await stamp(
+      "letter.pdf",
+      [field("city", "text", 2, [72, 72, 150, 20])],
+      { city: "Springfield" },
+    );
+    expect(pdf.numPages).toBe(3);
+
+    const [first, second] = await Promise.all([pdf.getPage(1), pdf.getPage(2)]);
+    expect(first.view).toEqual([0, 0, 612, 792]);
+    expect(second.view).toEqual([0, 0, 612, 792]);
+    expect(await textOf(first)).toEqual([
+      expect.objectContaining({ str: "Page 1" }),
+    ]);
+    expect(await textOf(second)).toContainEqual({
+      str: "Springfield",
+      transform: [12, 0, 0, 12, 74, 705.8],
+    });
+  });
+
+  it("places fields on a rotated, cropped page as it is displayed", async () => {
+    const { pdf } = await stamp(
+      "rotated.pdf",
+      [
+        field("name", "text", 1, [100, 50, 200, 24]),
+        field("signature", "signature", 1, [300, 100, 100, 100]),
+      ],
+      { name: "Jane Doe", signature: SIGNATURE },
+    );
+    const page = await pdf.getPage(1);
+    expect(page.rotate).toBe(90);
+
+    // Turned with the page so it reads upright, displayed x running up
+    // user space from the crop box's bottom and displayed y along it
+    expect(await textOf(page)).toContainEqual({
+      str: "Jane Doe",
+      transform: [0, 12, -12, 0, 76.2, 122],
+    });
+    expect(await imagesOf(page)).toEqual([[0, 100, -100, 0, 210, 320]]);
+  });
+
+  it("flattens the form fields of the original", async () => {
+    const { source, stamped, pdf } = await stamp(
+      "acroform.pdf",
+      [field("date", "text", 1, [50, 300, 200, 24])],
+      { date: "1 March 2024" },
+    );
+
+    const original = await PDFDocument.load(source);
+    expect(original.getForm().getFields()).toHaveLength(2);
+    const reloaded = await PDFDocument.load(stamped);
+    expect(reloaded.getForm().getFields()).toEqual([]);
+
+    const page = await pdf.getPage(1);
+    expect(await page.getAnnotations()).toEqual([]);
+    // The filled value stays on the page as plain content
+    expect((await textOf(page)).map(({ str }) => str)).toEqual(
+      expect.arrayContaining(["Prefilled name", "1 March 2024"]),
+    );
+  });
+
+  it("appends a certificate page listing the signer and values", async () => {
+    const fields = [
+      field("Full name", "text", 1, [50, 100, 200, 24]),
+      field("I agree", "checkbox", 1, [50, 150, 16, 16]),
+      field("Notes", "text", 1, [50, 200, 200, 24]),
+    ];
+    const { source, pdf } = await stamp("a4.pdf", fields, {
+      "Full name": "Jane Doe",
+      "I agree": true,
+    });
+    expect(pdf.numPages).toBe(2);
+
+    const page = await pdf.getPage(2);
+    expect(page.view).toEqual([0, 0, 595.28, 841.89]);
+    const digest = Buffer.from(
+      await crypto.subtle.digest("SHA-256", source),
+    ).toString("hex");
+    expect((await textOf(page)).map(({ str }) => str)).toEqual([
+      "Signature Certificate",
+      "Document: Employment contract",
+      "Document ID: doc-1",
+      `SHA-256 before signing: ${digest}`,
+      "Signed by",
+      "Jane Doe <jane@example.com>",
+      expect.stringMatching(/^Signed Mar 1, 2024/),
+      "Fields",
+      "Full name: Jane Doe",
+      "I agree: Checked",
+      "Notes: -",
+    ]);
+  });
+});
@@ -0,0 +1,255 @@
+import { format } from "date-fns";
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import { FIELD_TYPE_REGISTRY } from "@/lib/fieldTypes";
+import { createPageWriter, toWinAnsi, wrapText } from "@/lib/pdfText";
+import type {
+  SignBlockValue,
+  SigningField,
+  SigningFieldValue,
+} from "@/types/template";
+
+// Who signed, for the certificate page appended after the document
+export interface SignatureCertificate {
+  documentId: string;
+  documentName: string;
+  signerName: string;
+  signerEmail: string;
+  signedAt: Date;
+}
+
+const INK = rgb(0.05, 0.1, 0.3);
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 12;
+const PADDING = 2;
+
+// A field's rectangle on its page. Fields are positioned from the top left
+// of the page as displayed, so `at` turns offsets from the rectangle's
+// bottom-left corner into PDF user space, allowing for the page's crop box
+// and rotation.
+interface FieldBox {
+  width: number;
+  height: number;
+  rotate: ReturnType<typeof degrees>;
+  at: (dx: number, dy: number) => { x: number; y: number };
+}
+
+function getFieldBox(page: PDFPage, field: SigningField): FieldBox {
+  const crop = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const { width, height } = field.size;
+  const left = field.position.x;
+  const bottom = field.position.y + height;
+
+  // Displayed (x down-right, y down) to user space (y up)
+  const toPage = (x: number, y: number) => {
+    switch (rotation) {
+      case 90:
+        return { x: crop.x + y, y: crop.y + x };
+      case 180:
+        return { x: crop.x + crop.width - x, y: crop.y + y };
+      case 270:
+        return { x: crop.x + crop.width - y, y: crop.y + crop.height - x };
+      default:
+        return { x: crop.x + x, y: crop.y + crop.height - y };
+    }
+  };
+
+  return {
+    width,
+    height,
+    rotate: degrees(rotation),
+    at: (dx, dy) => toPage(left + dx, bottom - dy),
+  };
+}
+
+// Text shrunk, and wrapped if need be, to fit inside the box
+function drawFittedText(
+  page: PDFPage,
+  box: FieldBox,
+  text: string,
+  font: PDFFont,
+) {
+  const maxWidth = box.width - PADDING * 2;
+  let size = Math.min(MAX_FONT_SIZE, box.height * 0.7);
+  let lines = wrapText(toWinAnsi(text), font, size, maxWidth);
+  while (
+    size > MIN_FONT_SIZE &&
+    (lines.length * size * 1.2 > box.height ||
+      lines.some((line) => font.widthOfTextAtSize(line, size) > maxWidth))
+  ) {
+    size -= 0.5;
+    lines = wrapText(toWinAnsi(text), font, size, maxWidth);
+  }
+
+  const lineHeight = size * 1.2;
+  // Vertically centred; lines that still don't fit are cut off at the bottom
+  const top = Math.min(
+    box.height,
+    (box.height + lines.length * lineHeight) / 2,
+  );
+  lines.forEach((line, index) => {
+    const baseline = top - (index + 1) * lineHeight + size * 0.25;
+    if (baseline < 0) return;
+    page.drawText(line, {
+      ...box.at(PADDING, baseline),
+      size,
+      font,
+      color: INK,
+      rotate: box.rotate,
+    });
+  });
+}
+
+function drawCheckMark(page: PDFPage, box: FieldBox) {
+  const thickness = Math.max(1, Math.min(box.width, box.height) * 0.1);
+  const points: [number, number][] = [
+    [0.2, 0.5],
+    [0.42, 0.25],
+    [0.8, 0.78],
+  ];
+  points.slice(1).forEach(([x, y], index) => {
+    const [fromX, fromY] = points[index];
+    page.drawLine({
+      start: box.at(fromX * box.width, fromY * box.height),
+      end: box.at(x * box.width, y * box.height),
+      thickness,
+      color: INK,
+    });
+  });
+}
+
+// A PNG data URL from the signature pad, scaled to fit and centred
+async function drawSignature(
+  pdf: PDFDocument,
+  page: PDFPage,
+  box: FieldBox,
+  dataUrl: string,
+) {
+  const image = await pdf.embedPng(dataUrl);
+  const scale = Math.min(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  page.drawImage(image, {
+    ...box.at((box.width - width) / 2, (box.height - height) / 2),
+    width,
+    height,
+    rotate: box.rotate,
+  });
+}
+
+// How a value reads as text, on the page and on the certificate
+function formatValue(field: SigningField, value: SigningFieldValue) {
+  if (value instanceof Date) return format(value, "PP");
+  if (typeof value === "boolean") return value ? "Checked" : "Unchecked";
+  if (typeof value === "object") {
+    const captured = (
+      [
+        ["signature", "signature"],
+        ["video", "video"],
+        ["audio", "audio"],
+        ["image", "selfie"],
+      ] as const
+    )
+      .filter(([key]) => (value as SignBlockValue)[key])
+      .map(([, name]) => name);
+    return captured.length > 0 ? `Captured ${captured.join(", ")}` : "";
+  }
+  if (field.type === "signature" || field.type === "initials") {
+    return value ? `${FIELD_TYPE_REGISTRY[field.type].name} drawn` : "";
+  }
+  return value;
+}
+
+async function sha256Hex(data: Uint8Array) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Burns a signer's values into the PDF at each field's page, position and
+ * size, flattens any form fields the PDF had, and appends a signature
+ * certificate page. Empty values are left off the page.
+ */
+export async function stampSignedPdf(
+  source: ArrayBuffer | Uint8Array,
+  fields: SigningField[],
+  values: Record<string, SigningFieldValue>,
+  certificate: SignatureCertificate,
+): Promise<Uint8Array> {
+  const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+  const pdf = await PDFDocument.load(bytes);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const pages = pdf.getPages();
+
+  for (const field of fields) {
+    const page = pages[field.page - 1];
+    const value = values[field.id];
+    if (!page || value === undefined || value === "" || value === false) {
+      continue;
+    }
+    const box = getFieldBox(page, field);
+
+    if (field.type === "checkbox") {
+      drawCheckMark(page, box);
+    } else if (field.type === "signature" || field.type === "initials") {
+      await drawSignature(pdf, page, box, value as string);
+    } else if (field.type === "signblock") {
+      const { signature } = value as SignBlockValue;
+      if (signature) {
+        await drawSignature(pdf, page, box, signature);
+      } else {
+        const text = formatValue(field, value);
+        if (text) drawFittedText(page, box, text, font);
+      }
+    } else {
+      drawFittedText(page, box, formatValue(field, value), font);
+    }
+  }
+
+  // Form fields of the original would otherwise stay editable
+  pdf.getForm().flatten();
+
+  const { write, gap } = createPageWriter(pdf, font);
+  const muted = rgb(0.4, 0.4, 0.4);
+  write("Signature Certificate", { size: 20, useFont: bold });
+  gap(8);
+  write(`Document: ${certificate.documentName}`, { size: 12 });
+  write(`Document ID: ${certificate.documentId}`, { color: muted });
+  write(`SHA-256 before signing: ${await sha256Hex(bytes)}`, {
+    size: 8,
+    color: muted,
+  });
+
+  gap(16);
+  write("Signed by", { size: 14, useFont: bold });
+  write(`${certificate.signerName} <${certificate.signerEmail}>`, {
+    useFont: bold,
+  });
+  write(`Signed ${format(certificate.signedAt, "PPpp")}`, { color: muted });
+
+  gap(16);
+  write("Fields", { size: 14, useFont: bold });
+  fields.forEach((field) => {
+    const value = values[field.id];
+    const text = value === undefined ? "" : formatValue(field, value);
+    write(
+      `${field.label || FIELD_TYPE_REGISTRY[field.type].name}: ${text || "-"}`,
+      {
+        indent: 12,
+      },
+    );
+  });
+
+  pdf.setModificationDate(certificate.signedAt);
+  return pdf.save();
+}
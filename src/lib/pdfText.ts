@@ -0,0 +1,81 @@
+import { rgb, type PDFDocument, type PDFFont, type RGB } from "pdf-lib";
+
+export const A4_PAGE_SIZE: [number, number] = [595.28, 841.89]; // In points
+const MARGIN = 50;
+
+// Splits text into lines that fit `maxWidth` at the given font size
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+) {
+  const lines: string[] = [];
+  let line = "";
+  text.split(/\s+/).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+// The standard fonts only cover WinAnsi, so drop anything they can't draw
+export const toWinAnsi = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+interface WriteOptions {
+  size?: number;
+  useFont?: PDFFont;
+  color?: RGB;
+  indent?: number;
+}
+
+/**
+ * Lays out report-style text on new A4 pages: each `write` wraps its text
+ * below the previous one and starts another page when the current one is
+ * full.
+ */
+export function createPageWriter(pdf: PDFDocument, font: PDFFont) {
+  const width = A4_PAGE_SIZE[0] - MARGIN * 2;
+  let page = pdf.addPage(A4_PAGE_SIZE);
+  let y = A4_PAGE_SIZE[1] - MARGIN;
+
+  const write = (
+    text: string,
+    {
+      size = 10,
+      useFont = font,
+      color = rgb(0, 0, 0),
+      indent = 0,
+    }: WriteOptions = {},
+  ) => {
+    wrapText(toWinAnsi(text), useFont, size, width - indent).forEach((line) => {
+      if (y - size < MARGIN) {
+        page = pdf.addPage(A4_PAGE_SIZE);
+        y = A4_PAGE_SIZE[1] - MARGIN;
+      }
+      y -= size * 1.4;
+      page.drawText(line, {
+        x: MARGIN + indent,
+        y,
+        size,
+        font: useFont,
+        color,
+      });
+    });
+  };
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  return { write, gap };
+}
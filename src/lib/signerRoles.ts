@@ -0,0 +1,59 @@
+import type { SignerRole, TemplateConfig } from "@/types/config";
+import type { Signer, SignerAssignment } from "@/types/template";
+
+export const ROLE_COLORS = [
+  "#2563EB",
+  "#DC2626",
+  "#16A34A",
+  "#9333EA",
+  "#EA580C",
+  "#0891B2",
+  "#DB2777",
+  "#65A30D",
+];
+
+export function createSignerRole(existing: SignerRole[]): SignerRole {
+  const usedColors = new Set(existing.map((role) => role.color));
+  const color =
+    ROLE_COLORS.find((c) => !usedColors.has(c)) ??
+    ROLE_COLORS[existing.length % ROLE_COLORS.length];
+
+  let number = existing.length + 1;
+  while (existing.some((role) => role.id === `role-${number}`)) number++;
+
+  return { id: `role-${number}`, name: `Signer ${number}`, color };
+}
+
+export const getRoleColor = (role: SignerRole | undefined) =>
+  role?.color ?? ROLE_COLORS[0];
+
+// Hex colour with the given alpha, for tinted field backgrounds
+export const withAlpha = (hex: string, alpha: number) =>
+  `${hex}${Math.round(alpha * 255)
+    .toString(16)
+    .padStart(2, "0")}`;
+
+/**
+ * Works out which template fields each signer fills in. Fields are assigned
+ * through the signer's role; fields without a role go to the first signer so
+ * that every field has an owner.
+ */
+export function buildSignerAssignments(
+  signers: Signer[],
+  config: Pick<TemplateConfig, "fields"> | undefined,
+): SignerAssignment[] {
+  const fields = config?.fields ?? [];
+
+  return signers.map((signer, index) => ({
+    signerId: signer.signerId,
+    signerName: signer.signerName,
+    signerEmail: signer.signerEmail,
+    fields: fields
+      .filter((field) =>
+        field.signerRoleId ? field.signerRoleId === signer.roleId : index === 0,
+      )
+      .map((field) => field.id),
+    roleId: signer.roleId,
+    status: "pending",
+  }));
+}
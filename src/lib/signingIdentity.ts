@@ -0,0 +1,16 @@
+import type { SigningIdentity } from "@/types/template";
+
+/**
+ * The identity this browser seals ASiC-E containers with: the self-signed
+ * test one in development, none in production, where a private key must
+ * never reach the signer and the backend seals the container instead.
+ */
+export async function loadSigningIdentity(): Promise<
+  SigningIdentity | undefined
+> {
+  if (import.meta.env.DEV) {
+    const { TEST_SIGNING_IDENTITY } = await import("@/mocks/signingIdentity");
+    return TEST_SIGNING_IDENTITY;
+  }
+  return undefined;
+}
@@ -0,0 +1,64 @@
+import type { Signer, SignerAssignment, SigningOrder } from "@/types/template";
+
+export const SIGNING_ORDER_OPTIONS: Record<
+  SigningOrder,
+  { label: string; description: string }
+> = {
+  parallel: {
+    label: "Parallel",
+    description: "Everyone is invited at once and can sign in any order.",
+  },
+  sequential: {
+    label: "Sequential",
+    description:
+      "Signers are invited one at a time, in the order listed below.",
+  },
+  staged: {
+    label: "Stages",
+    description:
+      "Signers in the same stage sign in parallel; the next stage is invited once the previous one is done.",
+  },
+};
+
+/**
+ * The step at which each signer, in list order, is invited. Stage numbers
+ * are compacted so that e.g. stages 1, 3, 3 become steps 1, 2, 2.
+ */
+export function getSigningSteps(
+  signers: Pick<Signer, "stage">[],
+  order: SigningOrder,
+): number[] {
+  switch (order) {
+    case "parallel":
+      return signers.map(() => 1);
+    case "sequential":
+      return signers.map((_, index) => index + 1);
+    case "staged": {
+      const stages = [...new Set(signers.map(({ stage }) => stage ?? 1))].sort(
+        (a, b) => a - b,
+      );
+      return signers.map(({ stage }) => stages.indexOf(stage ?? 1) + 1);
+    }
+  }
+}
+
+type StepAssignment = Pick<SignerAssignment, "status" | "step">;
+
+// The step whose signers are currently invited, or undefined once everyone
+// has signed
+export function getCurrentStep(assignments: StepAssignment[]) {
+  const pending = assignments
+    .filter(({ status }) => status === "pending")
+    .map(({ step }) => step ?? 1);
+  return pending.length > 0 ? Math.min(...pending) : undefined;
+}
+
+// Signers of earlier steps who still have to sign before `assignment` can
+export const getBlockingAssignments = <T extends StepAssignment>(
+  assignments: T[],
+  assignment: StepAssignment,
+) =>
+  assignments.filter(
+    (other) =>
+      other.status === "pending" && (other.step ?? 1) < (assignment.step ?? 1),
+  );
@@ -0,0 +1,130 @@
+import type { ContainerFile } from "@/lib/asice";
+import type {
+  SignBlockValue,
+  SigningField,
+  SigningFieldValue,
+} from "@/types/template";
+
+// Recorded media of a SignBlock, in the order it is uploaded
+const MEDIA_KEYS = ["video", "audio", "image"] as const;
+
+const EXTENSIONS: Record<string, string> = {
+  "video/webm": "webm",
+  "video/mp4": "mp4",
+  "audio/webm": "weba",
+  "audio/mp4": "m4a",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+const extensionFor = (blob: Blob) =>
+  EXTENSIONS[blob.type.split(";")[0]] ?? "bin";
+
+// Every value as JSON, with each SignBlock recording handed to `addMedia`
+// and replaced by the name it returns
+function serializeValues(
+  fields: SigningField[],
+  values: Record<string, SigningFieldValue>,
+  addMedia: (part: string, blob: Blob, fileName: string) => string,
+) {
+  const json: Record<string, unknown> = {};
+
+  fields.forEach((field) => {
+    const value = values[field.id];
+
+    if (field.type === "signblock") {
+      const signBlock = (value ?? {}) as SignBlockValue;
+      const media: Record<string, string> = {};
+      MEDIA_KEYS.forEach((key) => {
+        const blob = signBlock[key];
+        if (!blob) return;
+        const part = `${field.id}.${key}`;
+        media[key] = addMedia(part, blob, `${part}.${extensionFor(blob)}`);
+      });
+      json[field.id] = { signature: signBlock.signature ?? null, media };
+      return;
+    }
+
+    json[field.id] = value instanceof Date ? value.toISOString() : value;
+  });
+
+  return json;
+}
+
+// What the signed submission can carry besides the answers
+export interface SigningAttachments {
+  // The flattened PDF from stampSignedPdf
+  signedPdf?: Blob;
+  // The document's signedPdfVersion the PDF was stamped onto, so a stamp
+  // made before another signer's can be turned away
+  baseVersion?: number;
+  // The ASiC-E container from buildAsicContainer
+  container?: Blob;
+}
+
+/**
+ * Packages a signer's answers as multipart form data: a `fields` JSON part
+ * with every value, plus one file part per SignBlock recording. In the JSON
+ * a recording is replaced by the name of its file part, e.g.
+ * `{ "video": "field-3.video" }`. Attachments go in `signedPdf` and
+ * `container` parts, and the signed version they were stamped onto in
+ * `baseVersion`.
+ */
+export function buildSigningSubmission(
+  documentId: string,
+  signerId: string,
+  fields: SigningField[],
+  values: Record<string, SigningFieldValue>,
+  { signedPdf, container, baseVersion }: SigningAttachments = {},
+): FormData {
+  const formData = new FormData();
+  if (signedPdf) formData.append("signedPdf", signedPdf, "signed.pdf");
+  if (baseVersion !== undefined) {
+    formData.append("baseVersion", String(baseVersion));
+  }
+  if (container) formData.append("container", container, "signed.asice");
+
+  const json = serializeValues(fields, values, (part, blob, fileName) => {
+    formData.append(part, blob, fileName);
+    return part;
+  });
+  formData.append(
+    "fields",
+    JSON.stringify({ documentId, signerId, values: json }),
+  );
+  return formData;
+}
+
+/**
+ * What a signer's ASiC-E container holds: the signed PDF, their answers as
+ * fields.json, and each SignBlock recording under media/, which the JSON
+ * refers to by path.
+ */
+export function buildContainerFiles(
+  documentId: string,
+  signerId: string,
+  fields: SigningField[],
+  values: Record<string, SigningFieldValue>,
+  signedPdf: Blob,
+): ContainerFile[] {
+  const media: ContainerFile[] = [];
+  const json = serializeValues(fields, values, (_part, blob, fileName) => {
+    const name = `media/${fileName}`;
+    media.push({
+      name,
+      data: blob,
+      mimeType: blob.type.split(";")[0] || "application/octet-stream",
+    });
+    return name;
+  });
+
+  return [
+    { name: "signed.pdf", data: signedPdf, mimeType: "application/pdf" },
+    {
+      name: "fields.json",
+      data: new Blob([JSON.stringify({ documentId, signerId, values: json })]),
+      mimeType: "application/json",
+    },
+    ...media,
+  ];
+}
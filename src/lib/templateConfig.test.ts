@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { fitItemsToPages } from "@/lib/templateConfig";
+import type { ControlItem } from "@/types/template";
+
+const A4 = { width: 595.28, height: 841.89 };
+
+const item = (id: string, overrides: Partial<ControlItem> = {}) =>
+  ({
+    id,
+    type: "text",
+    x: 50,
+    y: 50,
+    width: 100,
+    height: 24,
+    page: 1,
+    label: id,
+    required: false,
+    ...overrides,
+  }) satisfies ControlItem;
+
+describe("fitItemsToPages", () => {
+  it("leaves fields that fit their page alone", () => {
+    const items = [item("a"), item("b", { page: 2 })];
+    expect(fitItemsToPages(items, [A4, A4])).toEqual({ items, issues: [] });
+  });
+
+  it("renames duplicate IDs without taking an ID already in use", () => {
+    // "a" seen once makes "a-2" the first candidate, which comes later on
+    const { items, issues } = fitItemsToPages(
+      [item("a"), item("a"), item("a-2"), item("a-3"), item("a")],
+      [A4],
+    );
+    expect(items.map(({ id }) => id)).toEqual([
+      "a",
+      "a-4",
+      "a-2",
+      "a-3",
+      "a-5",
+    ]);
+    expect(new Set(items.map(({ id }) => id)).size).toBe(items.length);
+    expect(issues.map(({ message }) => message)).toEqual([
+      'Duplicate field ID "a" was renamed to "a-4"',
+      'Duplicate field ID "a" was renamed to "a-5"',
+    ]);
+  });
+
+  it("moves fields on missing pages or off the page back inside", () => {
+    const { items, issues } = fitItemsToPages(
+      [item("late", { page: 3 }), item("wide", { x: 500, width: 200 })],
+      [A4],
+    );
+    expect(items.map(({ page }) => page)).toEqual([1, 1]);
+    expect(items[1].x + items[1].width).toBeLessThanOrEqual(A4.width);
+    expect(issues.map(({ fieldId }) => fieldId)).toEqual(["late", "wide"]);
+  });
+});
@@ -0,0 +1,446 @@
+import { z } from "zod";
+import { ControlItem, SigningField } from "@/types/template";
+import {
+  AUTO_FILL_SOURCES,
+  CURRENT_CONFIG_VERSION,
+  FIELD_TYPES,
+  jsonObjectSchema,
+  templateConfigSchema,
+  type AutoFillSource,
+  type JsonObject,
+  type SignerRole,
+  type TemplateConfig,
+} from "@/types/config";
+import { clampToPage, type Size } from "@/lib/layout";
+import { migrateConfig } from "@/lib/configMigrations";
+import { FIELD_TYPE_REGISTRY, getFieldDefaults } from "@/lib/fieldTypes";
+
+export interface ImportIssue {
+  severity: "error" | "warning";
+  message: string;
+  fieldId?: string;
+}
+
+export interface ImportResult {
+  items: ControlItem[];
+  roles: SignerRole[];
+  issues: ImportIssue[];
+}
+
+const DEFAULT_CAPTURE_OPTIONS = {
+  video: true,
+  audio: true,
+  image: true,
+  signature: true,
+};
+
+export interface ConfigError {
+  // Location of the problem, e.g. "fields[2].size.width"
+  path: string;
+  message: string;
+}
+
+export const isFieldType = (value: unknown): value is ControlItem["type"] =>
+  FIELD_TYPES.includes(value as ControlItem["type"]);
+
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (result, segment) =>
+      typeof segment === "number"
+        ? `${result}[${segment}]`
+        : result
+          ? `${result}.${segment}`
+          : segment,
+    "",
+  );
+
+export const formatConfigError = ({ path, message }: ConfigError) =>
+  path ? `${path}: ${message}` : message;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value !== "" ? value : undefined;
+
+// Parsed JSON as an object, or an empty one if it is anything else
+export const asObject = (value: unknown): JsonObject => {
+  const parsed = jsonObjectSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+};
+
+const isAutoFillSource = (value: unknown): value is AutoFillSource =>
+  AUTO_FILL_SOURCES.includes(value as AutoFillSource);
+
+export function serializeConfig(
+  items: ControlItem[],
+  roles: SignerRole[],
+): string {
+  const config: TemplateConfig = {
+    version: CURRENT_CONFIG_VERSION,
+    signerRoles: roles,
+    fields: items.map((item) => ({
+      id: item.id,
+      type: item.type,
+      page: item.page,
+      position: { x: item.x, y: item.y },
+      size: { width: item.width, height: item.height },
+      label: item.label,
+      required: item.required,
+      ...(item.placeholder && { placeholder: item.placeholder }),
+      ...(item.defaultValue && { defaultValue: item.defaultValue }),
+      ...(item.helpText && { helpText: item.helpText }),
+      ...(item.signerRoleId && { signerRoleId: item.signerRoleId }),
+      ...(FIELD_TYPE_REGISTRY[item.type].hasOptions && {
+        options: item.options?.filter(Boolean),
+      }),
+      ...(item.type === "autofill" && {
+        autoFillSource: item.autoFillSource,
+      }),
+      ...(item.type === "signblock" && {
+        captureOptions: item.captureOptions,
+      }),
+    })),
+  };
+
+  return JSON.stringify(config, null, 2);
+}
+
+interface RawField {
+  id?: unknown;
+  type?: unknown;
+  page?: unknown;
+  x?: unknown;
+  y?: unknown;
+  width?: unknown;
+  height?: unknown;
+  label?: unknown;
+  required?: unknown;
+  placeholder?: unknown;
+  defaultValue?: unknown;
+  helpText?: unknown;
+  signerRoleId?: unknown;
+  options?: unknown;
+  autoFillSource?: unknown;
+  captureOptions?: unknown;
+}
+
+/**
+ * Turns a loosely-typed field description (from config or fabric JSON) into
+ * a ControlItem, or explains why it cannot be imported.
+ */
+export function toControlItem(
+  raw: RawField,
+  index: number,
+): { item?: ControlItem; issue?: ImportIssue } {
+  const id =
+    typeof raw.id === "string" && raw.id ? raw.id : `field-${index + 1}`;
+
+  if (!isFieldType(raw.type)) {
+    return {
+      issue: {
+        severity: "error",
+        fieldId: id,
+        message: `Field "${id}" has unknown type "${String(raw.type)}" and was not imported`,
+      },
+    };
+  }
+
+  const geometry = [raw.x, raw.y, raw.width, raw.height];
+  if (!geometry.every(isFiniteNumber)) {
+    return {
+      issue: {
+        severity: "error",
+        fieldId: id,
+        message: `Field "${id}" is missing its position or size and was not imported`,
+      },
+    };
+  }
+
+  const captureOptions =
+    raw.type === "signblock"
+      ? {
+          ...DEFAULT_CAPTURE_OPTIONS,
+          ...(typeof raw.captureOptions === "object" && raw.captureOptions),
+        }
+      : undefined;
+  const defaults = getFieldDefaults(raw.type);
+
+  // Choice fields keep their non-empty, distinct options; fall back to the
+  // placeholder options so the field stays usable
+  const options = FIELD_TYPE_REGISTRY[raw.type].hasOptions
+    ? Array.isArray(raw.options) &&
+      raw.options.some((o) => typeof o === "string" && o)
+      ? [
+          ...new Set(
+            raw.options.filter(
+              (o): o is string => typeof o === "string" && o !== "",
+            ),
+          ),
+        ]
+      : defaults.options
+    : undefined;
+
+  const autoFillSource =
+    raw.type === "autofill"
+      ? isAutoFillSource(raw.autoFillSource)
+        ? raw.autoFillSource
+        : defaults.autoFillSource
+      : undefined;
+
+  return {
+    item: {
+      id,
+      type: raw.type,
+      page: isFiniteNumber(raw.page) ? Math.round(raw.page) : 1,
+      x: raw.x as number,
+      y: raw.y as number,
+      width: raw.width as number,
+      height: raw.height as number,
+      label: typeof raw.label === "string" ? raw.label : "",
+      required: raw.required === true,
+      placeholder: optionalString(raw.placeholder),
+      defaultValue: optionalString(raw.defaultValue),
+      helpText: optionalString(raw.helpText),
+      signerRoleId: optionalString(raw.signerRoleId),
+      ...(options && { options }),
+      ...(autoFillSource && { autoFillSource }),
+      ...(captureOptions && { captureOptions }),
+    },
+  };
+}
+
+// Fields of a document created from the template, as the signing page sees
+// them
+export const toSigningFields = (config: TemplateConfig): SigningField[] =>
+  config.fields.map(({ signerRoleId, ...field }) => field as SigningField);
+
+/**
+ * Reads the signer roles of an imported config or fabric document, dropping
+ * entries without an ID and repeated IDs.
+ */
+export function toSignerRoles(raw: unknown, issues: ImportIssue[]) {
+  if (!Array.isArray(raw)) return [];
+
+  const roles: SignerRole[] = [];
+  raw.forEach((entry, index) => {
+    const role = asObject(entry);
+    if (typeof role.id !== "string" || !role.id) {
+      issues.push({
+        severity: "warning",
+        message: `Signer role ${index + 1} has no ID and was ignored`,
+      });
+      return;
+    }
+    if (roles.some((existing) => existing.id === role.id)) {
+      issues.push({
+        severity: "warning",
+        message: `Duplicate signer role "${role.id}" was ignored`,
+      });
+      return;
+    }
+    roles.push({
+      id: role.id,
+      name: typeof role.name === "string" && role.name ? role.name : role.id,
+      ...(typeof role.color === "string" && { color: role.color }),
+      ...(role.allowReassign === true && { allowReassign: true }),
+    });
+  });
+  return roles;
+}
+
+// Fields pointing at roles that aren't defined are left unassigned
+export function assignKnownRoles(
+  items: ControlItem[],
+  roles: SignerRole[],
+  issues: ImportIssue[],
+) {
+  return items.map((item) => {
+    if (!item.signerRoleId || roles.some((r) => r.id === item.signerRoleId)) {
+      return item;
+    }
+    issues.push({
+      severity: "warning",
+      fieldId: item.id,
+      message: `Field "${item.id}" is assigned to unknown signer role "${item.signerRoleId}" and was left unassigned`,
+    });
+    return { ...item, signerRoleId: undefined };
+  });
+}
+
+/**
+ * Parses, upgrades and validates a config against the template config
+ * schema. Every problem is reported with its path so it can be fixed in the
+ * JSON by hand.
+ */
+export function validateConfig(json: string): {
+  config?: TemplateConfig;
+  errors: ConfigError[];
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { errors: [{ path: "", message: "Config must be valid JSON" }] };
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = migrateConfig(raw).config;
+  } catch (error) {
+    return {
+      errors: [
+        {
+          path: "version",
+          message:
+            error instanceof Error ? error.message : "Unsupported config",
+        },
+      ],
+    };
+  }
+
+  const result = templateConfigSchema.safeParse(migrated);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map((issue) => ({
+        path: formatPath(issue.path),
+        message: issue.message,
+      })),
+    };
+  }
+
+  return { config: result.data, errors: [] };
+}
+
+export function parseConfig(json: string): ImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return {
+      items: [],
+      roles: [],
+      issues: [{ severity: "error", message: "Config is not valid JSON" }],
+    };
+  }
+
+  const issues: ImportIssue[] = [];
+  let config: JsonObject;
+  try {
+    const { config: upgraded, fromVersion, migrated } = migrateConfig(raw);
+    config = upgraded;
+    if (migrated) {
+      issues.push({
+        severity: "warning",
+        message: `Config was upgraded from version ${fromVersion} to ${CURRENT_CONFIG_VERSION}`,
+      });
+    }
+  } catch (error) {
+    return {
+      items: [],
+      roles: [],
+      issues: [
+        {
+          severity: "error",
+          message:
+            error instanceof Error ? error.message : "Unsupported config",
+        },
+      ],
+    };
+  }
+
+  const fields = z.array(z.unknown()).safeParse(config.fields);
+  if (!fields.success) {
+    return {
+      items: [],
+      roles: [],
+      issues: [
+        { severity: "error", message: "Config does not contain a fields list" },
+      ],
+    };
+  }
+
+  const items: ControlItem[] = [];
+  fields.data.forEach((entry, index) => {
+    const field = asObject(entry);
+    const position = asObject(field.position);
+    const size = asObject(field.size);
+    const { item, issue } = toControlItem(
+      {
+        ...field,
+        x: position.x,
+        y: position.y,
+        width: size.width,
+        height: size.height,
+      },
+      index,
+    );
+    if (item) items.push(item);
+    if (issue) issues.push(issue);
+  });
+
+  const roles = toSignerRoles(config.signerRoles, issues);
+  return { items: assignKnownRoles(items, roles, issues), roles, issues };
+}
+
+/**
+ * Checks imported fields against the loaded PDF. Fields on pages that don't
+ * exist or sticking out of their page are moved back inside and reported;
+ * duplicate IDs are renamed so selection and signer assignment stay unique.
+ */
+export function fitItemsToPages(
+  items: ControlItem[],
+  pageSizes: Size[],
+): Omit<ImportResult, "roles"> {
+  const issues: ImportIssue[] = [];
+  const seenIds = new Set<string>();
+  // A new name mustn't take the ID of a field further down either
+  const incomingIds = new Set(items.map(({ id }) => id));
+
+  const fitted = items.map((original) => {
+    let item = original;
+
+    if (seenIds.has(item.id)) {
+      let suffix = seenIds.size + 1;
+      const isTaken = (id: string) => seenIds.has(id) || incomingIds.has(id);
+      while (isTaken(`${item.id}-${suffix}`)) suffix++;
+      const id = `${item.id}-${suffix}`;
+      issues.push({
+        severity: "warning",
+        fieldId: item.id,
+        message: `Duplicate field ID "${item.id}" was renamed to "${id}"`,
+      });
+      item = { ...item, id };
+    }
+    seenIds.add(item.id);
+
+    if (item.page < 1 || item.page > pageSizes.length) {
+      const page = Math.min(Math.max(1, item.page), pageSizes.length);
+      issues.push({
+        severity: "warning",
+        fieldId: item.id,
+        message: `Field "${item.id}" is on page ${item.page}, but the PDF has ${pageSizes.length} page(s); moved to page ${page}`,
+      });
+      item = { ...item, page };
+    }
+
+    const pageSize = pageSizes[item.page - 1];
+    const clamped = clampToPage(item, pageSize);
+    if (
+      clamped.x !== item.x ||
+      clamped.y !== item.y ||
+      clamped.width !== item.width ||
+      clamped.height !== item.height
+    ) {
+      issues.push({
+        severity: "warning",
+        fieldId: item.id,
+        message: `Field "${item.id}" at (${Math.round(item.x)}, ${Math.round(item.y)}) lies outside page ${item.page}; moved inside the page`,
+      });
+    }
+
+    return clamped;
+  });
+
+  return { items: fitted, issues };
+}
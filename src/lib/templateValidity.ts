@@ -0,0 +1,27 @@
+import { format, isAfter, isBefore, parseISO } from "date-fns";
+import type { Template } from "@/types/template";
+
+const parseDate = (value?: string) => (value ? parseISO(value) : null);
+
+// Templates can only be used between validFrom and validTo, and not once
+// archived; a missing bound leaves that side open
+export function isTemplateAvailable(template: Template, now = new Date()) {
+  if (template.status === "archived") return false;
+  const from = parseDate(template.validFrom);
+  const to = parseDate(template.validTo);
+  if (from && isBefore(now, from)) return false;
+  if (to && isAfter(now, to)) return false;
+  return true;
+}
+
+export const formatTemplateDate = (value?: string) =>
+  value ? format(parseISO(value), "PP") : null;
+
+export function formatValidityWindow(template: Template) {
+  const from = formatTemplateDate(template.validFrom);
+  const to = formatTemplateDate(template.validTo);
+  if (from && to) return `${from} – ${to}`;
+  if (from) return `From ${from}`;
+  if (to) return `Until ${to}`;
+  return "No expiry";
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { TEST_SIGNING_IDENTITY } from "@/mocks/signingIdentity";
+import { fromBase64, parseCertificate, pemToDer, toBase64 } from "@/lib/x509";
+
+describe("parseCertificate", () => {
+  it("reads the subject, validity and key algorithm", () => {
+    const der = pemToDer(TEST_SIGNING_IDENTITY.certificate, "CERTIFICATE");
+    const certificate = parseCertificate(der);
+    expect(certificate).toMatchObject({
+      subjectName: "SelfieSign Test Signer",
+      notBefore: new Date("2026-10-19T09:56:59Z"),
+      notAfter: new Date("2036-10-16T09:56:59Z"),
+      algorithm: { name: "ECDSA", namedCurve: "P-256" },
+    });
+    expect(certificate.der).toEqual(der);
+  });
+
+  it("rejects DER that isn't a certificate", () => {
+    expect(() => parseCertificate(new Uint8Array([0x04, 0x01, 0x00]))).toThrow(
+      "Not an X.509 certificate",
+    );
+    expect(() => parseCertificate(new Uint8Array([0x30, 0x10, 0x00]))).toThrow(
+      "The certificate is truncated or malformed",
+    );
+  });
+});
+
+describe("pemToDer", () => {
+  it("reports a missing block by its label", () => {
+    expect(() =>
+      pemToDer(TEST_SIGNING_IDENTITY.certificate, "PRIVATE KEY"),
+    ).toThrow("No private key found in the PEM");
+  });
+
+  it("round trips through base64", () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+});
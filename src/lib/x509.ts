@@ -0,0 +1,186 @@
+// Just enough DER and X.509 reading to sign and verify with a certificate's
+// key through WebCrypto, which can't parse certificates itself
+
+interface DerElement {
+  tag: number;
+  // The whole element, header included
+  bytes: Uint8Array;
+  content: Uint8Array;
+}
+
+const SEQUENCE = 0x30;
+const OBJECT_IDENTIFIER = 0x06;
+const UTC_TIME = 0x17;
+const GENERALIZED_TIME = 0x18;
+const VERSION_TAG = 0xa0;
+
+const OID_COMMON_NAME = "2.5.4.3";
+const OID_RSA_ENCRYPTION = "1.2.840.113549.1.1.1";
+const OID_EC_PUBLIC_KEY = "1.2.840.10045.2.1";
+const OID_P256 = "1.2.840.10045.3.1.7";
+
+export type SigningAlgorithm =
+  | { name: "ECDSA"; namedCurve: "P-256" }
+  | { name: "RSASSA-PKCS1-v1_5"; hash: "SHA-256" };
+
+export interface Certificate {
+  der: Uint8Array;
+  subjectName: string;
+  notBefore: Date;
+  notAfter: Date;
+  publicKeyInfo: Uint8Array;
+  algorithm: SigningAlgorithm;
+}
+
+function readElement(data: Uint8Array, offset: number): DerElement {
+  const tag = data[offset];
+  let length = data[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + data[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+  const end = offset + headerLength + length;
+  if (tag === undefined || end > data.length) {
+    throw new Error("The certificate is truncated or malformed");
+  }
+  return {
+    tag,
+    bytes: data.subarray(offset, end),
+    content: data.subarray(offset + headerLength, end),
+  };
+}
+
+function readChildren({ content }: DerElement) {
+  const children: DerElement[] = [];
+  for (let offset = 0; offset < content.length;) {
+    const child = readElement(content, offset);
+    children.push(child);
+    offset += child.bytes.length;
+  }
+  return children;
+}
+
+function readOid({ content }: DerElement) {
+  const parts = [Math.floor(content[0] / 40), content[0] % 40];
+  let value = 0;
+  content.subarray(1).forEach((byte) => {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  });
+  return parts.join(".");
+}
+
+function readTime({ tag, content }: DerElement) {
+  const text = new TextDecoder().decode(content);
+  // UTCTime has a two digit year: 50-99 are 19xx, the rest 20xx
+  const full =
+    tag === UTC_TIME
+      ? `${Number(text.slice(0, 2)) < 50 ? "20" : "19"}${text}`
+      : text;
+  const [, year, month, day, hour, minute, second] =
+    full.match(/^(\d{4})(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)/) ?? [];
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+}
+
+// The common name (CN) from a Name
+function readCommonName(name: DerElement) {
+  for (const attributes of readChildren(name)) {
+    for (const attribute of readChildren(attributes)) {
+      const [type, value] = readChildren(attribute);
+      if (readOid(type) === OID_COMMON_NAME) {
+        return new TextDecoder().decode(value.content);
+      }
+    }
+  }
+  return "Unknown signer";
+}
+
+function readAlgorithm(publicKeyInfo: DerElement): SigningAlgorithm {
+  const [algorithm] = readChildren(publicKeyInfo);
+  const [keyType, parameters] = readChildren(algorithm);
+  const oid = readOid(keyType);
+  if (oid === OID_RSA_ENCRYPTION) {
+    return { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+  }
+  if (
+    oid === OID_EC_PUBLIC_KEY &&
+    parameters?.tag === OBJECT_IDENTIFIER &&
+    readOid(parameters) === OID_P256
+  ) {
+    return { name: "ECDSA", namedCurve: "P-256" };
+  }
+  throw new Error("Only RSA and P-256 ECDSA certificates are supported");
+}
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  const certificate = readElement(der, 0);
+  if (certificate.tag !== SEQUENCE) {
+    throw new Error("Not an X.509 certificate");
+  }
+  const [tbsCertificate] = readChildren(certificate);
+  const fields = readChildren(tbsCertificate);
+  // serialNumber, signature, issuer, validity, subject, subjectPublicKeyInfo
+  const [, , , validity, subject, publicKeyInfo] =
+    fields[0].tag === VERSION_TAG ? fields.slice(1) : fields;
+  const [notBefore, notAfter] = readChildren(validity);
+  if (
+    ![notBefore.tag, notAfter.tag].every(
+      (tag) => tag === UTC_TIME || tag === GENERALIZED_TIME,
+    )
+  ) {
+    throw new Error("The certificate's validity period is malformed");
+  }
+
+  return {
+    der: certificate.bytes,
+    subjectName: readCommonName(subject),
+    notBefore: readTime(notBefore),
+    notAfter: readTime(notAfter),
+    publicKeyInfo: publicKeyInfo.bytes,
+    algorithm: readAlgorithm(publicKeyInfo),
+  };
+}
+
+export const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+export const fromBase64 = (base64: string) =>
+  Uint8Array.from(atob(base64.replace(/\s+/g, "")), (char) =>
+    char.charCodeAt(0),
+  );
+
+// The DER inside a PEM block, e.g. `label` "CERTIFICATE"
+export function pemToDer(pem: string, label: string) {
+  const match = pem.match(
+    new RegExp(`-----BEGIN ${label}-----([\\s\\S]+?)-----END ${label}-----`),
+  );
+  if (!match) throw new Error(`No ${label.toLowerCase()} found in the PEM`);
+  return fromBase64(match[1]);
+}
+
+export const importPublicKey = (certificate: Certificate) =>
+  crypto.subtle.importKey(
+    "spki",
+    certificate.publicKeyInfo,
+    certificate.algorithm,
+    false,
+    ["verify"],
+  );
+
+// A PKCS #8 private key for the certificate's algorithm
+export const importPrivateKey = (pkcs8: Uint8Array, certificate: Certificate) =>
+  crypto.subtle.importKey("pkcs8", pkcs8, certificate.algorithm, false, [
+    "sign",
+  ]);
+
+// WebCrypto's parameters for signing or verifying with the algorithm
+export const signatureParams = ({ name }: SigningAlgorithm) =>
+  name === "ECDSA" ? { name, hash: "SHA-256" } : { name };
@@ -0,0 +1,93 @@
+import { JSDOM } from "jsdom";
+import { describe, expect, it } from "vitest";
+import { canonicalize } from "@/lib/xmlCanonicalization";
+
+const { DOMParser } = new JSDOM().window;
+
+// The element of `xml` named `tagName`, or its root element
+function parse(xml: string, tagName?: string) {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  return tagName
+    ? document.getElementsByTagName(tagName)[0]
+    : document.documentElement;
+}
+
+// Vectors from the W3C Canonical XML 1.0 (section 3) and Exclusive XML
+// Canonicalization (section 2.2) recommendations, with the outputs the
+// exclusive algorithm gives
+describe("canonicalize", () => {
+  it("expands empty elements and normalizes attributes and whitespace in tags", () => {
+    const xml = `<doc>
+   <e1   />
+   <e2   ></e2>
+   <e3   name = "elem3"   id="elem3"   />
+   <e4   name="elem4"   id="elem4"   ></e4>
+</doc>`;
+    expect(canonicalize(parse(xml))).toBe(`<doc>
+   <e1></e1>
+   <e2></e2>
+   <e3 id="elem3" name="elem3"></e3>
+   <e4 id="elem4" name="elem4"></e4>
+</doc>`);
+  });
+
+  it("sorts namespace declarations by prefix and attributes by namespace URI", () => {
+    const xml = `<e5 a:attr="out" b:attr="sorted" attr2="all" attr="I'm"
+   xmlns:b="http://www.ietf.org"
+   xmlns:a="http://www.w3.org"
+   xmlns="http://example.org"/>`;
+    expect(canonicalize(parse(xml))).toBe(
+      `<e5 xmlns="http://example.org" xmlns:a="http://www.w3.org" xmlns:b="http://www.ietf.org" attr="I'm" attr2="all" b:attr="sorted" a:attr="out"></e5>`,
+    );
+  });
+
+  it("only declares the namespaces each element visibly uses", () => {
+    const xml = `<e6 xmlns="" xmlns:a="http://www.w3.org">
+   <e7 xmlns="http://www.ietf.org">
+      <e8 xmlns="" xmlns:a="http://www.w3.org">
+         <e9 xmlns="" xmlns:a="http://www.ietf.org"/>
+      </e8>
+   </e7>
+</e6>`;
+    expect(canonicalize(parse(xml))).toBe(`<e6>
+   <e7 xmlns="http://www.ietf.org">
+      <e8 xmlns="">
+         <e9></e9>
+      </e8>
+   </e7>
+</e6>`);
+  });
+
+  it("gives a subtree the same form whatever its ancestors declare", () => {
+    const expected = `<n1:elem2 xmlns:n1="http://example.net" xml:lang="en"><n3:stuff xmlns:n3="ftp://example.org"></n3:stuff></n1:elem2>`;
+    const first = `<n0:local xmlns:n0="foo:bar" xmlns:n3="ftp://example.org"><n1:elem2 xmlns:n1="http://example.net" xml:lang="en"><n3:stuff xmlns:n3="ftp://example.org"/></n1:elem2></n0:local>`;
+    const second = `<n2:pdu xmlns:n1="http://example.com" xmlns:n2="http://foo.example" xml:lang="fr" xml:space="retain"><n1:elem2 xmlns:n1="http://example.net" xml:lang="en"><n3:stuff xmlns:n3="ftp://example.org"/></n1:elem2></n2:pdu>`;
+    expect(canonicalize(parse(first, "n1:elem2"))).toBe(expected);
+    expect(canonicalize(parse(second, "n1:elem2"))).toBe(expected);
+  });
+
+  it("escapes text and attribute values and resolves character references", () => {
+    const xml = `<doc>
+   <text>First line&#x0d;&#10;Second line</text>
+   <value>&#x32;</value>
+   <compute><![CDATA[value>"0" && value<"10" ?"valid":"error"]]></compute>
+   <compute expr='value>"0" &amp;&amp; value&lt;"10" ?"valid":"error"'>valid</compute>
+   <norm attr=' &apos;   &#x20;&#13;&#xa;&#9;   &apos; '/>
+</doc>`;
+    expect(canonicalize(parse(xml))).toBe(`<doc>
+   <text>First line&#xD;
+Second line</text>
+   <value>2</value>
+   <compute>value&gt;"0" &amp;&amp; value&lt;"10" ?"valid":"error"</compute>
+   <compute expr="value>&quot;0&quot; &amp;&amp; value&lt;&quot;10&quot; ?&quot;valid&quot;:&quot;error&quot;">valid</compute>
+   <norm attr=" '    &#xD;&#xA;&#x9;   ' "></norm>
+</doc>`);
+  });
+
+  it("drops comments and keeps processing instructions", () => {
+    const xml = `<doc><?pi-without-data?><!-- Comment 2 --><?pi-with-data some data?><e/></doc>`;
+    expect(canonicalize(parse(xml))).toBe(
+      `<doc><?pi-without-data?><?pi-with-data some data?><e></e></doc>`,
+    );
+  });
+});
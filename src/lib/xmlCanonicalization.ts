@@ -0,0 +1,103 @@
+export const EXCLUSIVE_C14N = "http://www.w3.org/2001/10/xml-exc-c14n#";
+
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+const PROCESSING_INSTRUCTION_NODE = 7;
+
+const escapeText = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#xD;");
+
+const escapeAttribute = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#x9;")
+    .replace(/\n/g, "&#xA;")
+    .replace(/\r/g, "&#xD;");
+
+const isNamespaceDeclaration = (attribute: Attr) =>
+  attribute.namespaceURI === XMLNS_NAMESPACE ||
+  attribute.name === "xmlns" ||
+  attribute.name.startsWith("xmlns:");
+
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// `rendered` maps each prefix to the namespace already declared for it by
+// an output ancestor, "" being the default namespace
+function canonicalizeElement(
+  element: Element,
+  rendered: Map<string, string>,
+): string {
+  const attributes = Array.from(element.attributes).filter(
+    (attribute) => !isNamespaceDeclaration(attribute),
+  );
+
+  // Exclusive canonicalization only declares the namespaces an element
+  // visibly uses: its own and its prefixed attributes'
+  const used = new Map<string, string>();
+  used.set(element.prefix ?? "", element.namespaceURI ?? "");
+  attributes.forEach(({ prefix, namespaceURI }) => {
+    if (prefix && namespaceURI !== XML_NAMESPACE) {
+      used.set(prefix, namespaceURI ?? "");
+    }
+  });
+
+  const inScope = new Map(rendered);
+  const declarations = Array.from(used)
+    .filter(([prefix, uri]) => (rendered.get(prefix) ?? "") !== uri)
+    .sort(([a], [b]) => compare(a, b))
+    .map(([prefix, uri]) => {
+      inScope.set(prefix, uri);
+      return prefix
+        ? ` xmlns:${prefix}="${escapeAttribute(uri)}"`
+        : ` xmlns="${escapeAttribute(uri)}"`;
+    });
+
+  const sortedAttributes = attributes
+    .sort(
+      (a, b) =>
+        compare(a.namespaceURI ?? "", b.namespaceURI ?? "") ||
+        compare(a.localName, b.localName),
+    )
+    .map(({ name, value }) => ` ${name}="${escapeAttribute(value)}"`);
+
+  const children = Array.from(element.childNodes)
+    .map((child) => canonicalizeNode(child, inScope))
+    .join("");
+
+  return `<${element.tagName}${declarations.join("")}${sortedAttributes.join("")}>${children}</${element.tagName}>`;
+}
+
+function canonicalizeNode(node: Node, rendered: Map<string, string>): string {
+  switch (node.nodeType) {
+    case ELEMENT_NODE:
+      return canonicalizeElement(node as Element, rendered);
+    case TEXT_NODE:
+    case CDATA_SECTION_NODE:
+      return escapeText(node.nodeValue ?? "");
+    case PROCESSING_INSTRUCTION_NODE: {
+      const { target, data } = node as ProcessingInstruction;
+      return `<?${target}${data ? ` ${data}` : ""}?>`;
+    }
+    default:
+      // Comments are dropped
+      return "";
+  }
+}
+
+/**
+ * Exclusive XML canonicalization, without comments, of an element and its
+ * descendants: the form XML signatures digest and sign, so the same
+ * content always hashes the same however it was serialized.
+ */
+export const canonicalize = (element: Element) =>
+  canonicalizeElement(element, new Map());
@@ -9,10 +9,19 @@ TempoDevtools.init();
 
 const basename = import.meta.env.BASE_URL;
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <BrowserRouter basename={basename}>
-      <App />
-    </BrowserRouter>
-  </React.StrictMode>,
-);
+// Serve API calls from the in-browser mock backend when developing offline
+async function enableMocking() {
+  if (import.meta.env.VITE_USE_MOCK_API !== "true") return;
+  const { startMockApi } = await import("./mocks/browser");
+  startMockApi();
+}
+
+enableMocking().then(() => {
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <BrowserRouter basename={basename}>
+        <App />
+      </BrowserRouter>
+    </React.StrictMode>,
+  );
+});
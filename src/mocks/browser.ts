@@ -0,0 +1,76 @@
+import { API_BASE_URL } from "@/lib/apiClient";
+import { HttpResponse, matchPath, type RequestHandler } from "./http";
+import { handlers as defaultHandlers } from "./handlers";
+import { runScheduledJobs } from "./scheduler";
+
+export interface MockApiOptions {
+  // Average response delay; each response varies by ±50%
+  latencyMs?: number;
+  // Share of requests, 0 to 1, that fail with a 503
+  errorRate?: number;
+  handlers?: RequestHandler[];
+}
+
+const abortError = () =>
+  new DOMException("The request was aborted", "AbortError");
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = window.setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    });
+  });
+
+/**
+ * Intercepts fetch calls to the API base URL and answers them from the
+ * in-memory mock backend, with simulated latency and optional random
+ * failures. Requests no handler matches go to the network unchanged.
+ * Returns a function that restores the real fetch.
+ */
+export function startMockApi({
+  latencyMs = Number(import.meta.env.VITE_MOCK_API_LATENCY_MS) || 400,
+  errorRate = Number(import.meta.env.VITE_MOCK_API_ERROR_RATE) || 0,
+  handlers = defaultHandlers,
+}: MockApiOptions = {}) {
+  const realFetch = window.fetch.bind(window);
+  const apiRoot = new URL(API_BASE_URL, window.location.origin);
+  const apiPrefix = apiRoot.pathname.replace(/\/$/, "");
+
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (url.origin !== apiRoot.origin || !url.pathname.startsWith(apiPrefix)) {
+      return realFetch(input, init);
+    }
+
+    const pathname = url.pathname.slice(apiPrefix.length) || "/";
+    for (const handler of handlers) {
+      if (handler.method !== request.method) continue;
+      const params = matchPath(handler.path, pathname);
+      if (!params) continue;
+
+      await wait(latencyMs * (0.5 + Math.random()), request.signal);
+      if (Math.random() < errorRate) {
+        return HttpResponse.error(503, "Mock server error (injected)");
+      }
+      try {
+        runScheduledJobs();
+        return await handler.resolver({ request, params, url });
+      } catch (error) {
+        console.error(`[mock api] ${request.method} ${pathname} failed`, error);
+        return HttpResponse.error(500, "Mock handler failed");
+      }
+    }
+
+    console.warn(`[mock api] No handler for ${request.method} ${pathname}`);
+    return realFetch(input, init);
+  };
+
+  console.info(`[mock api] Serving ${apiRoot.href} from the mock backend`);
+  return () => {
+    window.fetch = realFetch;
+  };
+}
@@ -0,0 +1,517 @@
+import { getCurrentStep } from "@/lib/signingOrder";
+import { CURRENT_CONFIG_VERSION } from "@/types/config";
+import type {
+  AuditEvent,
+  Document,
+  MessageTemplate,
+  SignerAssignment,
+  SigningField,
+  Template,
+} from "@/types/template";
+
+// Seed data for the mock backend; reset on every page load
+
+// Served from public/, so the mock backend works without a network
+export const SAMPLE_PDF_URL = `${import.meta.env.BASE_URL}sample-document.pdf`;
+
+export interface MockDocument extends Document {
+  createdAt: string;
+  templateId?: string;
+  assignments: SignerAssignment[];
+  // The schedule counts from here, or from creation before any reminder
+  lastReminderAt?: string;
+}
+
+export interface MockAuditEvent extends AuditEvent {
+  documentId: string;
+}
+
+export const MOCK_SENDER = "Sender";
+// Where declines and reassignments are reported
+export const MOCK_SENDER_EMAIL = "sender@example.com";
+const SEED_IP = "203.0.113.24";
+const SEED_USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15";
+
+export const seedTemplates = (): Template[] => [
+  {
+    id: "template-1",
+    name: "Invoice Template",
+    createdAt: "2023-04-02T09:00:00Z",
+    validFrom: "2023-04-01T00:00:00Z",
+    pdfUrl: SAMPLE_PDF_URL,
+  },
+  {
+    id: "template-2",
+    name: "Contract Template",
+    createdAt: "2023-04-10T11:30:00Z",
+    updatedAt: "2023-06-02T16:10:00Z",
+    validFrom: "2023-04-10T00:00:00Z",
+    validTo: "2099-12-31T23:59:59Z",
+    pdfUrl: SAMPLE_PDF_URL,
+    config: {
+      version: CURRENT_CONFIG_VERSION,
+      signerRoles: [
+        { id: "employee", name: "Employee", color: "#2563EB" },
+        {
+          id: "manager",
+          name: "Manager",
+          color: "#DC2626",
+          allowReassign: true,
+        },
+      ],
+      fields: [
+        {
+          id: "employee-signature",
+          type: "signature",
+          page: 1,
+          position: { x: 72, y: 640 },
+          size: { width: 200, height: 80 },
+          label: "Employee Signature",
+          required: true,
+          signerRoleId: "employee",
+        },
+        {
+          id: "manager-signature",
+          type: "signature",
+          page: 1,
+          position: { x: 340, y: 640 },
+          size: { width: 200, height: 80 },
+          label: "Manager Signature",
+          required: true,
+          signerRoleId: "manager",
+        },
+      ],
+    },
+  },
+  {
+    id: "template-3",
+    name: "NDA Template",
+    createdAt: "2023-04-21T15:45:00Z",
+    pdfUrl: SAMPLE_PDF_URL,
+  },
+  {
+    // Past its validity window, so the template picker hides it
+    id: "template-4",
+    name: "2022 Lease Template",
+    createdAt: "2022-01-05T10:00:00Z",
+    validFrom: "2022-01-01T00:00:00Z",
+    validTo: "2022-12-31T23:59:59Z",
+    pdfUrl: SAMPLE_PDF_URL,
+  },
+  {
+    id: "template-5",
+    name: "Purchase Order Template",
+    createdAt: "2023-02-14T08:20:00Z",
+    updatedAt: "2023-05-01T12:00:00Z",
+    status: "archived",
+    pdfUrl: SAMPLE_PDF_URL,
+  },
+];
+
+// Name, date, consent and signature, prefixed so several signers can each
+// have their own set
+const basicFields = (prefix: string, y = 200): SigningField[] => [
+  {
+    id: `${prefix}-name`,
+    type: "text",
+    page: 1,
+    position: { x: 100, y },
+    size: { width: 200, height: 30 },
+    label: "Full Name",
+    required: true,
+  },
+  {
+    id: `${prefix}-date`,
+    type: "date",
+    page: 1,
+    position: { x: 100, y: y + 50 },
+    size: { width: 200, height: 30 },
+    label: "Signing Date",
+    required: true,
+  },
+  {
+    id: `${prefix}-consent`,
+    type: "checkbox",
+    page: 1,
+    position: { x: 100, y: y + 100 },
+    size: { width: 20, height: 20 },
+    label: "I agree to the terms and conditions",
+    required: true,
+  },
+  {
+    id: `${prefix}-signature`,
+    type: "signature",
+    page: 1,
+    position: { x: 100, y: y + 150 },
+    size: { width: 300, height: 100 },
+    label: "Signature",
+    required: true,
+  },
+];
+
+const fieldIds = (fields: SigningField[]) => fields.map((field) => field.id);
+
+// Showcases every field type; served on the /sign-document demo route
+const demoFields: SigningField[] = [
+  ...basicFields("demo"),
+  {
+    id: "demo-initials",
+    type: "initials",
+    page: 1,
+    position: { x: 420, y: 350 },
+    size: { width: 80, height: 50 },
+    label: "Initials",
+    required: true,
+  },
+  {
+    id: "demo-department",
+    type: "dropdown",
+    page: 1,
+    position: { x: 100, y: 470 },
+    size: { width: 200, height: 30 },
+    label: "Department",
+    required: true,
+    options: ["Engineering", "Sales", "Operations"],
+  },
+  {
+    id: "demo-employment",
+    type: "radio",
+    page: 1,
+    position: { x: 320, y: 470 },
+    size: { width: 150, height: 60 },
+    label: "Employment Type",
+    required: true,
+    options: ["Full-time", "Part-time", "Contractor"],
+  },
+  {
+    id: "demo-hours",
+    type: "number",
+    page: 1,
+    position: { x: 100, y: 540 },
+    size: { width: 100, height: 30 },
+    label: "Hours per Week",
+    required: false,
+  },
+  {
+    id: "demo-email",
+    type: "email",
+    page: 1,
+    position: { x: 220, y: 540 },
+    size: { width: 200, height: 30 },
+    label: "Contact Email",
+    required: true,
+  },
+  {
+    id: "demo-signed-by",
+    type: "autofill",
+    page: 1,
+    position: { x: 100, y: 590 },
+    size: { width: 200, height: 30 },
+    label: "Signed By",
+    required: false,
+    autoFillSource: "signerName",
+  },
+  {
+    id: "demo-signblock",
+    type: "signblock",
+    page: 1,
+    position: { x: 320, y: 590 },
+    size: { width: 200, height: 120 },
+    label: "Selfie Sign",
+    required: true,
+    captureOptions: { video: true, audio: true, image: true, signature: true },
+  },
+];
+
+const assignment = (
+  signerId: string,
+  signerName: string,
+  signerEmail: string,
+  fields: SigningField[],
+  status: SignerAssignment["status"] = "pending",
+  step = 1,
+): SignerAssignment => ({
+  signerId,
+  signerName,
+  signerEmail,
+  fields: fieldIds(fields),
+  status,
+  step,
+});
+
+// Sent to people a signing is reassigned to
+export const INVITATION_MESSAGE_TEMPLATE_ID = "message-1";
+
+// Sent by scheduled and bulk reminders
+export const REMINDER_MESSAGE_TEMPLATE_ID = "message-2";
+
+export const seedMessageTemplates = (): MessageTemplate[] => [
+  {
+    id: INVITATION_MESSAGE_TEMPLATE_ID,
+    name: "Signature request",
+    subject: "Please sign {{documentName}}",
+    body: "Hello {{signerName}},\n\nYou have been asked to sign {{documentName}}. Open your personal signing link to review and sign it:\n\n{{link}}\n\nThank you.",
+  },
+  {
+    id: REMINDER_MESSAGE_TEMPLATE_ID,
+    name: "Deadline reminder",
+    subject: "Reminder: {{documentName}} is waiting for your signature",
+    body: "Hello {{signerName}},\n\nThis is a reminder that {{documentName}} still needs your signature. The link stops working on {{expiresAt}}:\n\n{{link}}",
+  },
+];
+
+// Expiry and reminder dates stay relative to the page load
+const daysFromNow = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60_000).toISOString();
+
+export function seedDocuments(): MockDocument[] {
+  const johnFields = basicFields("john");
+  const janeFields = basicFields("jane", 460);
+  const aliceFields = basicFields("alice");
+  const bobFields = basicFields("bob");
+  const charlieFields = basicFields("charlie", 460);
+  const davidFields = basicFields("david");
+  const emmaFields = basicFields("emma");
+
+  return [
+    {
+      id: "demo-123",
+      name: "Demo Contract",
+      createdAt: "2023-05-20T08:00:00Z",
+      status: "pending",
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: demoFields,
+      assignments: [
+        assignment(
+          "signer-456",
+          "Demo User",
+          "demo.user@example.com",
+          demoFields,
+        ),
+      ],
+    },
+    {
+      id: "doc-001",
+      name: "Employment Contract",
+      createdAt: "2023-05-15T10:30:00Z",
+      status: "pending",
+      signingOrder: "sequential",
+      expiresAt: daysFromNow(2),
+      reminders: { intervalDays: 2, maxReminders: 3 },
+      remindersSent: 1,
+      lastReminderAt: daysFromNow(-1),
+      templateId: "template-2",
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: [...johnFields, ...janeFields],
+      assignments: [
+        {
+          ...assignment(
+            "signer-1",
+            "John Doe",
+            "john.doe@example.com",
+            johnFields,
+          ),
+          roleId: "employee",
+        },
+        {
+          ...assignment(
+            "signer-2",
+            "Jane Smith",
+            "jane.smith@example.com",
+            janeFields,
+            "pending",
+            2,
+          ),
+          roleId: "manager",
+        },
+      ],
+    },
+    {
+      id: "doc-002",
+      name: "Non-Disclosure Agreement",
+      createdAt: "2023-05-10T14:20:00Z",
+      status: "completed",
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: aliceFields,
+      assignments: [
+        assignment(
+          "signer-1",
+          "Alice Johnson",
+          "alice@example.com",
+          aliceFields,
+          "completed",
+        ),
+      ],
+    },
+    {
+      id: "doc-003",
+      name: "Sales Contract",
+      createdAt: "2023-05-05T09:15:00Z",
+      status: "pending",
+      signingOrder: "sequential",
+      expiresAt: daysFromNow(12),
+      reminders: { intervalDays: 3, maxReminders: 3 },
+      remindersSent: 0,
+      lastReminderAt: daysFromNow(-1),
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: [...bobFields, ...charlieFields],
+      assignments: [
+        assignment(
+          "signer-1",
+          "Bob Williams",
+          "bob@example.com",
+          bobFields,
+          "completed",
+        ),
+        assignment(
+          "signer-2",
+          "Charlie Brown",
+          "charlie@example.com",
+          charlieFields,
+          "pending",
+          2,
+        ),
+      ],
+    },
+    {
+      id: "doc-004",
+      name: "Lease Agreement",
+      createdAt: "2023-04-28T16:45:00Z",
+      status: "expired",
+      expiresAt: "2023-05-28T16:45:00Z",
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: davidFields,
+      assignments: [
+        assignment(
+          "signer-1",
+          "David Miller",
+          "david@example.com",
+          davidFields,
+        ),
+      ],
+    },
+    {
+      id: "doc-005",
+      name: "Service Agreement",
+      createdAt: "2023-05-18T13:00:00Z",
+      status: "declined",
+      pdfUrl: SAMPLE_PDF_URL,
+      fields: emmaFields,
+      assignments: [
+        {
+          ...assignment(
+            "signer-1",
+            "Emma Davis",
+            "emma@example.com",
+            emmaFields,
+            "declined",
+          ),
+          declineReason: "The payment terms differ from what we agreed.",
+        },
+      ],
+    },
+  ];
+}
+
+const minutesAfter = (iso: string, minutes: number) =>
+  new Date(new Date(iso).getTime() + minutes * 60_000).toISOString();
+
+// A plausible history for each seeded document: created, links sent, and
+// opened and signed by whoever has completed
+export function seedAuditEvents(documents: MockDocument[]): MockAuditEvent[] {
+  return documents.flatMap((document) => {
+    const at = (minutes: number) => minutesAfter(document.createdAt, minutes);
+    const events: Omit<MockAuditEvent, "id">[] = [
+      {
+        documentId: document.id,
+        type: "created",
+        timestamp: at(0),
+        actor: MOCK_SENDER,
+      },
+    ];
+
+    document.assignments.forEach((assignment, index) => {
+      const signer = {
+        documentId: document.id,
+        signerId: assignment.signerId,
+        actor: assignment.signerName,
+      };
+      events.push({
+        ...signer,
+        type: "link_sent",
+        timestamp: at(5),
+        actor: MOCK_SENDER,
+        details: { email: assignment.signerEmail },
+      });
+      const start = 60 * (index + 1);
+      const visitor = { ipAddress: SEED_IP, userAgent: SEED_USER_AGENT };
+      if (assignment.status === "declined") {
+        events.push(
+          { ...signer, ...visitor, type: "opened", timestamp: at(start) },
+          {
+            ...signer,
+            ...visitor,
+            type: "declined",
+            timestamp: at(start + 5),
+            details: { reason: assignment.declineReason },
+          },
+        );
+        return;
+      }
+      if (assignment.status !== "completed") return;
+
+      events.push(
+        { ...signer, ...visitor, type: "opened", timestamp: at(start) },
+        {
+          ...signer,
+          ...visitor,
+          type: "page_viewed",
+          timestamp: at(start + 1),
+          details: { page: 1 },
+        },
+        ...document.fields
+          .filter((field) => assignment.fields.includes(field.id))
+          .map((field, fieldIndex) => ({
+            ...signer,
+            ...visitor,
+            type: "field_completed" as const,
+            timestamp: at(start + 2 + fieldIndex),
+            details: { fieldId: field.id, fieldLabel: field.label },
+          })),
+        { ...signer, ...visitor, type: "signed", timestamp: at(start + 10) },
+      );
+    });
+
+    if (document.remindersSent && document.lastReminderAt) {
+      const step = getCurrentStep(document.assignments);
+      document.assignments
+        .filter(
+          (assignment) =>
+            assignment.status === "pending" && (assignment.step ?? 1) === step,
+        )
+        .forEach((assignment) =>
+          events.push({
+            documentId: document.id,
+            signerId: assignment.signerId,
+            type: "reminder_sent",
+            timestamp: document.lastReminderAt!,
+            details: { email: assignment.signerEmail },
+          }),
+        );
+    }
+
+    if (document.status === "expired") {
+      events.push({
+        documentId: document.id,
+        type: "expired",
+        timestamp: document.expiresAt ?? at(30 * 24 * 60),
+      });
+    }
+
+    return events.map((event, index) => ({
+      ...event,
+      id: `${document.id}-event-${index + 1}`,
+    }));
+  });
+}
@@ -0,0 +1,271 @@
+import { addDays, parseISO } from "date-fns";
+import { renderMessage, toMessageValues } from "@/lib/messageTemplates";
+import { getCurrentStep } from "@/lib/signingOrder";
+import type {
+  AuditEvent,
+  Document,
+  DocumentSummary,
+  MessageTemplate,
+  Paginated,
+  SignerAssignment,
+  Template,
+} from "@/types/template";
+import {
+  INVITATION_MESSAGE_TEMPLATE_ID,
+  MOCK_SENDER_EMAIL,
+  REMINDER_MESSAGE_TEMPLATE_ID,
+  seedAuditEvents,
+  seedDocuments,
+  seedMessageTemplates,
+  seedTemplates,
+  type MockDocument,
+} from "./data";
+
+// What a signer sent: the JSON values plus the names of uploaded media
+export interface MockSubmission {
+  documentId: string;
+  signerId: string;
+  values: unknown;
+  files: { name: string; type: string; size: number }[];
+  submittedAt: string;
+}
+
+// An email the backend would have handed to its SMTP server
+export interface MockEmail {
+  documentId: string;
+  to: string;
+  subject: string;
+  body: string;
+  sentAt: string;
+}
+
+// In-memory state of the mock backend
+const initialDocuments = seedDocuments();
+
+export const db = {
+  templates: seedTemplates(),
+  documents: initialDocuments,
+  submissions: [] as MockSubmission[],
+  auditEvents: seedAuditEvents(initialDocuments),
+  messageTemplates: seedMessageTemplates(),
+  outbox: [] as MockEmail[],
+};
+
+export function resetDb() {
+  db.templates = seedTemplates();
+  db.documents = seedDocuments();
+  db.submissions = [];
+  db.auditEvents = seedAuditEvents(db.documents);
+  db.messageTemplates = seedMessageTemplates();
+  db.outbox = [];
+}
+
+let nextId = 1;
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${(nextId++).toString(36)}`;
+
+// Slices a list by the `page` and `pageSize` query params
+export function paginate<T>(
+  items: T[],
+  searchParams: URLSearchParams,
+): Paginated<T> {
+  const pageSize = Math.max(1, Number(searchParams.get("pageSize")) || 10);
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: items.length,
+  };
+}
+
+export const findTemplate = (id: string): Template | undefined =>
+  db.templates.find((template) => template.id === id);
+
+export const findDocument = (id: string): MockDocument | undefined =>
+  db.documents.find((document) => document.id === id);
+
+export const findAssignment = (
+  document: MockDocument,
+  signerId: string,
+): SignerAssignment | undefined =>
+  document.assignments.find((assignment) => assignment.signerId === signerId);
+
+export const toSummary = (document: MockDocument): DocumentSummary => ({
+  id: document.id,
+  name: document.name,
+  createdAt: document.createdAt,
+  status: document.status,
+  signingOrder: document.signingOrder,
+  expiresAt: document.expiresAt,
+  signers: document.assignments.map((assignment) => ({
+    signerId: assignment.signerId,
+    name: assignment.signerName,
+    email: assignment.signerEmail,
+    status: assignment.status,
+    step: assignment.step,
+  })),
+});
+
+// Appends to a document's audit trail. Requests from the signing screen
+// carry the visitor's browser details, as the real backend would log them.
+export function recordAuditEvent(
+  documentId: string,
+  event: Omit<AuditEvent, "id" | "timestamp">,
+  request?: Request,
+) {
+  db.auditEvents.push({
+    ...event,
+    documentId,
+    id: createId("event"),
+    timestamp: new Date().toISOString(),
+    ...(request && {
+      ipAddress: "127.0.0.1",
+      userAgent: request.headers.get("User-Agent") ?? navigator.userAgent,
+    }),
+  });
+}
+
+// Whether the template role of `assignment` lets its signer hand over
+export function canReassign(
+  document: MockDocument,
+  assignment: SignerAssignment,
+) {
+  const template = document.templateId
+    ? findTemplate(document.templateId)
+    : undefined;
+  const role = template?.config?.signerRoles.find(
+    ({ id }) => id === assignment.roleId,
+  );
+  return role?.allowReassign === true;
+}
+
+// The backend links into this app, so use the page's own origin rather than
+// the API's
+export const toSigningLink = (documentId: string, signerId: string) =>
+  new URL(
+    `sign/${documentId}/${signerId}`,
+    `${window.location.origin}${import.meta.env.BASE_URL}`,
+  ).toString();
+
+// When the schedule sends the next reminder, if it will
+export function getNextReminderAt(document: MockDocument) {
+  const { reminders, remindersSent = 0 } = document;
+  if (
+    document.status !== "pending" ||
+    !reminders ||
+    remindersSent >= reminders.maxReminders
+  ) {
+    return undefined;
+  }
+  return addDays(
+    parseISO(document.lastReminderAt ?? document.createdAt),
+    reminders.intervalDays,
+  ).toISOString();
+}
+
+// The API's view of a document, without the mock's bookkeeping
+export const toDocument = ({
+  createdAt,
+  templateId,
+  assignments,
+  lastReminderAt,
+  ...document
+}: MockDocument): Document => ({
+  ...document,
+  nextReminderAt: getNextReminderAt({
+    ...document,
+    createdAt,
+    assignments,
+    lastReminderAt,
+  }),
+});
+
+// Renders a message for one signer and drops it in the outbox, where the
+// real backend would hand it to its SMTP server
+export function sendEmail(
+  document: MockDocument,
+  signer: SignerAssignment,
+  message: Pick<MessageTemplate, "subject" | "body">,
+) {
+  const values = toMessageValues({
+    signerName: signer.signerName,
+    documentName: document.name,
+    link: toSigningLink(document.id, signer.signerId),
+    expiresAt: document.expiresAt,
+  });
+  const email: MockEmail = {
+    documentId: document.id,
+    to: signer.signerEmail,
+    subject: renderMessage(message.subject, values),
+    body: renderMessage(message.body, values),
+    sentAt: new Date().toISOString(),
+  };
+  db.outbox.push(email);
+  console.info("[mock api] Email sent", email);
+  return email;
+}
+
+// Tells the sender about something a signer did, e.g. declining
+export function notifySender(
+  document: MockDocument,
+  subject: string,
+  body: string,
+) {
+  const email: MockEmail = {
+    documentId: document.id,
+    to: MOCK_SENDER_EMAIL,
+    subject,
+    body,
+    sentAt: new Date().toISOString(),
+  };
+  db.outbox.push(email);
+  console.info("[mock api] Email sent", email);
+  return email;
+}
+
+// The pending signers of the current step, the only ones invited so far
+function getCurrentSigners(document: MockDocument) {
+  const step = getCurrentStep(document.assignments);
+  return document.assignments.filter(
+    (assignment) =>
+      assignment.status === "pending" && (assignment.step ?? 1) === step,
+  );
+}
+
+// Emails the invitation to the signers whose turn it now is: everyone of
+// step 1 on creation, then each step once the one before has signed
+export function inviteCurrentSigners(document: MockDocument) {
+  const invitation = db.messageTemplates.find(
+    ({ id }) => id === INVITATION_MESSAGE_TEMPLATE_ID,
+  );
+  const signers = getCurrentSigners(document);
+  signers.forEach((signer) => {
+    if (invitation) sendEmail(document, signer, invitation);
+    recordAuditEvent(document.id, {
+      type: "link_sent",
+      signerId: signer.signerId,
+      details: { email: signer.signerEmail },
+    });
+  });
+  return signers;
+}
+
+// Emails the reminder message to the signers whose turn it is; later
+// signers haven't been invited yet. Scheduled reminders have no actor.
+export function sendReminders(document: MockDocument, actor?: string) {
+  const message =
+    db.messageTemplates.find(({ id }) => id === REMINDER_MESSAGE_TEMPLATE_ID) ??
+    db.messageTemplates[0];
+  const signers = getCurrentSigners(document);
+  signers.forEach((signer) => {
+    if (message) sendEmail(document, signer, message);
+    recordAuditEvent(document.id, {
+      type: "reminder_sent",
+      signerId: signer.signerId,
+      actor,
+      details: { email: signer.signerEmail },
+    });
+  });
+  return signers;
+}
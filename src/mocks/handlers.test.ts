@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createDocument,
+  getDocument,
+  listDocuments,
+  submitSigning,
+} from "@/lib/api";
+import { buildSigningSubmission } from "@/lib/submission";
+import type { DocumentCreationPayload } from "@/types/template";
+import { startMockApi } from "./browser";
+import { db, resetDb } from "./db";
+
+let stopMockApi: () => void;
+
+beforeEach(() => {
+  // The mock API patches window.fetch, which the API client calls as fetch
+  vi.stubGlobal("window", globalThis);
+  vi.stubGlobal("location", { origin: "http://localhost" });
+  vi.stubGlobal("navigator", { userAgent: "vitest" });
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  resetDb();
+  stopMockApi = startMockApi({ latencyMs: 0, errorRate: 0 });
+});
+
+afterEach(() => {
+  stopMockApi();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const payload: DocumentCreationPayload = {
+  templateId: "template-2",
+  signingOrder: "sequential",
+  signers: [
+    {
+      signerId: "signer-1",
+      signerName: "Alice Employee",
+      signerEmail: "alice@example.com",
+      roleId: "employee",
+    },
+    {
+      signerId: "signer-2",
+      signerName: "Bob Manager",
+      signerEmail: "bob@example.com",
+      roleId: "manager",
+    },
+  ],
+  assignments: [
+    {
+      signerId: "signer-1",
+      signerName: "Alice Employee",
+      signerEmail: "alice@example.com",
+      fields: [],
+      roleId: "employee",
+      status: "pending",
+      step: 1,
+    },
+    {
+      signerId: "signer-2",
+      signerName: "Bob Manager",
+      signerEmail: "bob@example.com",
+      fields: [],
+      roleId: "manager",
+      status: "pending",
+      step: 2,
+    },
+  ],
+};
+
+// What the signing screen uploads, stamped onto `baseVersion`
+const sign = (documentId: string, signerId: string, baseVersion: number) =>
+  submitSigning(
+    documentId,
+    signerId,
+    buildSigningSubmission(
+      documentId,
+      signerId,
+      [],
+      {},
+      {
+        signedPdf: new Blob([`%PDF signed by ${signerId}`], {
+          type: "application/pdf",
+        }),
+        baseVersion,
+      },
+    ),
+  );
+
+const invitedEmails = () =>
+  db.outbox
+    .filter(({ subject }) => subject.startsWith("Please sign"))
+    .map(({ to }) => to);
+
+describe("mock backend", () => {
+  it("takes a sequential document from creation to completion", async () => {
+    const { documentId, signingLinks } = await createDocument(payload);
+    expect(signingLinks.map(({ signerId }) => signerId)).toEqual([
+      "signer-1",
+      "signer-2",
+    ]);
+    // Only the first step is invited up front
+    expect(invitedEmails()).toEqual(["alice@example.com"]);
+
+    const { items } = await listDocuments({
+      page: 1,
+      pageSize: 10,
+      sort: "createdAt",
+      order: "desc",
+    });
+    expect(items[0]).toMatchObject({
+      id: documentId,
+      status: "pending",
+      signingOrder: "sequential",
+      signers: [
+        { signerId: "signer-1", status: "pending", step: 1 },
+        { signerId: "signer-2", status: "pending", step: 2 },
+      ],
+    });
+
+    await expect(sign(documentId, "signer-2", 0)).rejects.toMatchObject({
+      status: 409,
+      message: "It isn't your turn yet; waiting on Alice Employee",
+    });
+
+    await expect(sign(documentId, "signer-1", 0)).resolves.toMatchObject({
+      signerId: "signer-1",
+      status: "completed",
+    });
+    expect(invitedEmails()).toEqual(["alice@example.com", "bob@example.com"]);
+    expect(await getDocument(documentId)).toMatchObject({
+      status: "pending",
+      signedPdfVersion: 1,
+    });
+
+    // Stamped before Alice's signature was in, so it would drop it
+    await expect(sign(documentId, "signer-2", 0)).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(sign(documentId, "signer-2", 1)).resolves.toMatchObject({
+      status: "completed",
+    });
+
+    const completed = await getDocument(documentId);
+    expect(completed).toMatchObject({
+      status: "completed",
+      signedPdfVersion: 2,
+    });
+    expect(completed.signedPdfUrl).toMatch(/^blob:/);
+    const { items: done } = await listDocuments({
+      page: 1,
+      pageSize: 10,
+      status: ["completed"],
+      sort: "createdAt",
+      order: "desc",
+    });
+    expect(done.map(({ id }) => id)).toContain(documentId);
+    expect(
+      db.auditEvents
+        .filter((event) => event.documentId === documentId)
+        .map(({ type, signerId }) => [type, signerId]),
+    ).toEqual([
+      ["created", undefined],
+      ["link_sent", "signer-1"],
+      ["signed", "signer-1"],
+      ["link_sent", "signer-2"],
+      ["signed", "signer-2"],
+    ]);
+  });
+});
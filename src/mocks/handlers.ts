@@ -0,0 +1,715 @@
+import { toSigningFields } from "@/lib/templateConfig";
+import { getBlockingAssignments, getCurrentStep } from "@/lib/signingOrder";
+import { isTemplateAvailable } from "@/lib/templateValidity";
+import type {
+  DeclineSigningPayload,
+  DocumentCreationPayload,
+  DocumentCreationResponse,
+  DocumentSortField,
+  MessageTemplate,
+  MessageTemplatePayload,
+  ReassignSigningPayload,
+  ReminderResponse,
+  SignerAssignment,
+  SignerSigningLink,
+  SignerActivity,
+  SigningEmailPayload,
+  SigningEmailResponse,
+  Template,
+  TemplateStatus,
+} from "@/types/template";
+import type { TemplateConfig } from "@/types/config";
+import { HttpResponse, http } from "./http";
+import {
+  INVITATION_MESSAGE_TEMPLATE_ID,
+  MOCK_SENDER,
+  SAMPLE_PDF_URL,
+  type MockDocument,
+} from "./data";
+import {
+  canReassign,
+  createId,
+  db,
+  findAssignment,
+  findDocument,
+  findTemplate,
+  inviteCurrentSigners,
+  notifySender,
+  paginate,
+  recordAuditEvent,
+  sendEmail,
+  sendReminders,
+  toDocument,
+  toSigningLink,
+  toSummary,
+} from "./db";
+
+const notFound = (what: string) => HttpResponse.error(404, `${what} not found`);
+
+// Audit events the signing screen may report itself
+const SIGNER_ACTIVITY_TYPES: SignerActivity["type"][] = [
+  "opened",
+  "page_viewed",
+  "field_completed",
+];
+
+// Fields shared by template create and update, or an error response
+function readTemplateForm(form: FormData) {
+  const name = form.get("templateName");
+  if (typeof name !== "string" || !name) {
+    return HttpResponse.error(400, "Template name is required");
+  }
+
+  let config: TemplateConfig;
+  let fabric: string;
+  try {
+    config = JSON.parse(atob(String(form.get("config"))));
+    fabric = atob(String(form.get("fabric") ?? ""));
+  } catch {
+    return HttpResponse.error(400, "Config and fabric must be base64 encoded");
+  }
+
+  const pdfFile = form.get("pdfFile");
+  return {
+    name,
+    validFrom: String(form.get("validFrom") ?? "") || undefined,
+    validTo: String(form.get("validTo") ?? "") || undefined,
+    // Served from memory for as long as the page stays open
+    pdfUrl:
+      pdfFile instanceof File ? URL.createObjectURL(pdfFile) : SAMPLE_PDF_URL,
+    config,
+    fabric,
+  };
+}
+
+// Why a signer can't sign, decline or reassign right now, or undefined if
+// they can
+function checkSignerCanAct(
+  document: MockDocument,
+  assignment: SignerAssignment,
+) {
+  if (document.status !== "pending") {
+    return HttpResponse.error(409, `This document is ${document.status}`);
+  }
+  if (assignment.status === "completed") {
+    return HttpResponse.error(409, "You have already signed this document");
+  }
+  if (assignment.status === "reassigned") {
+    return HttpResponse.error(
+      409,
+      `You have reassigned this document to ${assignment.reassignedTo?.name}`,
+    );
+  }
+  return undefined;
+}
+
+function setTemplateStatus(templateId: string, status: TemplateStatus) {
+  const template = findTemplate(templateId);
+  if (!template) return notFound("Template");
+  template.status = status;
+  template.updatedAt = new Date().toISOString();
+  return HttpResponse.json(template);
+}
+
+export const handlers = [
+  // Templates
+
+  http.get("/Template/templates", () => HttpResponse.json(db.templates)),
+
+  http.get("/Template/templates/search", ({ url }) => {
+    const search = url.searchParams.get("search")?.toLowerCase() ?? "";
+    const status = url.searchParams.get("status");
+    const matches = db.templates.filter(
+      (template) =>
+        template.name.toLowerCase().includes(search) &&
+        (!status || (template.status ?? "active") === status),
+    );
+    return HttpResponse.json(paginate(matches, url.searchParams));
+  }),
+
+  http.get("/Template/:templateId", ({ params }) => {
+    const template = findTemplate(params.templateId);
+    return template ? HttpResponse.json(template) : notFound("Template");
+  }),
+
+  http.post("/Template/create-template", async ({ request }) => {
+    const parsed = readTemplateForm(await request.formData());
+    if (parsed instanceof Response) return parsed;
+
+    const now = new Date().toISOString();
+    const template: Template = {
+      id: createId("template"),
+      createdAt: now,
+      updatedAt: now,
+      status: "active",
+      ...parsed,
+    };
+    db.templates.push(template);
+    return HttpResponse.json(template, { status: 201 });
+  }),
+
+  http.put("/Template/:templateId", async ({ params, request }) => {
+    const template = findTemplate(params.templateId);
+    if (!template) return notFound("Template");
+    const parsed = readTemplateForm(await request.formData());
+    if (parsed instanceof Response) return parsed;
+
+    Object.assign(template, parsed, { updatedAt: new Date().toISOString() });
+    return HttpResponse.json(template);
+  }),
+
+  http.post("/Template/:templateId/duplicate", ({ params }) => {
+    const template = findTemplate(params.templateId);
+    if (!template) return notFound("Template");
+
+    const now = new Date().toISOString();
+    const copy: Template = {
+      ...structuredClone(template),
+      id: createId("template"),
+      name: `${template.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      status: "active",
+    };
+    db.templates.push(copy);
+    return HttpResponse.json(copy, { status: 201 });
+  }),
+
+  http.post("/Template/:templateId/archive", ({ params }) =>
+    setTemplateStatus(params.templateId, "archived"),
+  ),
+
+  http.post("/Template/:templateId/restore", ({ params }) =>
+    setTemplateStatus(params.templateId, "active"),
+  ),
+
+  http.delete("/Template/:templateId", ({ params }) => {
+    const template = findTemplate(params.templateId);
+    if (!template) return notFound("Template");
+    // Documents keep their own copy of the fields, so they are unaffected
+    db.templates = db.templates.filter(({ id }) => id !== template.id);
+    return HttpResponse.empty();
+  }),
+
+  // Documents
+
+  http.get("/api/documents", ({ url }) => {
+    const params = url.searchParams;
+    const q = params.get("q")?.toLowerCase() ?? "";
+    const statuses = params.get("status")?.split(",").filter(Boolean) ?? [];
+    const createdFrom = params.get("createdFrom");
+    const createdTo = params.get("createdTo");
+    const sort = params.get("sort") ?? "-createdAt";
+    const sortField = sort.replace(/^-/, "") as DocumentSortField;
+    const direction = sort.startsWith("-") ? -1 : 1;
+
+    const matches = db.documents
+      .filter((document) => {
+        const day = document.createdAt.slice(0, 10);
+        return (
+          (!q ||
+            document.name.toLowerCase().includes(q) ||
+            document.assignments.some(
+              ({ signerName, signerEmail }) =>
+                signerName.toLowerCase().includes(q) ||
+                signerEmail.toLowerCase().includes(q),
+            )) &&
+          (statuses.length === 0 || statuses.includes(document.status)) &&
+          (!createdFrom || day >= createdFrom) &&
+          (!createdTo || day <= createdTo)
+        );
+      })
+      .sort(
+        (a, b) =>
+          direction *
+          (String(a[sortField]).localeCompare(String(b[sortField])) ||
+            a.createdAt.localeCompare(b.createdAt)),
+      );
+    return HttpResponse.json(
+      paginate(matches.map(toSummary), url.searchParams),
+    );
+  }),
+
+  http.get("/api/documents/:documentId", ({ params }) => {
+    const document = findDocument(params.documentId);
+    return document
+      ? HttpResponse.json(toDocument(document))
+      : notFound("Document");
+  }),
+
+  http.post("/api/documents", async ({ request }) => {
+    const payload = (await request.json()) as DocumentCreationPayload;
+    const template = findTemplate(payload.templateId);
+    if (!template) return notFound("Template");
+    if (!isTemplateAvailable(template)) {
+      return HttpResponse.error(
+        400,
+        "This template is archived or outside its validity window",
+      );
+    }
+    if (!payload.signers?.length) {
+      return HttpResponse.error(400, "At least one signer is required");
+    }
+    if (payload.expiresAt && !(Date.parse(payload.expiresAt) > Date.now())) {
+      return HttpResponse.error(400, "The expiry must be in the future");
+    }
+
+    const id = createId("doc");
+    const document: MockDocument = {
+      id,
+      name: template.name.replace(/ Template$/, ""),
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      signingOrder: payload.signingOrder ?? "parallel",
+      templateId: template.id,
+      // The template's field layout belongs to its own PDF
+      pdfUrl: template.pdfUrl ?? SAMPLE_PDF_URL,
+      fields: template.config ? toSigningFields(template.config) : [],
+      assignments: payload.assignments,
+      expiresAt: payload.expiresAt,
+      reminders: payload.reminders,
+      remindersSent: payload.reminders ? 0 : undefined,
+    };
+    db.documents.unshift(document);
+    recordAuditEvent(id, { type: "created", actor: MOCK_SENDER });
+    inviteCurrentSigners(document);
+
+    const response: DocumentCreationResponse = {
+      documentId: id,
+      signingLinks: payload.assignments.map(({ signerId }) => ({
+        signerId,
+        signingLink: toSigningLink(id, signerId),
+      })),
+    };
+    return HttpResponse.json(response, { status: 201 });
+  }),
+
+  http.post("/api/documents/:documentId/remind", ({ params }) => {
+    const document = findDocument(params.documentId);
+    if (!document) return notFound("Document");
+    if (document.status !== "pending") {
+      return HttpResponse.error(409, `This document is ${document.status}`);
+    }
+    const signers = sendReminders(document, MOCK_SENDER);
+    const response: ReminderResponse = {
+      reminded: signers.map(({ signerEmail }) => signerEmail),
+    };
+    return HttpResponse.json(response);
+  }),
+
+  http.post("/api/documents/:documentId/void", async ({ params, request }) => {
+    const document = findDocument(params.documentId);
+    if (!document) return notFound("Document");
+    if (
+      document.status === "completed" ||
+      document.status === "voided" ||
+      document.status === "declined"
+    ) {
+      return HttpResponse.error(409, `This document is ${document.status}`);
+    }
+    const { reason } = (await request.json()) as { reason?: string };
+    document.status = "voided";
+    recordAuditEvent(document.id, {
+      type: "voided",
+      actor: MOCK_SENDER,
+      details: reason ? { reason } : undefined,
+    });
+    return HttpResponse.json(toDocument(document));
+  }),
+
+  // Moving the expiry of an expired document reopens it for signing
+  http.put("/api/documents/:documentId/expiry", async ({ params, request }) => {
+    const document = findDocument(params.documentId);
+    if (!document) return notFound("Document");
+    if (
+      document.status === "completed" ||
+      document.status === "voided" ||
+      document.status === "declined"
+    ) {
+      return HttpResponse.error(409, `This document is ${document.status}`);
+    }
+    const { expiresAt } = (await request.json()) as { expiresAt?: string };
+    const time = expiresAt ? Date.parse(expiresAt) : NaN;
+    if (Number.isNaN(time) || time <= Date.now()) {
+      return HttpResponse.error(400, "The expiry must be in the future");
+    }
+    document.expiresAt = new Date(time).toISOString();
+    document.status = "pending";
+    recordAuditEvent(document.id, {
+      type: "expiry_extended",
+      actor: MOCK_SENDER,
+      details: { expiresAt: document.expiresAt },
+    });
+    return HttpResponse.json(toDocument(document));
+  }),
+
+  http.get("/api/documents/:documentId/audit-trail", ({ params }) => {
+    if (!findDocument(params.documentId)) return notFound("Document");
+    return HttpResponse.json(
+      db.auditEvents
+        .filter((event) => event.documentId === params.documentId)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(({ documentId, ...event }) => event),
+    );
+  }),
+
+  // Signers
+
+  http.get("/api/documents/:documentId/signers", ({ params }) => {
+    const document = findDocument(params.documentId);
+    return document
+      ? HttpResponse.json(document.assignments)
+      : notFound("Document");
+  }),
+
+  http.get("/api/documents/:documentId/signers/:signerId", ({ params }) => {
+    const document = findDocument(params.documentId);
+    if (!document) return notFound("Document");
+    const assignment = findAssignment(document, params.signerId);
+    if (!assignment) return notFound("Signer");
+    return HttpResponse.json({
+      ...assignment,
+      waitingOn: getBlockingAssignments(document.assignments, assignment).map(
+        ({ signerName }) => signerName,
+      ),
+      canReassign:
+        assignment.status === "pending" && canReassign(document, assignment),
+    });
+  }),
+
+  http.get("/api/documents/:documentId/signing-links", ({ params }) => {
+    const document = findDocument(params.documentId);
+    if (!document) return notFound("Document");
+    // Links of signers who handed over no longer work
+    const links: SignerSigningLink[] = document.assignments
+      .filter(({ status }) => status !== "reassigned")
+      .map(({ signerId, signerName, signerEmail }) => ({
+        signerId,
+        signerName,
+        signerEmail,
+        signingLink: toSigningLink(document.id, signerId),
+      }));
+    return HttpResponse.json(links);
+  }),
+
+  http.post(
+    "/api/documents/:documentId/signing-links/email",
+    async ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      if (document.status !== "pending") {
+        return HttpResponse.error(409, `This document is ${document.status}`);
+      }
+      const payload = (await request.json()) as SigningEmailPayload;
+      if (!payload.subject?.trim() || !payload.body?.trim()) {
+        return HttpResponse.error(400, "A subject and message are required");
+      }
+      const signers = (payload.signerIds ?? []).map((signerId) =>
+        findAssignment(document, signerId),
+      );
+      if (signers.length === 0 || signers.some((signer) => !signer)) {
+        return HttpResponse.error(400, "Choose signers of this document");
+      }
+
+      const response: SigningEmailResponse = { sent: [] };
+      signers.forEach((signer) => {
+        sendEmail(document, signer!, payload);
+        recordAuditEvent(document.id, {
+          type: "link_sent",
+          signerId: signer!.signerId,
+          actor: MOCK_SENDER,
+          details: { email: signer!.signerEmail },
+        });
+        response.sent.push({
+          signerId: signer!.signerId,
+          email: signer!.signerEmail,
+        });
+      });
+      return HttpResponse.json(response);
+    },
+  ),
+
+  // Message templates
+
+  http.get("/api/message-templates", () =>
+    HttpResponse.json(db.messageTemplates),
+  ),
+
+  http.post("/api/message-templates", async ({ request }) => {
+    const payload = (await request.json()) as MessageTemplatePayload;
+    if (!payload.name?.trim()) {
+      return HttpResponse.error(400, "Template name is required");
+    }
+    if (!payload.subject?.trim() || !payload.body?.trim()) {
+      return HttpResponse.error(400, "A subject and message are required");
+    }
+    const template: MessageTemplate = {
+      id: createId("message"),
+      name: payload.name.trim(),
+      subject: payload.subject,
+      body: payload.body,
+    };
+    db.messageTemplates.push(template);
+    return HttpResponse.json(template, { status: 201 });
+  }),
+
+  http.post(
+    "/api/documents/:documentId/signers/:signerId/activity",
+    async ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      const assignment = findAssignment(document, params.signerId);
+      if (!assignment) return notFound("Signer");
+
+      const activity = (await request.json()) as SignerActivity;
+      if (!SIGNER_ACTIVITY_TYPES.includes(activity.type)) {
+        return HttpResponse.error(400, `Unknown activity "${activity.type}"`);
+      }
+      recordAuditEvent(
+        document.id,
+        {
+          type: activity.type,
+          signerId: assignment.signerId,
+          actor: assignment.signerName,
+          details: activity.details,
+        },
+        request,
+      );
+      return HttpResponse.empty();
+    },
+  ),
+
+  // A signer whose link expired asks the sender for a new one
+  http.post(
+    "/api/documents/:documentId/signers/:signerId/link-request",
+    ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      const assignment = findAssignment(document, params.signerId);
+      if (!assignment) return notFound("Signer");
+      if (
+        document.status === "completed" ||
+        document.status === "voided" ||
+        document.status === "declined"
+      ) {
+        return HttpResponse.error(409, `This document is ${document.status}`);
+      }
+      recordAuditEvent(
+        document.id,
+        {
+          type: "link_requested",
+          signerId: assignment.signerId,
+          actor: assignment.signerName,
+        },
+        request,
+      );
+      return HttpResponse.empty();
+    },
+  ),
+
+  // Declining closes the document for everyone and tells the sender
+  http.post(
+    "/api/documents/:documentId/signers/:signerId/decline",
+    async ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      const assignment = findAssignment(document, params.signerId);
+      if (!assignment) return notFound("Signer");
+      const conflict = checkSignerCanAct(document, assignment);
+      if (conflict) return conflict;
+      const payload = (await request.json()) as Partial<DeclineSigningPayload>;
+      const reason = payload.reason?.trim();
+      if (!reason) {
+        return HttpResponse.error(400, "A reason for declining is required");
+      }
+
+      assignment.status = "declined";
+      assignment.declineReason = reason;
+      document.status = "declined";
+      recordAuditEvent(
+        document.id,
+        {
+          type: "declined",
+          signerId: assignment.signerId,
+          actor: assignment.signerName,
+          details: { reason },
+        },
+        request,
+      );
+      notifySender(
+        document,
+        `${assignment.signerName} declined to sign ${document.name}`,
+        `${assignment.signerName} (${assignment.signerEmail}) declined to sign ${document.name}. Nobody else can sign it now.\n\nReason: ${reason}`,
+      );
+      return HttpResponse.json(assignment);
+    },
+  ),
+
+  // The new signer takes over the same fields and step, with a link of
+  // their own
+  http.post(
+    "/api/documents/:documentId/signers/:signerId/reassign",
+    async ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      const assignment = findAssignment(document, params.signerId);
+      if (!assignment) return notFound("Signer");
+      const conflict = checkSignerCanAct(document, assignment);
+      if (conflict) return conflict;
+      if (!canReassign(document, assignment)) {
+        return HttpResponse.error(
+          403,
+          "This document can't be reassigned to someone else",
+        );
+      }
+      const payload = (await request.json()) as Partial<ReassignSigningPayload>;
+      const signerName = payload.signerName?.trim();
+      const signerEmail = payload.signerEmail?.trim();
+      const note = payload.note?.trim() || undefined;
+      if (!signerName || !signerEmail) {
+        return HttpResponse.error(400, "A name and email are required");
+      }
+      if (
+        document.assignments.some(
+          (other) =>
+            other.status !== "reassigned" &&
+            other.signerEmail.toLowerCase() === signerEmail.toLowerCase(),
+        )
+      ) {
+        return HttpResponse.error(
+          409,
+          `${signerEmail} is already a signer of this document`,
+        );
+      }
+
+      const replacement: SignerAssignment = {
+        signerId: createId("signer"),
+        signerName,
+        signerEmail,
+        fields: assignment.fields,
+        roleId: assignment.roleId,
+        status: "pending",
+        step: assignment.step,
+      };
+      assignment.status = "reassigned";
+      assignment.reassignedTo = { name: signerName, email: signerEmail };
+      document.assignments.splice(
+        document.assignments.indexOf(assignment) + 1,
+        0,
+        replacement,
+      );
+      recordAuditEvent(
+        document.id,
+        {
+          type: "reassigned",
+          signerId: assignment.signerId,
+          actor: assignment.signerName,
+          details: {
+            reassignedTo: signerName,
+            email: signerEmail,
+            reason: note,
+          },
+        },
+        request,
+      );
+
+      const invitation = db.messageTemplates.find(
+        ({ id }) => id === INVITATION_MESSAGE_TEMPLATE_ID,
+      );
+      if (invitation) {
+        sendEmail(document, replacement, {
+          subject: invitation.subject,
+          body: note
+            ? `${invitation.body}\n\nNote from ${assignment.signerName}: ${note}`
+            : invitation.body,
+        });
+        recordAuditEvent(document.id, {
+          type: "link_sent",
+          signerId: replacement.signerId,
+          details: { email: signerEmail },
+        });
+      }
+      notifySender(
+        document,
+        `${assignment.signerName} reassigned ${document.name}`,
+        `${assignment.signerName} (${assignment.signerEmail}) asked ${signerName} (${signerEmail}) to sign ${document.name} in their place.${note ? `\n\nNote: ${note}` : ""}`,
+      );
+      return HttpResponse.json(replacement, { status: 201 });
+    },
+  ),
+
+  // Signing submissions
+
+  http.post(
+    "/api/documents/:documentId/signers/:signerId/submission",
+    async ({ params, request }) => {
+      const document = findDocument(params.documentId);
+      if (!document) return notFound("Document");
+      const assignment = findAssignment(document, params.signerId);
+      if (!assignment) return notFound("Signer");
+      const conflict = checkSignerCanAct(document, assignment);
+      if (conflict) return conflict;
+      const blocking = getBlockingAssignments(document.assignments, assignment);
+      if (blocking.length > 0) {
+        return HttpResponse.error(
+          409,
+          `It isn't your turn yet; waiting on ${blocking.map(({ signerName }) => signerName).join(", ")}`,
+        );
+      }
+
+      const form = await request.formData();
+      const files: File[] = [];
+      form.forEach((value) => {
+        if (value instanceof File) files.push(value);
+      });
+      // Later signers stamp their fields onto this version, so one stamped
+      // onto an older version would drop the signatures added since
+      const signedPdf = form.get("signedPdf");
+      if (signedPdf instanceof File) {
+        const version = document.signedPdfVersion ?? 0;
+        if (Number(form.get("baseVersion") ?? 0) !== version) {
+          return HttpResponse.error(
+            409,
+            "Someone else signed while you were signing; submit again to sign the latest version",
+          );
+        }
+        document.signedPdfUrl = URL.createObjectURL(signedPdf);
+        document.signedPdfVersion = version + 1;
+      }
+      const container = form.get("container");
+      if (container instanceof File) {
+        assignment.containerUrl = URL.createObjectURL(container);
+      }
+      db.submissions.push({
+        documentId: document.id,
+        signerId: assignment.signerId,
+        values: JSON.parse(String(form.get("fields") ?? "{}")),
+        files: files.map(({ name, type, size }) => ({ name, type, size })),
+        submittedAt: new Date().toISOString(),
+      });
+
+      const step = getCurrentStep(document.assignments);
+      assignment.status = "completed";
+      recordAuditEvent(
+        document.id,
+        {
+          type: "signed",
+          signerId: assignment.signerId,
+          actor: assignment.signerName,
+        },
+        request,
+      );
+      if (
+        document.assignments.every(
+          (a) => a.status === "completed" || a.status === "reassigned",
+        )
+      ) {
+        document.status = "completed";
+      } else if (getCurrentStep(document.assignments) !== step) {
+        // The next step only hears it's their turn now
+        inviteCurrentSigners(document);
+      }
+      return HttpResponse.json(assignment);
+    },
+  ),
+];
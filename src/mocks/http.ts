@@ -0,0 +1,64 @@
+// A small subset of MSW's handler API (`http.get(path, resolver)` and
+// `HttpResponse.json`), enough for our in-browser mock backend without
+// registering a service worker.
+
+export type PathParams = Record<string, string>;
+
+export interface ResolverInfo {
+  request: Request;
+  params: PathParams;
+  url: URL;
+}
+
+export type Resolver = (info: ResolverInfo) => Response | Promise<Response>;
+
+export interface RequestHandler {
+  method: string;
+  path: string;
+  resolver: Resolver;
+}
+
+const handler =
+  (method: string) =>
+  (path: string, resolver: Resolver): RequestHandler => ({
+    method,
+    path,
+    resolver,
+  });
+
+export const http = {
+  get: handler("GET"),
+  post: handler("POST"),
+  put: handler("PUT"),
+  patch: handler("PATCH"),
+  delete: handler("DELETE"),
+};
+
+export const HttpResponse = {
+  json: (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    }),
+  empty: (status = 204) => new Response(null, { status }),
+  error: (status: number, message: string) =>
+    HttpResponse.json({ message }, { status }),
+};
+
+// Matches "/api/documents/:documentId" against a pathname, returning the
+// decoded params or null
+export function matchPath(pattern: string, pathname: string) {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: PathParams = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,26 @@
+import { parseISO } from "date-fns";
+import { db, getNextReminderAt, recordAuditEvent, sendReminders } from "./db";
+
+/**
+ * Stands in for the backend's background jobs: expires pending documents
+ * whose expiry has passed and sends scheduled reminders that are due. Runs
+ * before every mock request, so the data is never stale.
+ */
+export function runScheduledJobs(now = new Date()) {
+  db.documents.forEach((document) => {
+    if (document.status !== "pending") return;
+
+    if (document.expiresAt && parseISO(document.expiresAt) <= now) {
+      document.status = "expired";
+      recordAuditEvent(document.id, { type: "expired" });
+      return;
+    }
+
+    const nextReminderAt = getNextReminderAt(document);
+    if (nextReminderAt && parseISO(nextReminderAt) <= now) {
+      sendReminders(document);
+      document.remindersSent = (document.remindersSent ?? 0) + 1;
+      document.lastReminderAt = now.toISOString();
+    }
+  });
+}
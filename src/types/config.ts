@@ -0,0 +1,165 @@
+import { z } from "zod";
+
+// Version written by PdfEditor; older configs are upgraded on load by
+// migrateConfig in src/lib/configMigrations.ts
+export const CURRENT_CONFIG_VERSION = "1.2";
+
+// Per-type behaviour (editor tool, defaults, signing-time control) lives in
+// the registry in src/lib/fieldTypes.ts
+export const FIELD_TYPES = [
+  "signature",
+  "initials",
+  "text",
+  "number",
+  "email",
+  "date",
+  "checkbox",
+  "radio",
+  "dropdown",
+  "autofill",
+  "signblock",
+] as const;
+
+// Where read-only auto-filled fields take their value from at signing time
+export const AUTO_FILL_SOURCES = [
+  "signerName",
+  "signerEmail",
+  "signingDate",
+] as const;
+
+// Any JSON object, to narrow parsed input before the strict schemas below
+export const jsonObjectSchema = z.record(z.unknown());
+
+export type JsonObject = z.infer<typeof jsonObjectSchema>;
+
+export const fieldTypeSchema = z.enum(FIELD_TYPES);
+
+export const autoFillSourceSchema = z.enum(AUTO_FILL_SOURCES);
+
+export const captureOptionsSchema = z
+  .object({
+    video: z.boolean(),
+    audio: z.boolean(),
+    image: z.boolean(),
+    signature: z.boolean(),
+  })
+  .refine((options) => Object.values(options).some(Boolean), {
+    message: "At least one capture option must be enabled",
+  });
+
+export const signerRoleSchema = z.object({
+  id: z.string().min(1, { message: "Signer role ID is required" }),
+  name: z.string().min(1, { message: "Signer role name is required" }),
+  color: z.string().optional(),
+  // Signers in this role may hand their signing over to someone else
+  allowReassign: z.boolean().optional(),
+});
+
+export const templateFieldSchema = z
+  .object({
+    id: z.string().min(1, { message: "Field ID is required" }),
+    type: fieldTypeSchema,
+    page: z.number().int().min(1),
+    position: z.object({
+      x: z.number().min(0),
+      y: z.number().min(0),
+    }),
+    size: z.object({
+      width: z.number().positive(),
+      height: z.number().positive(),
+    }),
+    label: z.string(),
+    required: z.boolean(),
+    placeholder: z.string().optional(),
+    defaultValue: z.string().optional(),
+    helpText: z.string().optional(),
+    signerRoleId: z.string().optional(),
+    options: z
+      .array(z.string().min(1, { message: "Options cannot be empty" }))
+      .optional(),
+    autoFillSource: autoFillSourceSchema.optional(),
+    captureOptions: captureOptionsSchema.optional(),
+  })
+  .superRefine((field, ctx) => {
+    if (field.type === "signblock" && !field.captureOptions) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["captureOptions"],
+        message: "SignBlock fields must define capture options",
+      });
+    }
+
+    if (field.type === "radio" || field.type === "dropdown") {
+      const options = field.options ?? [];
+      if (options.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "Choice fields must define at least one option",
+        });
+      }
+      options.forEach((option, index) => {
+        if (options.indexOf(option) !== index) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["options", index],
+            message: `Duplicate option "${option}"`,
+          });
+        }
+      });
+    }
+
+    if (field.type === "autofill" && !field.autoFillSource) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["autoFillSource"],
+        message: "Auto-filled fields must define where their value comes from",
+      });
+    }
+  });
+
+export const templateConfigSchema = z
+  .object({
+    version: z.literal(CURRENT_CONFIG_VERSION),
+    signerRoles: z.array(signerRoleSchema),
+    fields: z.array(templateFieldSchema),
+  })
+  .superRefine((config, ctx) => {
+    const roleIds = new Set<string>();
+    config.signerRoles.forEach((role, index) => {
+      if (roleIds.has(role.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["signerRoles", index, "id"],
+          message: `Duplicate signer role ID "${role.id}"`,
+        });
+      }
+      roleIds.add(role.id);
+    });
+
+    const fieldIds = new Set<string>();
+    config.fields.forEach((field, index) => {
+      if (fieldIds.has(field.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["fields", index, "id"],
+          message: `Duplicate field ID "${field.id}"`,
+        });
+      }
+      fieldIds.add(field.id);
+
+      if (field.signerRoleId && !roleIds.has(field.signerRoleId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["fields", index, "signerRoleId"],
+          message: `Unknown signer role "${field.signerRoleId}"`,
+        });
+      }
+    });
+  });
+
+export type FieldType = z.infer<typeof fieldTypeSchema>;
+export type AutoFillSource = z.infer<typeof autoFillSourceSchema>;
+export type SignerRole = z.infer<typeof signerRoleSchema>;
+export type TemplateField = z.infer<typeof templateFieldSchema>;
+export type TemplateConfig = z.infer<typeof templateConfigSchema>;
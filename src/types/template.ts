@@ -1,46 +1,197 @@
+import type { AutoFillSource, FieldType, TemplateConfig } from "./config";
+
 export interface Template {
   id: string;
   name: string;
   createdAt?: string;
   updatedAt?: string;
+  // ISO dates bounding when documents may be created from the template
+  validFrom?: string;
+  validTo?: string;
+  pdfUrl?: string;
+  // Archived templates are kept for existing documents but can't be used
+  // for new ones
+  status?: TemplateStatus;
+  config?: TemplateConfig;
+  fabric?: string; // Fabric.js document JSON
+}
+
+export type TemplateStatus = "active" | "archived";
+
+export interface TemplateQuery {
+  page: number;
+  pageSize: number;
+  search?: string;
+  status?: TemplateStatus;
+}
+
+export type DocumentSortField = "name" | "createdAt" | "status";
+
+// Filters, sort and page for the document list. Mirrors the list's URL
+// query string, so a view can be shared as a link.
+export interface DocumentQuery {
+  page: number;
+  pageSize: number;
+  // Matches the document name or any signer's name or email
+  q?: string;
+  status?: Document["status"][];
+  // Inclusive `yyyy-MM-dd` bounds on the creation date
+  createdFrom?: string;
+  createdTo?: string;
+  sort: DocumentSortField;
+  order: "asc" | "desc";
+}
+
+// One page of a server-paginated list; `page` starts at 1
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
 }
 
 export interface Signer {
   signerId: string;
   signerName: string;
   signerEmail: string;
+  roleId?: string; // Template signer role this person fills
+  stage?: number; // Stage the signer belongs to with "staged" signing order
+}
+
+// How signers are invited: all at once, one after another in list order, or
+// in numbered stages where everyone in a stage signs in parallel
+export type SigningOrder = "parallel" | "sequential" | "staged";
+
+// Automatic reminders to the signers whose turn it is, until they sign
+export interface ReminderSchedule {
+  intervalDays: number;
+  maxReminders: number;
 }
 
 export interface DocumentCreationPayload {
   templateId: string;
-  signers: Signer[];
+  signingOrder: SigningOrder;
+  signers: Signer[]; // In signing order
+  assignments: SignerAssignment[];
+  expiresAt?: string;
+  reminders?: ReminderSchedule;
+}
+
+export interface TemplateCreationPayload {
+  templateName: string;
+  validFrom: Date;
+  validTo: Date;
+  pdfFile: File;
+  config: TemplateConfig;
+  fabric: string; // Fabric.js document JSON
+}
+
+export interface SigningLink {
+  signerId: string;
+  signingLink: string;
+}
+
+// A signing link with the signer it belongs to, as listed for a document
+export interface SignerSigningLink extends SigningLink {
+  signerName: string;
+  signerEmail: string;
 }
 
 export interface DocumentCreationResponse {
   documentId: string;
-  signingLinks: {
-    signerId: string;
-    signingLink: string;
-  }[];
+  signingLinks: SigningLink[];
 }
 
 export interface SigningField {
   id: string;
-  type: "text" | "date" | "checkbox" | "signature";
+  type: FieldType;
   page: number;
   position: { x: number; y: number };
   size: { width: number; height: number };
   label: string;
   required: boolean;
-  value?: string | boolean | Date;
+  placeholder?: string;
+  defaultValue?: string;
+  helpText?: string;
+  options?: string[]; // Choices for radio and dropdown fields
+  autoFillSource?: AutoFillSource;
+  captureOptions?: CaptureOptions;
+  value?: SigningFieldValue;
 }
 
+// Media captured for a SignBlock field at signing time
+export interface SignBlockValue {
+  video?: Blob;
+  audio?: Blob;
+  image?: Blob;
+  signature?: string; // PNG data URL
+}
+
+export type SigningFieldValue = string | boolean | Date | SignBlockValue;
+
 export interface Document {
   id: string;
   name: string;
-  status: "pending" | "completed" | "expired";
+  // Declined once any signer declines; nobody else can sign after that
+  status: "pending" | "completed" | "expired" | "voided" | "declined";
+  signingOrder?: SigningOrder;
+  // Signing links stop working after this; missing means they never expire
+  expiresAt?: string;
+  reminders?: ReminderSchedule;
+  remindersSent?: number;
+  // Missing once the schedule has run out or the document is closed
+  nextReminderAt?: string;
   fields: SigningField[];
   pdfUrl: string;
+  // The PDF with every signature so far burned in, each signer's certificate
+  // page appended; missing until someone has signed
+  signedPdfUrl?: string;
+  // Goes up with every signed version; missing until someone has signed
+  signedPdfVersion?: number;
+}
+
+// Row of the document list: a document with its signers' progress
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  status: Document["status"];
+  signingOrder?: SigningOrder;
+  expiresAt?: string;
+  signers: {
+    signerId: string;
+    name: string;
+    email: string;
+    status: SignerAssignment["status"];
+    step?: number;
+  }[];
+}
+
+// Reusable subject and body for signing-link emails, with {{placeholders}}
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+export type MessageTemplatePayload = Omit<MessageTemplate, "id">;
+
+// Subject and body may contain placeholders; the backend fills them in for
+// each signer
+export interface SigningEmailPayload {
+  signerIds: string[];
+  subject: string;
+  body: string;
+}
+
+export interface SigningEmailResponse {
+  sent: { signerId: string; email: string }[];
+}
+
+export interface ReminderResponse {
+  // Emails of the signers who were reminded
+  reminded: string[];
 }
 
 export interface SignerAssignment {
@@ -48,5 +199,107 @@ export interface SignerAssignment {
   signerName: string;
   signerEmail: string;
   fields: string[]; // IDs of fields assigned to this signer
-  status: "pending" | "completed";
+  roleId?: string; // Template signer role, which decides if they may reassign
+  // A reassigned signer is replaced by a new assignment for the person they
+  // handed over to
+  status: "pending" | "completed" | "declined" | "reassigned";
+  declineReason?: string;
+  reassignedTo?: { name: string; email: string };
+  // Signers are invited once every signer of an earlier step has signed;
+  // missing means step 1
+  step?: number;
+  // Names of earlier signers still to sign, filled in by the backend when a
+  // signer fetches their own assignment
+  waitingOn?: string[];
+  // Whether the template lets this signer reassign, filled in alongside
+  // `waitingOn`
+  canReassign?: boolean;
+  // The ASiC-E container sealed when they signed
+  containerUrl?: string;
+}
+
+export interface DeclineSigningPayload {
+  reason: string;
 }
+
+// The person who signs instead of the current signer
+export interface ReassignSigningPayload {
+  signerName: string;
+  signerEmail: string;
+  note?: string;
+}
+
+// A certificate and its PKCS #8 private key, both PEM, that a signer's
+// ASiC-E container is sealed with
+export interface SigningIdentity {
+  certificate: string;
+  privateKey: string;
+}
+
+export interface CaptureOptions {
+  video: boolean;
+  audio: boolean;
+  image: boolean;
+  signature: boolean;
+}
+
+// A field placed on the template in PdfEditor. Coordinates and sizes are in
+// PDF points relative to the top-left corner of `page`.
+export interface ControlItem {
+  id: string;
+  type: FieldType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page: number;
+  label: string;
+  required: boolean;
+  placeholder?: string;
+  defaultValue?: string;
+  helpText?: string;
+  signerRoleId?: string;
+  options?: string[];
+  autoFillSource?: AutoFillSource;
+  captureOptions?: CaptureOptions;
+}
+
+export type AuditEventType =
+  | "created"
+  | "link_sent"
+  | "opened"
+  | "page_viewed"
+  | "field_completed"
+  | "signed"
+  | "declined"
+  | "reassigned"
+  | "expired"
+  | "reminder_sent"
+  | "link_requested"
+  | "expiry_extended"
+  | "voided";
+
+// One entry of a document's audit trail, recorded by the backend
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  timestamp: string;
+  signerId?: string;
+  // Who acted: a signer's name, or the sender for document-level events
+  actor?: string;
+  details?: {
+    page?: number;
+    fieldId?: string;
+    fieldLabel?: string;
+    email?: string;
+    reason?: string;
+    expiresAt?: string;
+    // Name of the person a reassigned signing went to; `email` is theirs
+    reassignedTo?: string;
+  };
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// What the signing screen reports; the backend adds time, IP and user agent
+export type SignerActivity = Pick<AuditEvent, "type" | "details">;
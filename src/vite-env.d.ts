@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Signing backend, e.g. "http://localhost:8081"
+  readonly VITE_API_BASE_URL?: string;
+  // Per-attempt request timeout in milliseconds
+  readonly VITE_API_TIMEOUT_MS?: string;
+  // "true" serves API calls from the in-browser mock backend in src/mocks
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_MOCK_API_LATENCY_MS?: string;
+  // Share of mock requests, 0 to 1, that fail with a 503
+  readonly VITE_MOCK_API_ERROR_RATE?: string;
+}